@@ -10,7 +10,9 @@ import Dashboard from "./pages/Dashboard";
 import EventManagement from "./pages/EventManagement";
 import Totem from "./pages/Totem";
 import WifiDisplay from "./pages/WifiDisplay";
+import ArrivalsWall from "./pages/ArrivalsWall";
 import GuestCheckin from "./pages/GuestCheckin";
+import Rsvp from "./pages/Rsvp";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -31,7 +33,9 @@ const App = () => (
             <Route path="/event/:id" element={<EventManagement />} />
             <Route path="/totem/:id" element={<Totem />} />
             <Route path="/wifi/:id" element={<WifiDisplay />} />
+            <Route path="/arrivals/:id" element={<ArrivalsWall />} />
             <Route path="/guest/:id" element={<GuestCheckin />} />
+            <Route path="/rsvp/:token" element={<Rsvp />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
 
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, BellRing } from 'lucide-react';
+import { AppNotification, showBrowserNotification } from '@/lib/notifications';
+
+// Sino do cabeçalho: chegadas dos convidados que o usuário acompanha
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'denied' : Notification.permission);
+
+  useEffect(() => {
+    if (!user) return;
+    const fetchNotifications = async () => {
+      const { data } = await supabase.from('notifications').select('*').eq('user_id', user.id).order('created_at', { ascending: false }).limit(30);
+      setNotifications(data || []);
+    };
+    fetchNotifications();
+
+    const channel = supabase.channel(`notifications-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` }, (payload) => {
+        const notification = payload.new as AppNotification;
+        setNotifications(prev => [notification, ...prev].slice(0, 30));
+        toast({ title: notification.title, description: notification.body || undefined });
+        showBrowserNotification(notification);
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [user, toast]);
+
+  const unread = notifications.filter(n => !n.read_at).length;
+
+  const handleOpenChange = async (open: boolean) => {
+    if (open || !user || unread === 0) return;
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: now }));
+    await supabase.from('notifications').update({ read_at: now }).eq('user_id', user.id).is('read_at', null);
+  };
+
+  const handleEnableBrowser = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  if (!user) return null;
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-muted-foreground hover:text-foreground">
+          {unread > 0 ? <BellRing className="h-5 w-5 text-primary" /> : <Bell className="h-5 w-5" />}
+          {unread > 0 && <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] rounded-full bg-primary text-[10px] font-bold text-primary-foreground flex items-center justify-center px-1">{unread}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-card border-border">
+        <div className="px-4 py-3 border-b border-border">
+          <p className="font-semibold text-foreground">Notificações</p>
+          {permission === 'default' && (
+            <button type="button" className="text-xs text-primary hover:underline" onClick={handleEnableBrowser}>Ativar alertas do navegador</button>
+          )}
+        </div>
+        <ScrollArea className="max-h-80">
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-4 text-center">Nenhuma notificação. Use "Me avisar" na lista de convidados para acompanhar alguém.</p>
+          ) : notifications.map(n => (
+            <button
+              key={n.id}
+              type="button"
+              className={`w-full text-left px-4 py-3 border-b border-border last:border-0 hover:bg-secondary/50 ${n.read_at ? '' : 'bg-primary/5'}`}
+              onClick={() => n.event_id && navigate(`/event/${n.event_id}`)}
+            >
+              <p className={`text-sm ${n.read_at ? 'text-foreground' : 'font-semibold text-foreground'}`}>{n.title}</p>
+              {n.body && <p className="text-xs text-muted-foreground">{n.body}</p>}
+              <p className="text-[10px] text-muted-foreground mt-1">{new Date(n.created_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}</p>
+            </button>
+          ))}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,59 @@
+import { useRef } from 'react';
+import QRCode from 'react-qr-code';
+import { Button } from '@/components/ui/button';
+import { Download } from 'lucide-react';
+import { QR_LOGO_RATIO, QrLevel, downloadQrPng, downloadQrSvg, qrLevelFor } from '@/lib/qrcode';
+
+interface QrCodeDisplayProps {
+  value: string;
+  size?: number;
+  level?: QrLevel;
+  // Logo do evento no centro do código
+  logoUrl?: string | null;
+  fgColor?: string;
+  bgColor?: string;
+  className?: string;
+  // Moldura em volta do código (ex: fundo branco com margem); os botões ficam fora dela
+  frameClassName?: string;
+  // Mostra os botões PNG/SVG; é também o nome do arquivo
+  downloadName?: string;
+}
+
+// QR Code desenhado localmente (funciona sem internet e não envia dados a terceiros)
+export default function QrCodeDisplay({ value, size = 256, level = 'M', logoUrl, fgColor = '#000000', bgColor = '#FFFFFF', className, frameClassName, downloadName }: QrCodeDisplayProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const logoSide = Math.round(size * QR_LOGO_RATIO);
+
+  const getSvg = () => wrapperRef.current?.querySelector('svg') ?? null;
+
+  const handleDownload = async (format: 'png' | 'svg') => {
+    const svg = getSvg();
+    if (!svg || !downloadName) return;
+    if (format === 'png') await downloadQrPng(svg, downloadName, logoUrl);
+    else await downloadQrSvg(svg, downloadName, logoUrl);
+  };
+
+  return (
+    <div className={className}>
+      <div className={frameClassName}>
+        <div ref={wrapperRef} className="relative inline-block align-top" style={{ width: size, height: size }}>
+          <QRCode value={value} size={size} level={qrLevelFor(level, !!logoUrl)} fgColor={fgColor} bgColor={bgColor} style={{ width: size, height: size }} />
+          {logoUrl && (
+            <div
+              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 flex items-center justify-center p-1"
+              style={{ width: logoSide, height: logoSide, backgroundColor: bgColor }}
+            >
+              <img src={logoUrl} alt="" className="max-w-full max-h-full object-contain" />
+            </div>
+          )}
+        </div>
+      </div>
+      {downloadName && (
+        <div className="flex justify-center gap-2 mt-3 print:hidden">
+          <Button type="button" variant="outline" size="sm" className="border-border" onClick={() => handleDownload('png')}><Download className="h-4 w-4 mr-2" />PNG</Button>
+          <Button type="button" variant="outline" size="sm" className="border-border" onClick={() => handleDownload('svg')}><Download className="h-4 w-4 mr-2" />SVG</Button>
+        </div>
+      )}
+    </div>
+  );
+}
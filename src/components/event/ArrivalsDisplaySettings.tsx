@@ -0,0 +1,46 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ExternalLink, Tv } from 'lucide-react';
+import { ArrivalsWallSettings } from '@/lib/arrivals';
+
+interface ArrivalsDisplaySettingsProps {
+  settings: ArrivalsWallSettings;
+  onChange: (settings: ArrivalsWallSettings) => void;
+  wallUrl: string;
+}
+
+// Painel público de chegadas (salva junto com "Salvar Tudo")
+export default function ArrivalsDisplaySettings({ settings, onChange, wallUrl }: ArrivalsDisplaySettingsProps) {
+  const set = (changes: Partial<ArrivalsWallSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-bold text-foreground flex items-center gap-2">
+            <Tv className="h-5 w-5 text-primary" />
+            Painel de Chegadas
+          </h3>
+          <p className="text-xs text-muted-foreground">Tela pública para a TV do local: chegadas em tempo real, presentes e progresso até o total de convidados.</p>
+        </div>
+        <Switch checked={settings.enabled} onCheckedChange={v => set({ enabled: v })} />
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div><Label>Só o primeiro nome</Label><p className="text-xs text-muted-foreground">"Maria Aparecida Souza" aparece como "Maria".</p></div>
+          <Switch checked={settings.first_name_only} onCheckedChange={v => set({ first_name_only: v })} disabled={!settings.enabled} />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div><Label>Mostrar empresa</Label><p className="text-xs text-muted-foreground">Desligado, a empresa não sai do servidor.</p></div>
+          <Switch checked={settings.show_company} onCheckedChange={v => set({ show_company: v })} disabled={!settings.enabled} />
+        </div>
+        <Button type="button" variant="outline" size="sm" className="border-border" onClick={() => window.open(wallUrl, '_blank')} disabled={!settings.enabled}>
+          <ExternalLink className="h-4 w-4 mr-2" />Abrir painel
+        </Button>
+        {settings.enabled && <p className="text-xs text-muted-foreground">Mudanças valem depois de "Salvar Tudo".</p>}
+      </div>
+    </div>
+  );
+}
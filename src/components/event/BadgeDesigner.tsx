@@ -0,0 +1,112 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Printer } from 'lucide-react';
+import BadgePreview from '@/components/event/BadgePreview';
+import {
+  BADGE_FONTS, BADGE_PRESETS, BadgeData, BadgeFont, BadgeLogoPlacement, BadgeTemplate
+} from '@/lib/badge';
+
+interface BadgeDesignerProps {
+  template: BadgeTemplate;
+  onChange: (template: BadgeTemplate) => void;
+  sample: BadgeData;
+  logoUrl: string | null;
+}
+
+const FIELD_SWITCHES: { key: 'show_company' | 'show_role' | 'show_category' | 'show_qr' | 'uppercase_name'; label: string }[] = [
+  { key: 'show_company', label: 'Empresa' },
+  { key: 'show_role', label: 'Cargo' },
+  { key: 'show_category', label: 'Faixa da categoria' },
+  { key: 'show_qr', label: 'QR pessoal' },
+  { key: 'uppercase_name', label: 'Nome em maiúsculas' }
+];
+
+// Editor do modelo de etiqueta do evento (salvo junto com "Salvar Tudo")
+export default function BadgeDesigner({ template, onChange, sample, logoUrl }: BadgeDesignerProps) {
+  const set = (changes: Partial<BadgeTemplate>) => onChange({ ...template, ...changes });
+
+  const handlePreset = (presetId: string) => {
+    if (presetId === 'custom') { set({ preset: 'custom', sheet: null }); return; }
+    const preset = BADGE_PRESETS.find(p => p.id === presetId);
+    if (preset) set({ preset: preset.id, width_mm: preset.width_mm, height_mm: preset.height_mm, sheet: preset.sheet });
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h3 className="font-bold text-foreground mb-1 flex items-center gap-2">
+        <Printer className="h-5 w-5 text-primary" />
+        Modelo da Etiqueta
+      </h3>
+      <p className="text-xs text-muted-foreground mb-6">Todas as recepções imprimem com este layout.</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Tamanho</Label>
+            <Select value={template.preset} onValueChange={handlePreset}>
+              <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {BADGE_PRESETS.map(p => <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>)}
+                <SelectItem value="custom">Personalizado</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {template.preset === 'custom' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1"><Label>Largura (mm)</Label><Input type="number" min={20} max={210} value={template.width_mm} onChange={e => set({ width_mm: Number(e.target.value) || template.width_mm })} className="bg-secondary border-border" /></div>
+              <div className="space-y-1"><Label>Altura (mm)</Label><Input type="number" min={15} max={297} value={template.height_mm} onChange={e => set({ height_mm: Number(e.target.value) || template.height_mm })} className="bg-secondary border-border" /></div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Fonte</Label>
+              <Select value={template.font_family} onValueChange={(v) => set({ font_family: v as BadgeFont })}>
+                <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>{BADGE_FONTS.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Logo do evento</Label>
+              <Select value={template.logo_placement} onValueChange={(v) => set({ logo_placement: v as BadgeLogoPlacement })}>
+                <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Sem logo</SelectItem>
+                  <SelectItem value="top">Acima do nome</SelectItem>
+                  <SelectItem value="left">À esquerda</SelectItem>
+                  <SelectItem value="right">À direita</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between"><Label>Nome</Label><span className="text-xs font-mono text-muted-foreground">{template.name_size}pt</span></div>
+            <Slider value={[template.name_size]} onValueChange={(v) => set({ name_size: v[0] })} min={10} max={48} step={1} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between"><Label>Empresa / cargo</Label><span className="text-xs font-mono text-muted-foreground">{template.subtitle_size}pt</span></div>
+            <Slider value={[template.subtitle_size]} onValueChange={(v) => set({ subtitle_size: v[0] })} min={6} max={28} step={1} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {FIELD_SWITCHES.map(f => (
+              <div key={f.key} className="flex items-center justify-between gap-2 bg-secondary/30 border border-border rounded-lg px-3 py-2">
+                <Label className="text-sm">{f.label}</Label>
+                <Switch checked={template[f.key]} onCheckedChange={(v) => set({ [f.key]: v })} />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-[#0d0d0d] rounded-lg p-4 flex items-center justify-center">
+          <BadgePreview badge={sample} template={template} logoUrl={logoUrl} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { BadgeData, BadgeTemplate, renderBadgeDocument } from '@/lib/badge';
+
+interface BadgePreviewProps {
+  badge: BadgeData;
+  template: BadgeTemplate;
+  logoUrl?: string | null;
+  maxWidth?: number;
+}
+
+// 1mm = 3.78px (96dpi)
+const MM_TO_PX = 3.78;
+
+// Pré-visualização da etiqueta com o mesmo HTML usado na impressão
+export default function BadgePreview({ badge, template, logoUrl = null, maxWidth = 340 }: BadgePreviewProps) {
+  const width = template.width_mm * MM_TO_PX;
+  const height = template.height_mm * MM_TO_PX;
+  const scale = Math.min(1, maxWidth / width);
+
+  return (
+    <div className="flex flex-col items-center">
+      {/* Régua superior */}
+      <div className="flex justify-between text-[9px] text-gray-600 mb-1 font-mono" style={{ width: width * scale }}>
+        <span>|0</span>
+        <span>{Math.round(template.width_mm / 2)}|</span>
+        <span>{template.width_mm}mm|</span>
+      </div>
+
+      <div className="relative" style={{ width: width * scale, height: height * scale }}>
+        {/* Sombra */}
+        <div className="absolute inset-0 bg-black/40 rounded" style={{ transform: 'translate(3px, 3px)' }} />
+        <div className="relative rounded overflow-hidden border border-gray-300 bg-white" style={{ width: width * scale, height: height * scale }}>
+          <iframe
+            title="Preview da etiqueta"
+            srcDoc={renderBadgeDocument([badge], template, logoUrl, 'preview')}
+            className="pointer-events-none border-0 origin-top-left"
+            style={{ width, height, transform: `scale(${scale})` }}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-center gap-3 mt-2 text-[10px] text-gray-500">
+        <span>{template.width_mm}mm × {template.height_mm}mm</span>
+        {template.sheet && <><span>•</span><span>{template.sheet.cols * template.sheet.rows} por folha A4</span></>}
+      </div>
+    </div>
+  );
+}
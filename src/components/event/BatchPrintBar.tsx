@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Printer } from 'lucide-react';
+
+export type PrintFilter = 'all' | 'not_printed' | 'printed';
+
+interface BatchPrintBarProps {
+  visibleCount: number;
+  selectedCount: number;
+  notPrintedCount: number;
+  filter: PrintFilter;
+  onFilterChange: (filter: PrintFilter) => void;
+  onToggleAll: (checked: boolean) => void;
+  onPrintSelected: () => void;
+  onPrintNotPrinted: () => void;
+}
+
+// Barra de seleção da lista para imprimir várias etiquetas num único trabalho
+export default function BatchPrintBar({
+  visibleCount, selectedCount, notPrintedCount, filter, onFilterChange, onToggleAll, onPrintSelected, onPrintNotPrinted
+}: BatchPrintBarProps) {
+  const allSelected = visibleCount > 0 && selectedCount === visibleCount;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-card border border-border rounded-xl px-4 py-2">
+      <Checkbox
+        checked={allSelected ? true : selectedCount > 0 ? 'indeterminate' : false}
+        onCheckedChange={(v) => onToggleAll(v === true)}
+        disabled={visibleCount === 0}
+      />
+      <span className="text-sm text-muted-foreground">{selectedCount > 0 ? `${selectedCount} selecionado(s)` : 'Selecionar todos'}</span>
+      <div className="flex-1" />
+      <Select value={filter} onValueChange={(v) => onFilterChange(v as PrintFilter)}>
+        <SelectTrigger className="w-[190px] h-9 bg-secondary border-border"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Todas as etiquetas</SelectItem>
+          <SelectItem value="not_printed">Etiqueta não impressa</SelectItem>
+          <SelectItem value="printed">Etiqueta já impressa</SelectItem>
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" className="border-border" onClick={onPrintSelected} disabled={selectedCount === 0}>
+        <Printer className="h-4 w-4 mr-2" />Imprimir selecionados
+      </Button>
+      <Button variant="outline" size="sm" className="border-border" onClick={onPrintNotPrinted} disabled={notPrintedCount === 0}>
+        <Printer className="h-4 w-4 mr-2" />Imprimir não impressas ({notPrintedCount})
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Star, Tags, Trash2 } from 'lucide-react';
+import { GuestCategory, categoryIdFromName, isHexColor } from '@/lib/categories';
+
+interface CategoryManagerProps {
+  categories: GuestCategory[];
+  onChange: (categories: GuestCategory[]) => void;
+}
+
+// Editor da lista de categorias do evento (salva junto com "Salvar Tudo")
+export default function CategoryManager({ categories, onChange }: CategoryManagerProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState('#64748b');
+
+  const update = (id: string, changes: Partial<GuestCategory>) => {
+    if (changes.color !== undefined && !isHexColor(changes.color)) return;
+    onChange(categories.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const handleAdd = () => {
+    const id = categoryIdFromName(newName);
+    if (!id || !isHexColor(newColor)) return;
+    if (categories.some(c => c.id === id)) {
+      toast({ title: 'Erro', description: 'Já existe uma categoria com esse nome.', variant: 'destructive' });
+      return;
+    }
+    onChange([...categories, { id, name: newName.trim(), color: newColor, highlight: false }]);
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h3 className="font-bold text-foreground mb-1 flex items-center gap-2">
+        <Tags className="h-5 w-5 text-primary" />
+        Categorias de Convidados
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">A cor aparece na lista e na faixa da etiqueta. <Star className="inline h-3 w-3" /> destaca a chegada no Ao Vivo.</p>
+
+      <div className="space-y-2 mb-4">
+        {categories.length === 0 && <p className="text-sm text-muted-foreground">Nenhuma categoria.</p>}
+        {categories.map(c => (
+          <div key={c.id} className="flex items-center gap-3">
+            <input type="color" value={c.color} onChange={e => update(c.id, { color: e.target.value })} className="h-9 w-12 rounded cursor-pointer bg-transparent border border-border" />
+            <Input value={c.name} onChange={e => update(c.id, { name: e.target.value })} className="bg-secondary border-border flex-1" />
+            <div className="flex items-center gap-2 shrink-0" title="Destacar no Ao Vivo">
+              <Star className="h-4 w-4 text-muted-foreground" />
+              <Switch checked={c.highlight} onCheckedChange={v => update(c.id, { highlight: v })} />
+            </div>
+            <Button type="button" variant="ghost" size="icon" className="hover:text-destructive shrink-0" onClick={() => onChange(categories.filter(x => x.id !== c.id))}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-end gap-3">
+        <input type="color" value={newColor} onChange={e => setNewColor(e.target.value)} className="h-9 w-12 rounded cursor-pointer bg-transparent border border-border" />
+        <div className="space-y-1 flex-1"><Label>Nova categoria</Label><Input value={newName} onChange={e => setNewName(e.target.value)} placeholder="Ex: Autoridade" className="bg-secondary border-border" /></div>
+        <Button type="button" variant="outline" className="border-border" onClick={handleAdd} disabled={!newName.trim()}>
+          <Plus className="h-4 w-4 mr-2" />Adicionar
+        </Button>
+      </div>
+    </div>
+  );
+}
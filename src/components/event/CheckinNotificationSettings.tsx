@@ -0,0 +1,55 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MessageSquare } from 'lucide-react';
+import { CHANNEL_LABELS, NOTIFICATION_PLACEHOLDERS, NotificationChannel, NotificationSettings } from '@/lib/notifications';
+
+interface CheckinNotificationSettingsProps {
+  settings: NotificationSettings;
+  onChange: (settings: NotificationSettings) => void;
+}
+
+// Mensagens de WhatsApp/SMS no check-in (salva junto com "Salvar Tudo")
+export default function CheckinNotificationSettings({ settings, onChange }: CheckinNotificationSettingsProps) {
+  const set = (changes: Partial<NotificationSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h3 className="font-bold text-foreground mb-1 flex items-center gap-2">
+        <MessageSquare className="h-5 w-5 text-primary" />
+        Notificações de Check-in
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">Cada envio (ou falha) aparece no Histórico. Use {NOTIFICATION_PLACEHOLDERS.join(', ')}.</p>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div><Label>Confirmação para o convidado</Label><p className="text-xs text-muted-foreground">Enviada para o telefone cadastrado do convidado.</p></div>
+          <Switch checked={settings.guest_enabled} onCheckedChange={v => set({ guest_enabled: v })} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label>Canal</Label>
+            <Select value={settings.channel} onValueChange={v => set({ channel: v as NotificationChannel })} disabled={!settings.guest_enabled}>
+              <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>{(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(c => <SelectItem key={c} value={c}>{CHANNEL_LABELS[c]}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Mensagem</Label>
+            <Textarea value={settings.guest_template} onChange={e => set({ guest_template: e.target.value })} rows={3} className="bg-secondary border-border text-sm" disabled={!settings.guest_enabled} />
+          </div>
+        </div>
+
+        <div className="border-t border-border pt-4 flex items-center justify-between gap-4">
+          <div><Label>Avisar anfitriões</Label><p className="text-xs text-muted-foreground">Cadastre quem deve ser avisado na edição de cada convidado.</p></div>
+          <Switch checked={settings.hosts_enabled} onCheckedChange={v => set({ hosts_enabled: v })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Mensagem para o anfitrião</Label>
+          <Textarea value={settings.host_template} onChange={e => set({ host_template: e.target.value })} rows={3} className="bg-secondary border-border text-sm" disabled={!settings.hosts_enabled} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Badge } from '@/components/ui/badge';
+import { LogIn, LogOut } from 'lucide-react';
+import { CheckinRecord, CHECKIN_SOURCE_LABELS } from '@/lib/checkin';
+
+interface TimelinePerson {
+  id: string;
+  name: string;
+  kind: 'guest' | 'staff';
+}
+
+interface CheckinTimelineProps {
+  checkins: CheckinRecord[];
+  people: TimelinePerson[];
+  eventColor: string;
+  // id da sessão -> nome, para diferenciar presença em sala da entrada no evento
+  sessionNames?: Record<string, string>;
+}
+
+const formatTime = (ts: string) => new Date(ts).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Linha do tempo de entradas e saídas por pessoa (mais recentes primeiro)
+export default function CheckinTimeline({ checkins, people, eventColor, sessionNames = {} }: CheckinTimelineProps) {
+  const byPerson = new Map<string, CheckinRecord[]>();
+  checkins.forEach(c => {
+    const personId = c.guest_id || c.staff_id;
+    if (!personId) return;
+    byPerson.set(personId, [...(byPerson.get(personId) || []), c]);
+  });
+
+  const rows = people
+    .filter(p => byPerson.has(p.id))
+    .map(p => ({ person: p, entries: byPerson.get(p.id)!.sort((a, b) => a.occurred_at.localeCompare(b.occurred_at)) }))
+    .sort((a, b) => b.entries[b.entries.length - 1].occurred_at.localeCompare(a.entries[a.entries.length - 1].occurred_at));
+
+  if (rows.length === 0) {
+    return <div className="text-center py-12 text-muted-foreground">Nenhuma entrada registrada ainda.</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map(({ person, entries }) => (
+        <div key={person.id} className="bg-card border border-border rounded-lg p-4">
+          <div className="flex items-center gap-2 mb-3">
+            <h4 className="font-semibold text-foreground truncate">{person.name}</h4>
+            {person.kind === 'staff' && <Badge style={{ backgroundColor: eventColor }} className="text-white">Equipe</Badge>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {entries.map(c => (
+              <div
+                key={c.id}
+                title={[CHECKIN_SOURCE_LABELS[c.source] || c.source, c.device, c.user_email].filter(Boolean).join(' • ')}
+                className={`flex items-center gap-1.5 rounded-md px-2 py-1 text-xs font-mono border ${c.direction === 'in' ? 'border-green-500/40 text-green-400' : 'border-border text-muted-foreground'}`}
+              >
+                {c.direction === 'in' ? <LogIn className="h-3 w-3" /> : <LogOut className="h-3 w-3" />}
+                <span>{formatTime(c.occurred_at)}</span>
+                <span className="font-sans opacity-70">{CHECKIN_SOURCE_LABELS[c.source] || c.source}</span>
+                {c.session_id && <span className="font-sans font-semibold">{sessionNames[c.session_id] || 'Sessão'}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ConsentSettings } from '@/lib/consent';
+
+interface ConsentFieldsProps {
+  settings: ConsentSettings;
+  answers: Record<string, boolean>;
+  onChange: (answers: Record<string, boolean>) => void;
+}
+
+// Termo de consentimento (LGPD) na página /guest/:id
+export default function ConsentFields({ settings, answers, onChange }: ConsentFieldsProps) {
+  const set = (key: string, value: boolean) => onChange({ ...answers, [key]: value });
+
+  return (
+    <div className="space-y-3 text-left">
+      <p className="text-xs text-gray-400 bg-black border border-[#333] rounded-lg p-3 max-h-32 overflow-y-auto whitespace-pre-line">{settings.text}</p>
+      <div className="flex items-start gap-3">
+        <Checkbox id="consent-accept" checked={!!answers.accept} onCheckedChange={(v) => set('accept', v === true)} className="mt-0.5 border-[#555]" />
+        <Label htmlFor="consent-accept" className="text-gray-300 font-normal leading-snug">Li e concordo com o tratamento dos meus dados *</Label>
+      </div>
+      {settings.checkboxes.map(c => (
+        <div key={c.id} className="flex items-start gap-3">
+          <Checkbox id={`consent-${c.id}`} checked={!!answers[c.id]} onCheckedChange={(v) => set(c.id, v === true)} className="mt-0.5 border-[#555]" />
+          <Label htmlFor={`consent-${c.id}`} className="text-gray-300 font-normal leading-snug">{c.label}{c.required && ' *'}</Label>
+        </div>
+      ))}
+    </div>
+  );
+}
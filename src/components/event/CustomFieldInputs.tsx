@@ -0,0 +1,49 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomData, CustomField } from '@/lib/guestFields';
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomData;
+  onChange: (values: CustomData) => void;
+}
+
+const NONE = '__none';
+
+// Campos personalizados do evento nos diálogos de adicionar/editar convidado
+export default function CustomFieldInputs({ fields, values, onChange }: CustomFieldInputsProps) {
+  const set = (id: string, value: string | boolean | null) => {
+    const next = { ...values };
+    if (value === null || value === '') delete next[id];
+    else next[id] = value;
+    onChange(next);
+  };
+
+  return (
+    <>
+      {fields.map(f => f.type === 'checkbox' ? (
+        <div key={f.id} className="flex items-center gap-2">
+          <Checkbox id={`custom-${f.id}`} checked={values[f.id] === true} onCheckedChange={(v) => set(f.id, v === true)} />
+          <Label htmlFor={`custom-${f.id}`} className="font-normal">{f.label}</Label>
+        </div>
+      ) : (
+        <div key={f.id} className="space-y-2">
+          <Label>{f.label}</Label>
+          {f.type === 'select' ? (
+            <Select value={String(values[f.id] || NONE)} onValueChange={(v) => set(f.id, v === NONE ? null : v)}>
+              <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>—</SelectItem>
+                {f.options.map(o => <SelectItem key={o} value={o}>{o}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input value={String(values[f.id] || '')} onChange={e => set(f.id, e.target.value)} className="bg-secondary border-border" />
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ListPlus, Plus, Trash2 } from 'lucide-react';
+import { CUSTOM_FIELD_TYPE_LABELS, CustomField, CustomFieldType, customFieldIdFromLabel } from '@/lib/guestFields';
+
+interface CustomFieldManagerProps {
+  fields: CustomField[];
+  onChange: (fields: CustomField[]) => void;
+}
+
+const parseOptions = (value: string) => value.split(',').map(o => o.trim()).filter(Boolean);
+
+// Editor dos campos extras do convidado (salva junto com "Salvar Tudo")
+export default function CustomFieldManager({ fields, onChange }: CustomFieldManagerProps) {
+  const { toast } = useToast();
+  const [newLabel, setNewLabel] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+
+  const update = (id: string, changes: Partial<CustomField>) => {
+    onChange(fields.map(f => f.id === id ? { ...f, ...changes } : f));
+  };
+
+  const handleAdd = () => {
+    const id = customFieldIdFromLabel(newLabel);
+    if (!id) return;
+    if (fields.some(f => f.id === id)) {
+      toast({ title: 'Erro', description: 'Já existe um campo com esse nome.', variant: 'destructive' });
+      return;
+    }
+    onChange([...fields, { id, label: newLabel.trim(), type: newType, options: [] }]);
+    setNewLabel('');
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h3 className="font-bold text-foreground mb-1 flex items-center gap-2">
+        <ListPlus className="h-5 w-5 text-primary" />
+        Campos Personalizados
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">Aparecem no cadastro do convidado, na importação e na exportação.</p>
+
+      <div className="space-y-3 mb-4">
+        {fields.length === 0 && <p className="text-sm text-muted-foreground">Nenhum campo extra.</p>}
+        {fields.map(f => (
+          <div key={f.id} className="space-y-2">
+            <div className="flex items-center gap-3">
+              <Input value={f.label} onChange={e => update(f.id, { label: e.target.value })} className="bg-secondary border-border flex-1" />
+              <span className="text-xs text-muted-foreground shrink-0 w-28">{CUSTOM_FIELD_TYPE_LABELS[f.type]}</span>
+              <Button type="button" variant="ghost" size="icon" className="hover:text-destructive shrink-0" onClick={() => onChange(fields.filter(x => x.id !== f.id))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {f.type === 'select' && (
+              <Input
+                defaultValue={f.options.join(', ')}
+                onBlur={e => update(f.id, { options: parseOptions(e.target.value) })}
+                placeholder="Opções separadas por vírgula"
+                className="bg-secondary border-border text-sm"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-end gap-3">
+        <div className="space-y-1 flex-1"><Label>Novo campo</Label><Input value={newLabel} onChange={e => setNewLabel(e.target.value)} placeholder="Ex: Restrição alimentar" className="bg-secondary border-border" /></div>
+        <Select value={newType} onValueChange={(v) => setNewType(v as CustomFieldType)}>
+          <SelectTrigger className="w-[160px] bg-secondary border-border"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(t => <SelectItem key={t} value={t}>{CUSTOM_FIELD_TYPE_LABELS[t]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" className="border-border" onClick={handleAdd} disabled={!newLabel.trim()}>
+          <Plus className="h-4 w-4 mr-2" />Adicionar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { BellRing, Loader2, Plus, Trash2 } from 'lucide-react';
+import { AppUser, GuestWatcher, WATCHER_CHANNEL_LABELS, WatcherChannel, listAppUsers } from '@/lib/notifications';
+
+interface GuestWatchersProps {
+  eventId: string;
+  guestId: string;
+  watchers: GuestWatcher[];
+  onChanged: () => void;
+}
+
+const emptyWatcher = { name: '', phone: '', userId: '', channel: 'whatsapp' as WatcherChannel };
+
+const isUserChannel = (channel: WatcherChannel) => channel === 'app' || channel === 'email';
+
+// Anfitriões avisados quando o convidado faz check-in: por telefone (WhatsApp/SMS) ou usuários do sistema
+export default function GuestWatchers({ eventId, guestId, watchers, onChanged }: GuestWatchersProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyWatcher);
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [saving, setSaving] = useState(false);
+  const forUser = isUserChannel(form.channel);
+
+  // Lista de usuários recarregada ao escolher um canal de usuário do sistema
+  useEffect(() => { if (forUser) listAppUsers().then(({ users }) => setUsers(users)); }, [forUser]);
+
+  const handleAdd = async () => {
+    const user = users.find(u => u.user_id === form.userId);
+    if (forUser ? !user : (!form.name.trim() || form.phone.replace(/\D/g, '').length < 10)) {
+      toast({ title: 'Erro', description: forUser ? 'Escolha o usuário.' : 'Informe o nome e o telefone com DDD.', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase.from('guest_watchers').insert({
+      event_id: eventId,
+      guest_id: guestId,
+      user_id: user?.user_id ?? null,
+      name: user ? user.display_name || user.email : form.name.trim(),
+      phone: user ? null : form.phone.trim(),
+      channel: form.channel
+    });
+    setSaving(false);
+    if (error) toast({ title: 'Erro', description: 'Falha ao adicionar anfitrião (ele já acompanha este convidado?).', variant: 'destructive' });
+    else { setForm({ ...emptyWatcher, channel: form.channel }); onChanged(); }
+  };
+
+  const handleDelete = async (watcher: GuestWatcher) => {
+    const { error } = await supabase.from('guest_watchers').delete().eq('id', watcher.id);
+    if (error) toast({ title: 'Erro', description: 'Falha ao remover anfitrião.', variant: 'destructive' });
+    else onChanged();
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center gap-2"><BellRing className="h-4 w-4 text-primary" />Avisar quando chegar</Label>
+      {watchers.map(w => (
+        <div key={w.id} className="flex items-center justify-between gap-3 bg-secondary/30 border border-border rounded-lg px-3 py-2">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-foreground truncate">{w.name}</p>
+            <p className="text-xs text-muted-foreground">{[WATCHER_CHANNEL_LABELS[w.channel], w.phone].filter(Boolean).join(' • ')}</p>
+          </div>
+          <Button type="button" variant="ghost" size="icon" className="hover:text-destructive shrink-0" onClick={() => handleDelete(w)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Select value={form.channel} onValueChange={v => setForm({ ...form, channel: v as WatcherChannel })}>
+        <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {(Object.keys(WATCHER_CHANNEL_LABELS) as WatcherChannel[]).map(c => (
+            <SelectItem key={c} value={c}>{isUserChannel(c) ? `Usuário do sistema — ${WATCHER_CHANNEL_LABELS[c]}` : WATCHER_CHANNEL_LABELS[c]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex gap-2">
+        {forUser ? (
+          <Select value={form.userId} onValueChange={v => setForm({ ...form, userId: v })}>
+            <SelectTrigger className="bg-secondary border-border flex-1"><SelectValue placeholder="Escolha o usuário" /></SelectTrigger>
+            <SelectContent>{users.map(u => <SelectItem key={u.user_id} value={u.user_id}>{u.display_name ? `${u.display_name} (${u.email})` : u.email}</SelectItem>)}</SelectContent>
+          </Select>
+        ) : (
+          <>
+            <Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Nome do anfitrião" className="bg-secondary border-border flex-1" />
+            <Input value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} placeholder="(48) 99999-9999" className="bg-secondary border-border flex-1" />
+          </>
+        )}
+        <Button type="button" variant="outline" className="border-border" onClick={handleAdd} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-2" />Adicionar</>}
+        </Button>
+      </div>
+    </div>
+  );
+}
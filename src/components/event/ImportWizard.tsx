@@ -0,0 +1,334 @@
+import { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { GuestCategory } from '@/lib/categories';
+import { CustomData, CustomField, formatCustomValue } from '@/lib/guestFields';
+import { ConsentSettings, buildGuestConsent } from '@/lib/consent';
+import {
+  ColumnMapping, CustomMapping, ExistingAction, IMPORT_ACCEPT, IMPORT_FIELDS, IMPORT_PRESETS, ImportResult, ImportRow, ImportRowStatus,
+  analyzeImport, detectPreset, guessCustomMapping, guessMapping, readSheet, readWorkbook
+} from '@/lib/guestImport';
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  guests: { id: string; name: string; company: string | null; email?: string | null; custom_data?: CustomData | null }[];
+  categories: GuestCategory[];
+  customFields: CustomField[];
+  consent: ConsentSettings;
+  onImported: (results: ImportResult[]) => void;
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'Novo', className: 'border-green-500 text-green-500' },
+  existing: { label: 'Já na lista', className: 'border-blue-500 text-blue-500' },
+  duplicate: { label: 'Repetido', className: 'border-yellow-500 text-yellow-500' },
+  invalid: { label: 'Inválido', className: 'border-destructive text-destructive' }
+};
+
+const OUTCOME_LABELS: Record<ImportResult['outcome'], { label: string; className: string }> = {
+  inserted: { label: 'Inserido', className: 'border-green-500 text-green-500' },
+  updated: { label: 'Atualizado', className: 'border-blue-500 text-blue-500' },
+  skipped: { label: 'Ignorado', className: 'border-border text-muted-foreground' },
+  error: { label: 'Erro', className: 'border-destructive text-destructive' }
+};
+
+const PREVIEW_LIMIT = 50;
+const INSERT_CHUNK = 500;
+const NONE = '__none';
+
+// Assistente de importação: planilha -> mapeamento -> prévia -> resultado por linha
+export default function ImportWizard({ open, onOpenChange, eventId, guests, categories, customFields, consent, onImported }: ImportWizardProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<'upload' | 'review' | 'done'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [customMapping, setCustomMapping] = useState<CustomMapping>({});
+  const [presetId, setPresetId] = useState(NONE);
+  const [existingAction, setExistingAction] = useState<ExistingAction>('skip');
+  const [consentCollected, setConsentCollected] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<ImportResult[]>([]);
+
+  const sheet = useMemo(() => workbook && sheetName ? readSheet(workbook, sheetName) : null, [workbook, sheetName]);
+  const rows = useMemo(
+    () => sheet && mapping ? analyzeImport(sheet.rows, mapping, guests, categories, customFields, customMapping) : [],
+    [sheet, mapping, guests, categories, customFields, customMapping]
+  );
+  const counts = rows.reduce((acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }), { new: 0, existing: 0, duplicate: 0, invalid: 0 } as Record<ImportRowStatus, number>);
+  const toImport = counts.new + (existingAction === 'skip' ? 0 : counts.existing);
+  // Sobrenome entra junto no nome
+  const previewFields = IMPORT_FIELDS.filter(f => f.key !== 'last_name' && (f.key === 'name' || mapping?.[f.key]));
+  const mappedCustomFields = customFields.filter(f => customMapping[f.id]);
+
+  const reset = () => {
+    setStep('upload'); setFileName(''); setWorkbook(null); setSheetName(''); setMapping(null); setCustomMapping({}); setPresetId(NONE); setResults([]); setExistingAction('skip'); setConsentCollected(false);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (importing) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  // Reconhece exportações do Sympla/Even3/Eventbrite/Google Forms pelos cabeçalhos
+  const selectSheet = (wb: XLSX.WorkBook, name: string) => {
+    const { headers } = readSheet(wb, name);
+    const preset = detectPreset(headers);
+    setSheetName(name);
+    setPresetId(preset?.id || NONE);
+    applyMapping(headers, guessMapping(headers, preset));
+  };
+
+  const selectPreset = (id: string) => {
+    setPresetId(id);
+    if (sheet) applyMapping(sheet.headers, guessMapping(sheet.headers, IMPORT_PRESETS.find(p => p.id === id) || null));
+  };
+
+  const applyMapping = (headers: string[], guessed: ColumnMapping) => {
+    setMapping(guessed);
+    setCustomMapping(guessCustomMapping(headers, customFields, guessed));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; e.target.value = '';
+    if (!file) return;
+    try {
+      const wb = await readWorkbook(file);
+      setWorkbook(wb);
+      setFileName(file.name);
+      selectSheet(wb, wb.SheetNames[0]);
+      setStep('review');
+    } catch (err) {
+      toast({ title: 'Erro', description: 'Arquivo inválido.', variant: 'destructive' });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!mapping) return;
+    setImporting(true);
+    const out: ImportResult[] = [];
+    const toInsert: ImportRow[] = [];
+    const toUpdate: ImportRow[] = [];
+
+    rows.forEach(r => {
+      const skip = (message: string | null) => out.push({ line: r.line, name: r.values.name, outcome: 'skipped', message });
+      if (r.status === 'invalid' || r.status === 'duplicate') skip(r.warning);
+      else if (r.status === 'existing' && existingAction === 'skip') skip('Já está na lista');
+      else if (r.status === 'existing' && existingAction === 'update') toUpdate.push(r);
+      else toInsert.push(r);
+    });
+
+    // Só as colunas mapeadas entram no registro (não apaga o que não veio na planilha)
+    const record = (r: ImportRow) => {
+      const data: Record<string, string | null> = { name: r.values.name };
+      if (mapping.company) data.company = r.values.company || null;
+      if (mapping.role) data.role = r.values.role || null;
+      if (mapping.category && (r.category || !r.values.category)) data.category = r.category;
+      if (mapping.email) data.email = r.values.email || null;
+      if (mapping.phone) data.phone = r.values.phone || null;
+      if (mapping.document) data.document = r.values.document || null;
+      if (mapping.ticket_type) data.ticket_type = r.values.ticket_type || null;
+      return data;
+    };
+    // Campos personalizados: mescla com o que o convidado já tinha
+    // Aceite coletado pela plataforma de inscrição vale como consentimento da versão atual
+    const importedConsent = consent.enabled && consentCollected ? buildGuestConsent(consent, { accept: true }, 'import') : null;
+    const withCustom = (r: ImportRow) => {
+      const data: Record<string, unknown> = record(r);
+      if (importedConsent) data.consent = importedConsent;
+      if (mappedCustomFields.length === 0) return data;
+      const current = guests.find(g => g.id === r.existingId)?.custom_data || {};
+      return { ...data, custom_data: { ...current, ...r.custom } };
+    };
+
+    for (let i = 0; i < toInsert.length; i += INSERT_CHUNK) {
+      const chunk = toInsert.slice(i, i + INSERT_CHUNK);
+      const { error } = await supabase.from('guests').insert(chunk.map(r => ({ event_id: eventId, ...withCustom({ ...r, existingId: null }) })));
+      chunk.forEach(r => out.push({ line: r.line, name: r.values.name, outcome: error ? 'error' : 'inserted', message: error ? error.message : r.warning }));
+    }
+
+    for (const r of toUpdate) {
+      const { error } = await supabase.from('guests').update(withCustom(r)).eq('id', r.existingId);
+      out.push({ line: r.line, name: r.values.name, outcome: error ? 'error' : 'updated', message: error ? error.message : r.warning });
+    }
+
+    out.sort((a, b) => a.line - b.line);
+    setResults(out);
+    setImporting(false);
+    setStep('done');
+    onImported(out);
+  };
+
+  const summary = results.reduce((acc, r) => ({ ...acc, [r.outcome]: acc[r.outcome] + 1 }), { inserted: 0, updated: 0, skipped: 0, error: 0 } as Record<ImportResult['outcome'], number>);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-card border-border max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader><DialogTitle className="flex items-center gap-2"><FileSpreadsheet className="h-5 w-5 text-primary" />Importar Convidados</DialogTitle></DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-border rounded-xl p-12 cursor-pointer hover:border-primary transition-colors">
+            <input type="file" accept={IMPORT_ACCEPT} onChange={handleFile} className="hidden" />
+            <Upload className="h-8 w-8 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Selecione a planilha (.xlsx, .xls) ou CSV</span>
+            <span className="text-xs text-muted-foreground">Aceita exportações do Sympla, Even3, Eventbrite e Google Forms</span>
+          </label>
+        )}
+
+        {step === 'review' && workbook && mapping && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="text-sm text-muted-foreground flex-1 min-w-[200px] truncate"><FileSpreadsheet className="inline h-4 w-4 mr-1" />{fileName}</div>
+              <div className="space-y-1">
+                <Label>Formato</Label>
+                <Select value={presetId} onValueChange={selectPreset}>
+                  <SelectTrigger className="w-[200px] bg-secondary border-border"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Planilha comum</SelectItem>
+                    {IMPORT_PRESETS.map(p => <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              {workbook.SheetNames.length > 1 && (
+                <div className="space-y-1">
+                  <Label>Aba</Label>
+                  <Select value={sheetName} onValueChange={(v) => selectSheet(workbook, v)}>
+                    <SelectTrigger className="w-[200px] bg-secondary border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent>{workbook.SheetNames.map(n => <SelectItem key={n} value={n}>{n}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {IMPORT_FIELDS.map(f => (
+                <div key={f.key} className="space-y-1">
+                  <Label>{f.label}{f.key === 'name' ? ' *' : ''}</Label>
+                  <Select value={mapping[f.key] || NONE} onValueChange={(v) => setMapping({ ...mapping, [f.key]: v === NONE ? null : v })}>
+                    <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>— Ignorar —</SelectItem>
+                      {sheet?.headers.map(h => <SelectItem key={h} value={h}>{h}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              {customFields.map(f => (
+                <div key={f.id} className="space-y-1">
+                  <Label>{f.label}</Label>
+                  <Select value={customMapping[f.id] || NONE} onValueChange={(v) => setCustomMapping({ ...customMapping, [f.id]: v === NONE ? null : v })}>
+                    <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>— Ignorar —</SelectItem>
+                      {sheet?.headers.map(h => <SelectItem key={h} value={h}>{h}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map(s => (
+                <Badge key={s} variant="outline" className={STATUS_LABELS[s].className}>{STATUS_LABELS[s].label}: {counts[s]}</Badge>
+              ))}
+            </div>
+
+            {counts.existing > 0 && (
+              <div className="space-y-2 bg-secondary/30 border border-border rounded-lg p-4">
+                <Label>{counts.existing} já estão na lista (mesmo nome e empresa, ou mesmo e-mail)</Label>
+                <RadioGroup value={existingAction} onValueChange={(v) => setExistingAction(v as ExistingAction)} className="flex flex-wrap gap-6">
+                  <div className="flex items-center gap-2"><RadioGroupItem value="skip" id="existing-skip" /><Label htmlFor="existing-skip" className="font-normal">Pular</Label></div>
+                  <div className="flex items-center gap-2"><RadioGroupItem value="update" id="existing-update" /><Label htmlFor="existing-update" className="font-normal">Atualizar dados</Label></div>
+                  <div className="flex items-center gap-2"><RadioGroupItem value="insert" id="existing-insert" /><Label htmlFor="existing-insert" className="font-normal">Inserir mesmo assim</Label></div>
+                </RadioGroup>
+              </div>
+            )}
+
+            {consent.enabled && (
+              <div className="flex items-start gap-3">
+                <Checkbox id="import-consent" checked={consentCollected} onCheckedChange={(v) => setConsentCollected(v === true)} className="mt-0.5" />
+                <Label htmlFor="import-consent" className="font-normal leading-snug">Os participantes aceitaram o termo de consentimento (LGPD) na inscrição — registrar o aceite da versão {consent.version}</Label>
+              </div>
+            )}
+
+            <div className="border border-border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    {previewFields.map(f => <TableHead key={f.key}>{f.label}</TableHead>)}
+                    {mappedCustomFields.map(f => <TableHead key={f.id}>{f.label}</TableHead>)}
+                    <TableHead>Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_LIMIT).map(r => (
+                    <TableRow key={r.line}>
+                      <TableCell className="font-mono text-xs text-muted-foreground">{r.line}</TableCell>
+                      {previewFields.map(f => <TableCell key={f.key} className="max-w-[160px] truncate">{r.values[f.key]}</TableCell>)}
+                      {mappedCustomFields.map(f => <TableCell key={f.id} className="max-w-[160px] truncate">{formatCustomValue(f, r.custom[f.id])}</TableCell>)}
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_LABELS[r.status].className}>{STATUS_LABELS[r.status].label}</Badge>
+                        {r.warning && <p className="text-xs text-muted-foreground mt-1">{r.warning}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {rows.length > PREVIEW_LIMIT && <p className="text-xs text-muted-foreground text-center py-2">Mostrando {PREVIEW_LIMIT} de {rows.length} linhas.</p>}
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" className="border-border" onClick={reset} disabled={importing}>Voltar</Button>
+              <Button className="bg-primary" onClick={handleImport} disabled={importing || !mapping.name || toImport === 0}>
+                {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : `Importar ${toImport} convidado(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(OUTCOME_LABELS) as ImportResult['outcome'][]).map(o => (
+                <Badge key={o} variant="outline" className={OUTCOME_LABELS[o].className}>{OUTCOME_LABELS[o].label}: {summary[o]}</Badge>
+              ))}
+            </div>
+            <div className="border border-border rounded-lg overflow-hidden max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow><TableHead className="w-16">Linha</TableHead><TableHead>Nome</TableHead><TableHead>Resultado</TableHead><TableHead>Observação</TableHead></TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(r => (
+                    <TableRow key={r.line}>
+                      <TableCell className="font-mono text-xs text-muted-foreground">{r.line}</TableCell>
+                      <TableCell>{r.name || '—'}</TableCell>
+                      <TableCell><Badge variant="outline" className={OUTCOME_LABELS[r.outcome].className}>{OUTCOME_LABELS[r.outcome].label}</Badge></TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{r.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end"><Button className="bg-primary" onClick={() => handleOpenChange(false)}>Concluir</Button></div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
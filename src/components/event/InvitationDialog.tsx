@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Mail, Send } from 'lucide-react';
+import {
+  INVITATION_PLACEHOLDERS, InvitationResult, InvitationTemplate, RsvpStatus, fillTemplate, rsvpLink, sendInvitations
+} from '@/lib/invitations';
+
+interface InvitationGuest {
+  id: string;
+  name: string;
+  email: string | null;
+  checkin_token: string;
+  rsvp_status: RsvpStatus | null;
+  invited_at: string | null;
+}
+
+interface InvitationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  eventName: string;
+  eventDate: string;
+  template: InvitationTemplate;
+  guests: InvitationGuest[];
+  selectedIds: Set<string>;
+  onSent: (template: InvitationTemplate, result: InvitationResult) => void;
+}
+
+type Audience = 'not_invited' | 'pending' | 'selected' | 'all';
+
+// Envio dos convites com link de RSVP para quem tem e-mail
+export default function InvitationDialog({ open, onOpenChange, eventId, eventName, eventDate, template, guests, selectedIds, onSent }: InvitationDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(template);
+  const [audience, setAudience] = useState<Audience>('not_invited');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => { if (open) setDraft(template); }, [open, template]);
+
+  const withEmail = guests.filter(g => g.email);
+  const audiences: Record<Audience, { label: string; list: InvitationGuest[] }> = {
+    not_invited: { label: 'Ainda sem convite', list: withEmail.filter(g => !g.invited_at) },
+    pending: { label: 'Sem resposta (lembrete)', list: withEmail.filter(g => g.rsvp_status === 'pending') },
+    selected: { label: 'Selecionados na lista', list: withEmail.filter(g => selectedIds.has(g.id)) },
+    all: { label: 'Todos com e-mail', list: withEmail }
+  };
+  const recipients = audiences[audience].list;
+  const sample = recipients[0] || withEmail[0];
+  const vars = {
+    nome: sample?.name || 'Maria Souza',
+    evento: eventName,
+    data: eventDate ? new Date(eventDate).toLocaleString('pt-BR', { dateStyle: 'long', timeStyle: 'short' }) : '',
+    link: sample ? rsvpLink(sample.checkin_token) : rsvpLink('exemplo')
+  };
+
+  const handleSend = async () => {
+    if (recipients.length === 0) return;
+    if (!confirm(`Enviar ${recipients.length} convite(s) por e-mail?`)) return;
+    setSending(true);
+    await supabase.from('events').update({ invitation_template: draft }).eq('id', eventId);
+    const { data, error } = await sendInvitations(eventId, recipients.map(g => g.id));
+    setSending(false);
+    if (error || !data) {
+      toast({ title: 'Erro', description: 'Falha ao enviar os convites. Verifique o provedor de e-mail.', variant: 'destructive' });
+      return;
+    }
+    const failed = data.results.filter(r => !r.ok).length;
+    toast({
+      title: failed ? 'Envio parcial' : 'Sucesso',
+      description: `${data.sent} convite(s) enviado(s)${failed ? `, ${failed} com erro` : ''}.`,
+      variant: failed ? 'destructive' : 'default'
+    });
+    onSent(draft, data);
+    if (!failed) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !sending && onOpenChange(v)}>
+      <DialogContent className="bg-card border-border max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader><DialogTitle className="flex items-center gap-2"><Mail className="h-5 w-5 text-primary" />Enviar Convites</DialogTitle></DialogHeader>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Enviar para</Label>
+              <RadioGroup value={audience} onValueChange={(v) => setAudience(v as Audience)} className="space-y-1">
+                {(Object.keys(audiences) as Audience[]).map(a => (
+                  <div key={a} className="flex items-center gap-2">
+                    <RadioGroupItem value={a} id={`audience-${a}`} />
+                    <Label htmlFor={`audience-${a}`} className="font-normal">{audiences[a].label} ({audiences[a].list.length})</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {guests.length > withEmail.length && <p className="text-xs text-muted-foreground">{guests.length - withEmail.length} convidado(s) sem e-mail ficam de fora.</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assunto</Label>
+              <Input value={draft.subject} onChange={e => setDraft({ ...draft, subject: e.target.value })} className="bg-secondary border-border" />
+            </div>
+            <div className="space-y-2">
+              <Label>Mensagem</Label>
+              <Textarea value={draft.body} onChange={e => setDraft({ ...draft, body: e.target.value })} rows={8} className="bg-secondary border-border text-sm" />
+              <p className="text-xs text-muted-foreground">Use {INVITATION_PLACEHOLDERS.join(', ')}. Os botões Confirmar / Não poderei ir entram no fim do e-mail.</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Prévia</Label>
+            <div className="bg-white text-gray-800 rounded-lg p-5 space-y-3 text-sm">
+              <p className="font-bold">{fillTemplate(draft.subject, vars)}</p>
+              <p className="whitespace-pre-line leading-relaxed">{fillTemplate(draft.body, vars)}</p>
+              <div className="flex gap-2 pt-2">
+                <span className="bg-primary text-white font-bold px-3 py-2 rounded">Confirmar presença</span>
+                <span className="bg-gray-500 text-white font-bold px-3 py-2 rounded">Não poderei ir</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <Button className="w-full bg-primary" onClick={handleSend} disabled={sending || recipients.length === 0}>
+          {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Send className="h-4 w-4 mr-2" />Enviar {recipients.length} convite(s)</>}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
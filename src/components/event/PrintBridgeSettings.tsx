@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Printer } from 'lucide-react';
+import { PrintBridgeSettings as Settings, PrintLanguage } from '@/lib/printBridge';
+
+interface PrintBridgeSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onTest: () => Promise<void>;
+}
+
+// Impressora térmica desta máquina (salvo no navegador, não no evento)
+export default function PrintBridgeSettings({ settings, onChange, onTest }: PrintBridgeSettingsProps) {
+  const [testing, setTesting] = useState(false);
+  const set = (changes: Partial<Settings>) => onChange({ ...settings, ...changes });
+
+  const handleTest = async () => {
+    setTesting(true);
+    await onTest();
+    setTesting(false);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between gap-4">
+        <div><Label>Imprimir direto na impressora</Label><p className="text-xs text-muted-foreground">Envia a etiqueta para a ponte de impressão local, sem o diálogo do navegador.</p></div>
+        <Switch checked={settings.enabled} onCheckedChange={(v) => set({ enabled: v })} />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Endereço da ponte</Label>
+        <Input value={settings.url} onChange={e => set({ url: e.target.value })} placeholder="http://localhost:9100/print" className="bg-secondary border-border font-mono text-sm" disabled={!settings.enabled} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Linguagem</Label>
+          <Select value={settings.language} onValueChange={(v) => set({ language: v as PrintLanguage })} disabled={!settings.enabled}>
+            <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="zpl">ZPL (Zebra / Brother)</SelectItem>
+              <SelectItem value="escpos">ESC/POS (cupom)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Resolução</Label>
+          <Select value={String(settings.dpi)} onValueChange={(v) => set({ dpi: Number(v) as Settings['dpi'] })} disabled={!settings.enabled || settings.language !== 'zpl'}>
+            <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="203">203 dpi</SelectItem>
+              <SelectItem value="300">300 dpi</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div><Label>Imprimir ao fazer check-in</Label><p className="text-xs text-muted-foreground">Cada check-in desta recepção imprime a etiqueta automaticamente.</p></div>
+        <Switch checked={settings.autoPrintOnCheckin} onCheckedChange={(v) => set({ autoPrintOnCheckin: v })} disabled={!settings.enabled} />
+      </div>
+
+      <Button type="button" variant="outline" className="w-full border-border" onClick={handleTest} disabled={!settings.enabled || testing}>
+        {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Printer className="h-4 w-4 mr-2" />Imprimir etiqueta de teste</>}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, Loader2, Plus, ShieldCheck, Trash2, UserX } from 'lucide-react';
+import { ConsentSettings, fetchRetentionScheduled } from '@/lib/consent';
+import { categoryIdFromName } from '@/lib/categories';
+
+interface PrivacySettingsProps {
+  consent: ConsentSettings;
+  onConsentChange: (consent: ConsentSettings) => void;
+  retentionDays: number | null;
+  onRetentionChange: (days: number | null) => void;
+  anonymizedAt: string | null;
+  // Só admin
+  onAnonymize?: () => Promise<void>;
+}
+
+// Consentimento no check-in pelo celular e prazo de guarda dos dados (salva junto com "Salvar Tudo")
+export default function PrivacySettings({ consent, onConsentChange, retentionDays, onRetentionChange, anonymizedAt, onAnonymize }: PrivacySettingsProps) {
+  const [newLabel, setNewLabel] = useState('');
+  const [anonymizing, setAnonymizing] = useState(false);
+  // null = não deu para verificar (ex: usuário sem permissão)
+  const [scheduled, setScheduled] = useState<boolean | null>(null);
+  const set = (changes: Partial<ConsentSettings>) => onConsentChange({ ...consent, ...changes });
+
+  useEffect(() => { fetchRetentionScheduled().then(setScheduled); }, []);
+
+  const handleAdd = () => {
+    const id = categoryIdFromName(newLabel);
+    if (!id || consent.checkboxes.some(c => c.id === id)) return;
+    set({ checkboxes: [...consent.checkboxes, { id, label: newLabel.trim(), required: false }] });
+    setNewLabel('');
+  };
+
+  const handleAnonymize = async () => {
+    if (!onAnonymize) return;
+    setAnonymizing(true);
+    await onAnonymize();
+    setAnonymizing(false);
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h3 className="font-bold text-foreground mb-1 flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        Privacidade (LGPD)
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">O aceite fica registrado no convidado com data, hora e a versão do texto.</p>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div><Label>Pedir consentimento no check-in pelo celular</Label><p className="text-xs text-muted-foreground">Versão atual do termo: {consent.version}. Alterar o texto gera uma nova versão ao salvar.</p></div>
+          <Switch checked={consent.enabled} onCheckedChange={v => set({ enabled: v })} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Texto do termo</Label>
+          <Textarea value={consent.text} onChange={e => set({ text: e.target.value })} rows={4} className="bg-secondary border-border text-sm" disabled={!consent.enabled} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Caixas adicionais</Label>
+          {consent.checkboxes.map(c => (
+            <div key={c.id} className="flex items-center gap-3">
+              <Input value={c.label} onChange={e => set({ checkboxes: consent.checkboxes.map(x => x.id === c.id ? { ...x, label: e.target.value } : x) })} className="bg-secondary border-border flex-1" disabled={!consent.enabled} />
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-xs text-muted-foreground">Obrigatória</span>
+                <Switch checked={c.required} onCheckedChange={v => set({ checkboxes: consent.checkboxes.map(x => x.id === c.id ? { ...x, required: v } : x) })} disabled={!consent.enabled} />
+              </div>
+              <Button type="button" variant="ghost" size="icon" className="hover:text-destructive shrink-0" onClick={() => set({ checkboxes: consent.checkboxes.filter(x => x.id !== c.id) })} disabled={!consent.enabled}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-3">
+            <Input value={newLabel} onChange={e => setNewLabel(e.target.value)} placeholder="Ex: Aceito receber novidades por e-mail" className="bg-secondary border-border flex-1" disabled={!consent.enabled} />
+            <Button type="button" variant="outline" className="border-border" onClick={handleAdd} disabled={!consent.enabled || !newLabel.trim()}>
+              <Plus className="h-4 w-4 mr-2" />Adicionar
+            </Button>
+          </div>
+        </div>
+
+        <div className="border-t border-border pt-4 space-y-2">
+          <Label>Anonimizar dados dos convidados após (dias do evento)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={retentionDays ?? ''}
+            onChange={e => onRetentionChange(e.target.value ? Math.max(1, Number(e.target.value)) : null)}
+            placeholder="Sem prazo"
+            className="bg-secondary border-border w-40"
+          />
+          <p className="text-xs text-muted-foreground">Nome, empresa, contatos e campos personalizados são apagados; os números de presença continuam no relatório.</p>
+          {retentionDays && scheduled === false && !anonymizedAt && (
+            <p className="text-xs text-yellow-500 flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              A anonimização automática não está agendada neste banco (pg_cron desativado). Até ativar, use "Anonimizar agora" depois do prazo.
+            </p>
+          )}
+          {anonymizedAt ? (
+            <p className="text-sm text-muted-foreground">Dados anonimizados em {new Date(anonymizedAt).toLocaleString('pt-BR')}.</p>
+          ) : onAnonymize && (
+            <Button type="button" variant="outline" className="border-border hover:text-destructive" onClick={handleAnonymize} disabled={anonymizing}>
+              {anonymizing ? <Loader2 className="h-4 w-4 animate-spin" /> : <><UserX className="h-4 w-4 mr-2" />Anonimizar agora</>}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
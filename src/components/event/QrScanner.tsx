@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { Loader2, CameraOff } from 'lucide-react';
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  // Ignora o mesmo código lido repetidamente enquanto ele continua na frente da câmera
+  cooldownMs?: number;
+}
+
+export default function QrScanner({ onScan, cooldownMs = 3000 }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+  const [status, setStatus] = useState<'starting' | 'running' | 'error'>('starting');
+
+  // Mantém sempre o callback mais recente sem reiniciar a câmera
+  useEffect(() => { onScanRef.current = onScan; }, [onScan]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frameId = 0;
+    let stopped = false;
+
+    const tick = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (code?.data) {
+            const now = Date.now();
+            const last = lastScanRef.current;
+            if (!last || last.value !== code.data || now - last.at > cooldownMs) {
+              lastScanRef.current = { value: code.data, at: now };
+              onScanRef.current(code.data);
+            }
+          }
+        }
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+
+    async function start() {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        if (stopped) { stream.getTracks().forEach(t => t.stop()); return; }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        setStatus('running');
+        frameId = requestAnimationFrame(tick);
+      } catch {
+        setStatus('error');
+      }
+    }
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [cooldownMs]);
+
+  return (
+    <div className="relative bg-black rounded-xl overflow-hidden aspect-square w-full">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <canvas ref={canvasRef} hidden />
+      {status === 'starting' && (
+        <div className="absolute inset-0 flex items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+      )}
+      {status === 'error' && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-center p-6 text-muted-foreground">
+          <CameraOff className="h-10 w-10" />
+          <p className="text-sm">Não foi possível acessar a câmera. Verifique a permissão do navegador.</p>
+        </div>
+      )}
+      {status === 'running' && (
+        <div className="absolute inset-[15%] border-4 border-white/70 rounded-2xl pointer-events-none" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Loader2, Monitor, Plus, Trash2 } from 'lucide-react';
+import { EventSession, formatSessionTime } from '@/lib/sessions';
+
+interface SessionManagerProps {
+  eventId: string;
+  sessions: EventSession[];
+  onChanged: () => void;
+}
+
+const emptySession = { name: '', room: '', starts_at: '', ends_at: '', capacity: '' };
+
+export default function SessionManager({ eventId, sessions, onChanged }: SessionManagerProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptySession);
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    if (!form.name.trim() || !form.starts_at) {
+      toast({ title: 'Erro', description: 'Informe nome e início da sessão.', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase.from('event_sessions').insert({
+      event_id: eventId,
+      name: form.name.trim(),
+      room: form.room.trim() || null,
+      starts_at: new Date(form.starts_at).toISOString(),
+      ends_at: form.ends_at ? new Date(form.ends_at).toISOString() : null,
+      capacity: form.capacity ? parseInt(form.capacity, 10) : null
+    });
+    setSaving(false);
+    if (error) toast({ title: 'Erro', description: 'Falha ao criar sessão.', variant: 'destructive' });
+    else { setForm(emptySession); onChanged(); }
+  };
+
+  const handleDelete = async (session: EventSession) => {
+    if (!confirm(`Excluir a sessão "${session.name}" e as presenças registradas nela?`)) return;
+    const { error } = await supabase.from('event_sessions').delete().eq('id', session.id);
+    if (error) toast({ title: 'Erro', description: 'Falha ao excluir sessão.', variant: 'destructive' });
+    else onChanged();
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h3 className="font-bold text-foreground mb-4 flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-primary" />
+        Sessões e Salas
+      </h3>
+
+      <div className="space-y-2 mb-6">
+        {sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma sessão. O check-in vale para o evento inteiro.</p>
+        ) : sessions.map(s => (
+          <div key={s.id} className="flex items-center justify-between gap-4 bg-secondary/30 border border-border rounded-lg p-3">
+            <div className="min-w-0">
+              <p className="font-semibold text-foreground truncate">{s.name}</p>
+              <p className="text-xs text-muted-foreground">{[formatSessionTime(s), s.room, s.capacity ? `${s.capacity} lugares` : null].filter(Boolean).join(' • ')}</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button type="button" variant="outline" size="sm" className="border-border" onClick={() => window.open(`/totem/${eventId}?session=${s.id}`, '_blank')}>
+                <Monitor className="h-4 w-4 mr-2" />Totem da Sala
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="hover:text-destructive" onClick={() => handleDelete(s)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+        <div className="space-y-1 md:col-span-2"><Label>Nome</Label><Input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Ex: Painel de Abertura" className="bg-secondary border-border" /></div>
+        <div className="space-y-1"><Label>Sala</Label><Input value={form.room} onChange={e => setForm({ ...form, room: e.target.value })} placeholder="Ex: Auditório" className="bg-secondary border-border" /></div>
+        <div className="space-y-1"><Label>Capacidade</Label><Input type="number" min={1} value={form.capacity} onChange={e => setForm({ ...form, capacity: e.target.value })} className="bg-secondary border-border" /></div>
+        <div className="hidden md:block" />
+        <div className="space-y-1 md:col-span-2"><Label>Início</Label><Input type="datetime-local" value={form.starts_at} onChange={e => setForm({ ...form, starts_at: e.target.value })} className="bg-secondary border-border" /></div>
+        <div className="space-y-1 md:col-span-2"><Label>Fim</Label><Input type="datetime-local" value={form.ends_at} onChange={e => setForm({ ...form, ends_at: e.target.value })} className="bg-secondary border-border" /></div>
+        <Button type="button" variant="outline" className="border-border" onClick={handleAdd} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-2" />Adicionar</>}
+        </Button>
+      </div>
+    </div>
+  );
+}
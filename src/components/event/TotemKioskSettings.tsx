@@ -0,0 +1,106 @@
+import type { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MonitorPlay, Trash2 } from 'lucide-react';
+import { KIOSK_PLACEHOLDERS, KIOSK_SLIDE_LABELS, KioskSettings, KioskSlide } from '@/lib/kiosk';
+
+interface TotemKioskSettingsProps {
+  settings: KioskSettings;
+  onChange: (settings: KioskSettings) => void;
+  // Caixa de upload da tela de configurações (mesmo bucket das outras artes)
+  sponsorUpload: ReactNode;
+}
+
+const SLIDE_ORDER = Object.keys(KIOSK_SLIDE_LABELS) as KioskSlide[];
+
+// Modo quiosque do Totem (salva junto com "Salvar Tudo")
+export default function TotemKioskSettings({ settings, onChange, sponsorUpload }: TotemKioskSettingsProps) {
+  const set = (changes: Partial<KioskSettings>) => onChange({ ...settings, ...changes });
+  const seconds = (value: string, min: number) => Math.max(min, Number(value) || min);
+
+  const toggleSlide = (slide: KioskSlide, checked: boolean) => {
+    const slides = checked ? [...settings.slides, slide] : settings.slides.filter(s => s !== slide);
+    set({ slides: SLIDE_ORDER.filter(s => slides.includes(s)) });
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-bold text-foreground flex items-center gap-2">
+            <MonitorPlay className="h-5 w-5 text-primary" />
+            Modo Quiosque do Totem
+          </h3>
+          <p className="text-xs text-muted-foreground">Slides em loop, boas-vindas a cada check-in e recarga automática.</p>
+        </div>
+        <Switch checked={settings.enabled} onCheckedChange={v => set({ enabled: v })} />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div><Label>Tela cheia travada</Label><p className="text-xs text-muted-foreground">Pede um toque para entrar em tela cheia e volta a pedir se alguém sair.</p></div>
+            <Switch checked={settings.fullscreen} onCheckedChange={v => set({ fullscreen: v })} />
+          </div>
+
+          <div className="border-t border-border pt-4 space-y-2">
+            <Label>Slides</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {SLIDE_ORDER.map(slide => (
+                <label key={slide} className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={settings.slides.includes(slide)} onCheckedChange={c => toggleSlide(slide, c === true)} />
+                  {KIOSK_SLIDE_LABELS[slide]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">A programação vem das sessões do evento; o Wi-Fi usa os dados do card "Celular / Dados".</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2"><Label>Tempo por slide (s)</Label><Input type="number" min={3} value={settings.slide_seconds} onChange={e => set({ slide_seconds: seconds(e.target.value, 3) })} className="bg-secondary border-border" /></div>
+            <div className="space-y-2"><Label>Reiniciar após (s) sem toque</Label><Input type="number" min={10} value={settings.idle_seconds} onChange={e => set({ idle_seconds: seconds(e.target.value, 10) })} className="bg-secondary border-border" /></div>
+            <div className="space-y-2"><Label>Recarregar a cada (min)</Label><Input type="number" min={0} value={settings.reload_minutes} onChange={e => set({ reload_minutes: Math.max(0, Number(e.target.value) || 0) })} placeholder="0 = nunca" className="bg-secondary border-border" /></div>
+          </div>
+
+          {settings.slides.includes('sponsors') && (
+            <div className="border-t border-border pt-4 space-y-2">
+              <Label>Patrocinadores</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {settings.sponsor_images.map(url => (
+                  <div key={url} className="relative bg-secondary/30 border border-border rounded-lg h-24 flex items-center justify-center">
+                    <img src={url} alt="" className="max-h-full max-w-full object-contain p-2" />
+                    <Button type="button" variant="ghost" size="icon" className="absolute top-1 right-1 h-7 w-7 hover:text-destructive" onClick={() => set({ sponsor_images: settings.sponsor_images.filter(u => u !== url) })}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              {sponsorUpload}
+            </div>
+          )}
+
+          <div className="border-t border-border pt-4 flex items-center justify-between gap-4">
+            <div><Label>Check-in por toque</Label><p className="text-xs text-muted-foreground">Teclado na tela para buscar o nome na lista; mostra só parte do nome e da empresa.</p></div>
+            <Switch checked={settings.touch_enabled} onCheckedChange={v => set({ touch_enabled: v })} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div><Label>Imprimir etiqueta no totem</Label><p className="text-xs text-muted-foreground">Só na primeira impressão; usa a ponte de impressão configurada no navegador do totem (ou o diálogo do navegador).</p></div>
+            <Switch checked={settings.touch_print} onCheckedChange={v => set({ touch_print: v })} disabled={!settings.touch_enabled} />
+          </div>
+
+          <div className="border-t border-border pt-4 flex items-center justify-between gap-4">
+            <div><Label>Boas-vindas no check-in</Label><p className="text-xs text-muted-foreground">Mostra o nome de quem acabou de chegar. Use {KIOSK_PLACEHOLDERS.join(', ')}.</p></div>
+            <Switch checked={settings.welcome_enabled} onCheckedChange={v => set({ welcome_enabled: v })} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2 md:col-span-2"><Label>Mensagem</Label><Input value={settings.welcome_message} onChange={e => set({ welcome_message: e.target.value })} className="bg-secondary border-border" disabled={!settings.welcome_enabled} /></div>
+            <div className="space-y-2"><Label>Duração (s)</Label><Input type="number" min={2} value={settings.welcome_seconds} onChange={e => set({ welcome_seconds: seconds(e.target.value, 2) })} className="bg-secondary border-border" disabled={!settings.welcome_enabled} /></div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, CheckCircle2, Delete, Hourglass, Loader2, Search, X, XCircle } from 'lucide-react';
+import { normalizeText } from '@/lib/text';
+import { selfCheckin } from '@/lib/checkin';
+import { ConsentSettings, missingConsent, recordGuestConsent } from '@/lib/consent';
+import { GuestSearchMatch, MIN_SEARCH_LENGTH, searchGuests } from '@/lib/guestSearch';
+import ConsentFields from '@/components/event/ConsentFields';
+
+// Nome já vem encurtado do servidor ("Maria A. S.")
+export type TotemGuest = GuestSearchMatch;
+
+interface TotemTouchCheckinProps {
+  eventId: string;
+  sessionId: string | null;
+  primaryColor: string;
+  consent: ConsentSettings;
+  // Impressão da etiqueta após o check-in (null = totem não imprime)
+  onPrint: ((guest: TotemGuest) => Promise<void>) | null;
+  onClose: () => void;
+}
+
+type Outcome = { kind: 'ok' | 'wait' | 'error'; title: string; text: string };
+
+// Mesmas regras da busca pelo celular: 3 letras e poucos resultados
+const MAX_RESULTS = 6;
+const SEARCH_DELAY_MS = 300;
+// Tela final (sucesso/erro) volta sozinha para o início
+const OUTCOME_SECONDS = 8;
+
+const KEYBOARD_ROWS = ['QWERTYUIOP', 'ASDFGHJKLÇ', 'ZXCVBNM'];
+
+// Check-in no próprio totem: busca o nome com teclado na tela e confirma com um toque
+export default function TotemTouchCheckin({ eventId, sessionId, primaryColor, consent, onPrint, onClose }: TotemTouchCheckinProps) {
+  const [query, setQuery] = useState('');
+  // null = busca em andamento
+  const [matches, setMatches] = useState<TotemGuest[] | null>([]);
+  const [selected, setSelected] = useState<TotemGuest | null>(null);
+  const [consentAnswers, setConsentAnswers] = useState<Record<string, boolean>>({});
+  const [consentMissing, setConsentMissing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+
+  const normalizedQuery = normalizeText(query.trim());
+
+  // Busca no servidor a cada pausa na digitação (reflete quem já entrou)
+  useEffect(() => {
+    if (normalizedQuery.length < MIN_SEARCH_LENGTH) { setMatches([]); return; }
+    let active = true;
+    setMatches(null);
+    const timer = setTimeout(async () => {
+      const { matches } = await searchGuests(eventId, normalizedQuery, MAX_RESULTS);
+      if (active) setMatches(matches);
+    }, SEARCH_DELAY_MS);
+    return () => { active = false; clearTimeout(timer); };
+  }, [eventId, normalizedQuery]);
+
+  useEffect(() => {
+    if (!outcome) return;
+    const timer = setTimeout(onClose, OUTCOME_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [outcome, onClose]);
+
+  const askConsent = !!selected && consent.enabled && selected.needs_consent;
+
+  const handleSelect = (guest: TotemGuest) => {
+    setSelected(guest);
+    setConsentAnswers({});
+    setConsentMissing(false);
+  };
+
+  const finish = async (guest: TotemGuest, result: Outcome) => {
+    if (result.kind === 'ok' && onPrint && !guest.badge_printed) await onPrint(guest).catch(() => {});
+    setOutcome(result);
+  };
+
+  const handleConfirm = async () => {
+    if (!selected) return;
+    if (askConsent && missingConsent(consent, consentAnswers)) { setConsentMissing(true); return; }
+    const name = selected.name;
+    setLoading(true);
+
+    if (askConsent) {
+      const { error } = await recordGuestConsent(selected.id, consentAnswers, 'totem');
+      if (error) {
+        await finish(selected, { kind: 'error', title: 'Não foi possível registrar o consentimento', text: 'Tente novamente ou procure a recepção.' });
+        setLoading(false);
+        return;
+      }
+    }
+
+    // Na sala, o check-in no evento não basta: a presença da sessão é registrada à parte
+    if (selected.checked_in && !sessionId) {
+      await finish(selected, { kind: 'ok', title: `Olá, ${name}!`, text: 'Seu check-in já estava feito. Bom evento!' });
+      setLoading(false);
+      return;
+    }
+
+    const { result, error } = await selfCheckin(selected.id, 'totem', sessionId);
+    if (error || !result || result.status === 'not_found') {
+      await finish(selected, { kind: 'error', title: 'Não foi possível fazer o check-in', text: 'Procure a recepção.' });
+    } else if (result.status === 'waitlisted') {
+      await finish(selected, { kind: 'wait', title: 'Lista de espera', text: `O evento está lotado. Você é o(a) ${result.position ?? 1}º da fila; a recepção vai liberar sua entrada.` });
+    } else if (result.status === 'full') {
+      await finish(selected, { kind: 'error', title: 'Lotação esgotada', text: result.scope === 'session' ? 'Esta sala está lotada. Procure a recepção.' : 'O evento atingiu a lotação máxima. Procure a recepção.' });
+    } else {
+      await finish(selected, { kind: 'ok', title: `Bem-vindo(a), ${name}!`, text: onPrint && !selected.badge_printed ? 'Check-in realizado. Retire sua etiqueta.' : 'Check-in realizado com sucesso.' });
+    }
+    setLoading(false);
+  };
+
+  const press = (key: string) => setQuery(prev => `${prev}${key}`);
+
+  const renderOutcome = (result: Outcome) => (
+    <div className="flex flex-col items-center text-center gap-8 animate-in fade-in zoom-in duration-500">
+      {result.kind === 'ok' ? <CheckCircle2 size={120} className="text-green-500" /> : result.kind === 'wait' ? <Hourglass size={120} className="text-yellow-500" /> : <XCircle size={120} className="text-red-500" />}
+      <h1 className="text-6xl font-black text-white tracking-tight">{result.title}</h1>
+      <p className="text-3xl text-gray-400 max-w-3xl">{result.text}</p>
+      <Button type="button" className="h-16 px-12 text-2xl font-bold text-white" style={{ backgroundColor: primaryColor }} onClick={onClose}>OK</Button>
+    </div>
+  );
+
+  const renderConfirm = (guest: TotemGuest) => (
+    <div className="flex flex-col items-center text-center gap-8 w-full max-w-2xl">
+      <p className="text-2xl text-gray-400">É você?</p>
+      <div className="bg-[#1A1A1A] border border-gray-800 rounded-3xl px-12 py-8 w-full">
+        <p className="text-5xl font-black text-white">{guest.name}</p>
+      </div>
+      {askConsent && (
+        <div className="w-full text-lg">
+          <ConsentFields settings={consent} answers={consentAnswers} onChange={answers => { setConsentAnswers(answers); setConsentMissing(false); }} />
+          {consentMissing && <p className="text-red-500 mt-3">Marque as caixas obrigatórias para continuar.</p>}
+        </div>
+      )}
+      <div className="flex gap-6 w-full">
+        <Button type="button" variant="outline" className="flex-1 h-20 text-2xl border-gray-700 bg-transparent text-white hover:bg-white/10 hover:text-white" onClick={() => setSelected(null)} disabled={loading}>
+          <ArrowLeft className="h-7 w-7 mr-3" />Não sou eu
+        </Button>
+        <Button type="button" className="flex-1 h-20 text-2xl font-bold text-white" style={{ backgroundColor: primaryColor }} onClick={handleConfirm} disabled={loading}>
+          {loading ? <Loader2 className="h-7 w-7 animate-spin" /> : <><CheckCircle2 className="h-7 w-7 mr-3" />Sim, fazer check-in</>}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderSearch = () => (
+    <div className="flex flex-col items-center gap-6 w-full max-w-4xl">
+      <h1 className="text-5xl font-black text-white tracking-tight">Digite seu nome</h1>
+      <div className="w-full flex items-center gap-4 bg-[#1A1A1A] border-2 rounded-2xl px-6 h-20" style={{ borderColor: primaryColor }}>
+        <Search className="h-8 w-8 text-gray-500 shrink-0" />
+        <span className="text-4xl text-white font-bold tracking-wide truncate flex-1 text-left">{query || <span className="text-gray-600 font-normal">Ex: MARIA</span>}</span>
+      </div>
+
+      <div className="w-full min-h-[14rem] space-y-3">
+        {normalizedQuery.length < MIN_SEARCH_LENGTH ? (
+          <p className="text-xl text-gray-600 pt-8">Digite pelo menos {MIN_SEARCH_LENGTH} letras.</p>
+        ) : !matches ? (
+          <div className="flex justify-center pt-8"><Loader2 className="h-10 w-10 animate-spin text-gray-500" /></div>
+        ) : matches.length === 0 ? (
+          <p className="text-xl text-gray-500 pt-8">Nenhum nome encontrado. Procure a recepção.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {matches.map(g => (
+              <button key={g.id} type="button" className="bg-[#1A1A1A] border border-gray-800 rounded-2xl px-6 py-4 text-left active:scale-95 transition-transform" onClick={() => handleSelect(g)}>
+                <p className="text-2xl font-bold text-white truncate">{g.name}</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Teclado na tela */}
+      <div className="w-full space-y-2 select-none">
+        {KEYBOARD_ROWS.map(row => (
+          <div key={row} className="flex justify-center gap-2">
+            {row.split('').map(key => (
+              <button key={key} type="button" className="h-16 w-16 rounded-xl bg-[#222] text-white text-2xl font-bold active:bg-[#444]" onClick={() => press(key)}>{key}</button>
+            ))}
+          </div>
+        ))}
+        <div className="flex justify-center gap-2">
+          <button type="button" className="h-16 px-8 rounded-xl bg-[#222] text-gray-400 text-xl font-bold active:bg-[#444]" onClick={() => setQuery('')}>Limpar</button>
+          <button type="button" className="h-16 w-96 rounded-xl bg-[#222] text-gray-400 text-xl font-bold active:bg-[#444]" onClick={() => press(' ')}>Espaço</button>
+          <button type="button" className="h-16 px-8 rounded-xl bg-[#222] text-white active:bg-[#444]" onClick={() => setQuery(prev => prev.slice(0, -1))} aria-label="Apagar"><Delete className="h-7 w-7" /></button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 bg-black flex flex-col items-center justify-center p-10 animate-fade-in">
+      {!outcome && (
+        <button type="button" className="absolute top-6 right-6 text-gray-500 active:text-white" onClick={onClose} aria-label="Fechar">
+          <X className="h-12 w-12" />
+        </button>
+      )}
+      {outcome ? renderOutcome(outcome) : selected ? renderConfirm(selected) : renderSearch()}
+    </div>
+  );
+}
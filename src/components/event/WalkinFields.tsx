@@ -0,0 +1,54 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ResolvedWalkinItem, WalkinAnswers } from '@/lib/walkinForm';
+
+interface WalkinFieldsProps {
+  items: ResolvedWalkinItem[];
+  answers: WalkinAnswers;
+  onChange: (answers: WalkinAnswers) => void;
+}
+
+// Campos configuráveis do walk-in (página /guest/:id e prévia nas Configurações)
+export default function WalkinFields({ items, answers, onChange }: WalkinFieldsProps) {
+  const set = (key: string, value: string | boolean) => onChange({ ...answers, [key]: value });
+
+  return (
+    <>
+      {items.map(item => {
+        const label = `${item.label}${item.required ? '' : ' (Opcional)'}`;
+
+        if (item.custom?.type === 'checkbox') {
+          return (
+            <div key={item.key} className="flex items-start gap-3">
+              <Checkbox id={`walkin-${item.key}`} checked={answers[item.key] === true} onCheckedChange={(v) => set(item.key, v === true)} className="mt-0.5 border-[#555]" />
+              <Label htmlFor={`walkin-${item.key}`} className="text-gray-300 font-normal leading-snug">{item.label}{item.required && ' *'}</Label>
+            </div>
+          );
+        }
+
+        return (
+          <div key={item.key} className="space-y-2">
+            <Label className="text-gray-300">{label}</Label>
+            {item.custom?.type === 'select' ? (
+              <Select value={String(answers[item.key] || '')} onValueChange={(v) => set(item.key, v)}>
+                <SelectTrigger className="bg-black border-[#333] text-white"><SelectValue placeholder="Selecione" /></SelectTrigger>
+                <SelectContent>{item.custom.options.map(o => <SelectItem key={o} value={o}>{o}</SelectItem>)}</SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type={item.inputType}
+                value={String(answers[item.key] || '')}
+                onChange={e => set(item.key, e.target.value)}
+                placeholder={item.placeholder}
+                className="bg-black border-[#333] text-white focus:border-[#f37021]"
+                required={item.required}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
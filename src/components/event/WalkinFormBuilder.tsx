@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, ClipboardList, ExternalLink, Plus, Trash2 } from 'lucide-react';
+import { CustomField } from '@/lib/guestFields';
+import {
+  WALKIN_STANDARD_FIELDS, WalkinAnswers, WalkinFormItem, WalkinStandardField, customItemKey, resolveWalkinForm
+} from '@/lib/walkinForm';
+import WalkinFields from '@/components/event/WalkinFields';
+
+interface WalkinFormBuilderProps {
+  items: WalkinFormItem[];
+  customFields: CustomField[];
+  onChange: (items: WalkinFormItem[]) => void;
+  eventName: string;
+  guestUrl: string;
+}
+
+// Escolhe quais campos o walk-in preenche no celular (salva junto com "Salvar Tudo")
+export default function WalkinFormBuilder({ items, customFields, onChange, eventName, guestUrl }: WalkinFormBuilderProps) {
+  const [newKey, setNewKey] = useState('');
+  const [previewAnswers, setPreviewAnswers] = useState<WalkinAnswers>({});
+  const resolved = resolveWalkinForm(items, customFields);
+  // Sem os itens de campos personalizados já apagados
+  const current = resolved.map(({ key, required }) => ({ key, required }));
+
+  const available = [
+    ...(Object.keys(WALKIN_STANDARD_FIELDS) as WalkinStandardField[]).map(k => ({ key: k, label: WALKIN_STANDARD_FIELDS[k].label })),
+    ...customFields.map(f => ({ key: customItemKey(f.id), label: f.label }))
+  ].filter(a => !current.some(i => i.key === a.key));
+
+  const update = (key: string, changes: Partial<WalkinFormItem>) => onChange(current.map(i => i.key === key ? { ...i, ...changes } : i));
+
+  const move = (index: number, delta: number) => {
+    const next = [...current];
+    const [item] = next.splice(index, 1);
+    next.splice(index + delta, 0, item);
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    if (!newKey) return;
+    onChange([...current, { key: newKey, required: false }]);
+    setNewKey('');
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6">
+      <h3 className="font-bold text-foreground mb-1 flex items-center gap-2">
+        <ClipboardList className="h-5 w-5 text-primary" />
+        Formulário de Walk-in
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">O nome é sempre pedido. Para perguntas e termos de consentimento, crie um Campo Personalizado e adicione aqui.</p>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {resolved.length === 0 && <p className="text-sm text-muted-foreground">Só o nome.</p>}
+            {resolved.map((item, index) => (
+              <div key={item.key} className="flex items-center gap-2 bg-secondary/30 border border-border rounded-lg px-3 py-2">
+                <span className="flex-1 text-sm truncate">{item.label}</span>
+                <div className="flex items-center gap-2 shrink-0" title="Obrigatório">
+                  <span className="text-xs text-muted-foreground">Obrigatório</span>
+                  <Switch checked={item.required} onCheckedChange={v => update(item.key, { required: v })} />
+                </div>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, -1)}><ArrowUp className="h-4 w-4" /></Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === resolved.length - 1} onClick={() => move(index, 1)}><ArrowDown className="h-4 w-4" /></Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8 hover:text-destructive" onClick={() => onChange(current.filter(i => i.key !== item.key))}><Trash2 className="h-4 w-4" /></Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-end gap-3">
+            <div className="space-y-1 flex-1">
+              <Label>Adicionar campo</Label>
+              <Select value={newKey} onValueChange={setNewKey} disabled={available.length === 0}>
+                <SelectTrigger className="bg-secondary border-border"><SelectValue placeholder={available.length ? 'Escolha um campo' : 'Todos os campos já estão no formulário'} /></SelectTrigger>
+                <SelectContent>{available.map(a => <SelectItem key={a.key} value={a.key}>{a.label}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <Button type="button" variant="outline" className="border-border" onClick={handleAdd} disabled={!newKey}>
+              <Plus className="h-4 w-4 mr-2" />Adicionar
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Prévia</Label>
+            <a href={guestUrl} target="_blank" rel="noreferrer" className="text-xs text-primary flex items-center gap-1">Abrir página <ExternalLink className="h-3 w-3" /></a>
+          </div>
+          <div className="bg-black rounded-xl p-4">
+            <div className="bg-[#1A1A1A] border border-[#333] rounded-lg p-5 space-y-4">
+              <div className="text-center">
+                <p className="text-lg font-semibold text-white">{eventName || 'Evento'}</p>
+                <p className="text-xs text-gray-400">Preencha seus dados para entrar</p>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Seu Nome Completo</Label>
+                <Input placeholder="Ex: João Silva" className="bg-black border-[#333] text-white" />
+              </div>
+              <WalkinFields items={resolved} answers={previewAnswers} onChange={setPreviewAnswers} />
+              <Button type="button" className="w-full font-bold bg-[#f37021] hover:bg-[#d95d10] text-white pointer-events-none">CONFIRMAR PRESENÇA</Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
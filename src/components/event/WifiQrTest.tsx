@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Loader2, ScanLine, XCircle } from 'lucide-react';
+import QrCodeDisplay from '@/components/QrCodeDisplay';
+import { QrStyle, decodeQrSvg } from '@/lib/qrcode';
+import { WIFI_SECURITY_LABELS, WifiNetwork, buildWifiPayload, parseWifiPayload, sameWifiNetwork } from '@/lib/wifi';
+
+interface WifiQrTestProps {
+  network: WifiNetwork | null;
+  qrStyle: QrStyle;
+  logoUrl?: string | null;
+}
+
+type TestResult = { network: WifiNetwork | null; raw: string | null };
+
+// Prévia do QR de Wi-Fi com leitura de volta: mostra o que o celular vai entender
+export default function WifiQrTest({ network, qrStyle, logoUrl }: WifiQrTestProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [testing, setTesting] = useState(false);
+  const [result, setResult] = useState<TestResult | null>(null);
+  const payload = network ? buildWifiPayload(network) : null;
+  const qrLogo = qrStyle.logo ? logoUrl : null;
+
+  // Qualquer mudança nos dados invalida o teste anterior
+  useEffect(() => { setResult(null); }, [payload, qrLogo, qrStyle.level]);
+
+  if (!network || !payload) return <p className="text-xs text-muted-foreground">Informe o SSID para gerar o QR do Wi-Fi.</p>;
+
+  const handleTest = async () => {
+    const svg = wrapperRef.current?.querySelector('svg');
+    if (!svg) return;
+    setTesting(true);
+    const raw = await decodeQrSvg(svg, qrLogo).catch(() => null);
+    setResult({ raw, network: raw ? parseWifiPayload(raw) : null });
+    setTesting(false);
+  };
+
+  const ok = !!result?.network && sameWifiNetwork(result.network, network);
+
+  return (
+    <div className="space-y-3 border-t border-border pt-4">
+      <div ref={wrapperRef} className="flex justify-center">
+        <QrCodeDisplay value={payload} size={160} level={qrStyle.level} logoUrl={qrLogo} frameClassName="bg-white p-3 rounded-lg inline-block" className="text-center" downloadName={`wifi_${network.ssid}`} />
+      </div>
+      <Button type="button" variant="outline" size="sm" className="w-full border-border" onClick={handleTest} disabled={testing}>
+        {testing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ScanLine className="h-4 w-4 mr-2" />}Testar QR
+      </Button>
+      {result && (
+        <div className={`rounded-lg border p-3 text-xs space-y-1 ${ok ? 'border-green-500/50 bg-green-500/10' : 'border-destructive/50 bg-destructive/10'}`}>
+          <p className={`flex items-center gap-2 font-semibold ${ok ? 'text-green-500' : 'text-destructive'}`}>
+            {ok ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            {ok ? 'QR lido corretamente' : result.raw ? 'O QR lido não confere com os dados' : 'Não foi possível ler o QR'}
+          </p>
+          {result.network && (
+            <>
+              <p className="text-muted-foreground">Rede: <span className="text-foreground font-mono">{result.network.ssid}</span></p>
+              <p className="text-muted-foreground">Segurança: <span className="text-foreground">{WIFI_SECURITY_LABELS[result.network.security]}</span></p>
+              {result.network.security !== 'nopass' && <p className="text-muted-foreground">Senha: <span className="text-foreground font-mono">{result.network.password}</span></p>}
+              {result.network.hidden && <p className="text-muted-foreground">Rede oculta</p>}
+            </>
+          )}
+          {result.raw && !ok && <p className="text-muted-foreground font-mono break-all">{result.raw}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { clearSnapshots } from '@/lib/offlineStore';
 
 export type AppRole = 'admin' | 'equipe' | 'recepcao' | null;
 
@@ -137,6 +138,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    await clearSnapshots().catch(() => {});
     await supabase.auth.signOut();
     setRole(null);
   };
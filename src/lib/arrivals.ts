@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// --- PAINEL DE CHEGADAS (/arrivals/:id) ---
+// Tela pública para a TV do local. Os dados vêm do RPC get_arrivals_wall,
+// que aplica as opções de privacidade do evento no servidor.
+
+// events.arrivals_wall
+export interface ArrivalsWallSettings {
+  enabled: boolean;
+  first_name_only: boolean;
+  show_company: boolean;
+}
+
+export const DEFAULT_ARRIVALS_WALL_SETTINGS: ArrivalsWallSettings = {
+  enabled: false,
+  first_name_only: false,
+  show_company: true
+};
+
+export const resolveArrivalsWallSettings = (value: Partial<ArrivalsWallSettings> | null | undefined): ArrivalsWallSettings =>
+  ({ ...DEFAULT_ARRIVALS_WALL_SETTINGS, ...(value || {}) });
+
+export interface Arrival {
+  id: string;
+  name: string;
+  company: string | null;
+  category: string | null;
+  checkin_time: string;
+}
+
+export type ArrivalsWall =
+  | { enabled: false }
+  | { enabled: true; present: number; invited: number; arrivals: Arrival[] };
+
+export async function fetchArrivalsWall(eventId: string) {
+  const { data, error } = await supabase.rpc('get_arrivals_wall', { _event_id: eventId });
+  return { wall: data as ArrivalsWall | null, error };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { BADGE_PRESETS, BadgeData, DEFAULT_BADGE_TEMPLATE, renderBadgeDocument, renderBadgeHtml, resolveBadgeTemplate } from '@/lib/badge';
+
+const maria: BadgeData = {
+  name: 'Maria <Souza>',
+  company: 'Floripa & Cia',
+  role: 'Diretora',
+  category: { id: 'vip', name: 'Vip', color: '#7c3aed', highlight: true },
+  qrValue: 'abc123'
+};
+
+const sheetTemplate = () => {
+  const preset = BADGE_PRESETS.find(p => p.id === 'a4-8')!;
+  return { ...DEFAULT_BADGE_TEMPLATE, preset: preset.id, width_mm: preset.width_mm, height_mm: preset.height_mm, sheet: preset.sheet };
+};
+
+describe('resolveBadgeTemplate', () => {
+  it('completa modelos salvos antes dos campos novos', () => {
+    expect(resolveBadgeTemplate(null)).toEqual(DEFAULT_BADGE_TEMPLATE);
+    expect(resolveBadgeTemplate({ name_size: 22 })).toEqual({ ...DEFAULT_BADGE_TEMPLATE, name_size: 22 });
+  });
+});
+
+describe('renderBadgeHtml', () => {
+  it('escapa o HTML dos dados do convidado', () => {
+    const html = renderBadgeHtml(maria, DEFAULT_BADGE_TEMPLATE);
+    expect(html).toContain('Maria &lt;Souza&gt;');
+    expect(html).toContain('Floripa &amp; Cia');
+    expect(html).not.toContain('<Souza>');
+  });
+
+  it('mostra só os campos ligados no modelo', () => {
+    const html = renderBadgeHtml(maria, DEFAULT_BADGE_TEMPLATE);
+    expect(html).not.toContain('Diretora');
+    expect(html).not.toContain('class="qr"');
+    expect(renderBadgeHtml(maria, { ...DEFAULT_BADGE_TEMPLATE, show_role: true, show_qr: true })).toMatch(/Diretora[\s\S]*class="qr"><svg/);
+  });
+
+  it('troca cores de categoria inválidas pela cor padrão', () => {
+    expect(renderBadgeHtml(maria, DEFAULT_BADGE_TEMPLATE)).toContain('background: #7c3aed');
+    const html = renderBadgeHtml({ ...maria, category: { ...maria.category!, color: 'red; background: url(x)' } }, DEFAULT_BADGE_TEMPLATE);
+    expect(html).not.toContain('url(x)');
+  });
+
+  it('posiciona o logo conforme o modelo', () => {
+    expect(renderBadgeHtml(maria, DEFAULT_BADGE_TEMPLATE, 'https://example.com/logo.png')).not.toContain('<img');
+    const html = renderBadgeHtml(maria, { ...DEFAULT_BADGE_TEMPLATE, logo_placement: 'right' }, 'https://example.com/logo.png');
+    expect(html.indexOf('<img')).toBeGreaterThan(html.indexOf('class="text"'));
+  });
+});
+
+describe('renderBadgeDocument', () => {
+  it('no rolo imprime uma página por etiqueta no tamanho do modelo', () => {
+    const html = renderBadgeDocument([maria, maria, maria], DEFAULT_BADGE_TEMPLATE);
+    expect(html).toContain('@page { size: 90mm 35mm; margin: 0; }');
+    expect(html.match(/<div class="page">/g)).toHaveLength(3);
+  });
+
+  it('na folha A4 distribui as etiquetas em páginas de grade', () => {
+    const html = renderBadgeDocument(Array(9).fill(maria), sheetTemplate());
+    expect(html).toContain('@page { size: A4; margin: 0; }');
+    expect(html.match(/class="page sheet"/g)).toHaveLength(2);
+    expect(html.match(/class="cell"/g)).toHaveLength(9);
+    expect(html).toContain('style="left: 106.25mm; top: 13.1mm"');
+  });
+
+  it('no preview gera só a primeira etiqueta, sem @page', () => {
+    const html = renderBadgeDocument([maria, { name: 'João' }], sheetTemplate(), null, 'preview');
+    expect(html).not.toContain('@page');
+    expect(html).not.toContain('João');
+    expect(html.match(/class="badge"/g)).toHaveLength(1);
+  });
+});
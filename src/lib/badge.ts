@@ -0,0 +1,287 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import QRCode from 'react-qr-code';
+import { GuestCategory, safeCategoryColor } from '@/lib/categories';
+
+// --- MODELO DE CRACHÁ / ETIQUETA (events.badge_template) ---
+// O mesmo HTML é usado na impressão e no preview, então todas as recepções
+// imprimem exatamente o layout salvo no evento.
+
+export type BadgeFont = 'Inter' | 'Roboto' | 'Montserrat' | 'Oswald' | 'Arial';
+export type BadgeLogoPlacement = 'none' | 'top' | 'left' | 'right';
+
+// Folhas A4 com várias etiquetas por página
+export interface BadgeSheet {
+  cols: number;
+  rows: number;
+  margin_top_mm: number;
+  margin_left_mm: number;
+  gap_x_mm: number;
+  gap_y_mm: number;
+}
+
+export interface BadgeTemplate {
+  preset: string;
+  width_mm: number;
+  height_mm: number;
+  sheet: BadgeSheet | null;
+  font_family: BadgeFont;
+  name_size: number;
+  subtitle_size: number;
+  uppercase_name: boolean;
+  show_company: boolean;
+  show_role: boolean;
+  show_category: boolean;
+  show_qr: boolean;
+  logo_placement: BadgeLogoPlacement;
+}
+
+export interface BadgePreset {
+  id: string;
+  label: string;
+  width_mm: number;
+  height_mm: number;
+  sheet: BadgeSheet | null;
+}
+
+export const BADGE_PRESETS: BadgePreset[] = [
+  { id: 'roll-90x35', label: 'Rolo 90 × 35 mm (padrão)', width_mm: 90, height_mm: 35, sheet: null },
+  { id: 'brother-62x29', label: 'Brother DK-11209 — 62 × 29 mm', width_mm: 62, height_mm: 29, sheet: null },
+  { id: 'brother-62x100', label: 'Brother DK-11202 — 62 × 100 mm', width_mm: 100, height_mm: 62, sheet: null },
+  { id: 'zebra-102x51', label: 'Zebra 4" × 2" — 102 × 51 mm', width_mm: 102, height_mm: 51, sheet: null },
+  { id: 'zebra-102x76', label: 'Zebra 4" × 3" — 102 × 76 mm', width_mm: 102, height_mm: 76, sheet: null },
+  { id: 'dymo-101x54', label: 'Dymo 99014 — 101 × 54 mm', width_mm: 101, height_mm: 54, sheet: null },
+  { id: 'dymo-89x36', label: 'Dymo 99012 — 89 × 36 mm', width_mm: 89, height_mm: 36, sheet: null },
+  {
+    id: 'a4-8', label: 'Folha A4 — 8 por folha, 99,1 × 67,7 mm', width_mm: 99.1, height_mm: 67.7,
+    sheet: { cols: 2, rows: 4, margin_top_mm: 13.1, margin_left_mm: 4.65, gap_x_mm: 2.5, gap_y_mm: 0 }
+  },
+  {
+    id: 'a4-10', label: 'Folha A4 — 10 por folha, 99,1 × 57 mm', width_mm: 99.1, height_mm: 57,
+    sheet: { cols: 2, rows: 5, margin_top_mm: 6, margin_left_mm: 4.65, gap_x_mm: 2.5, gap_y_mm: 0 }
+  },
+  {
+    id: 'a4-14', label: 'Folha A4 — 14 por folha, 99,1 × 38,1 mm', width_mm: 99.1, height_mm: 38.1,
+    sheet: { cols: 2, rows: 7, margin_top_mm: 15.15, margin_left_mm: 4.65, gap_x_mm: 2.5, gap_y_mm: 0 }
+  }
+];
+
+export const BADGE_FONTS: BadgeFont[] = ['Inter', 'Roboto', 'Montserrat', 'Oswald', 'Arial'];
+
+// Igual à etiqueta antiga: 90 × 35 mm, Inter, nome 17pt e empresa 10pt
+export const DEFAULT_BADGE_TEMPLATE: BadgeTemplate = {
+  preset: 'roll-90x35',
+  width_mm: 90,
+  height_mm: 35,
+  sheet: null,
+  font_family: 'Inter',
+  name_size: 17,
+  subtitle_size: 10,
+  uppercase_name: false,
+  show_company: true,
+  show_role: false,
+  show_category: true,
+  show_qr: false,
+  logo_placement: 'none'
+};
+
+// Completa modelos salvos antes de novos campos existirem
+export const resolveBadgeTemplate = (value: Partial<BadgeTemplate> | null | undefined): BadgeTemplate =>
+  ({ ...DEFAULT_BADGE_TEMPLATE, ...(value || {}) });
+
+export interface BadgeData {
+  name: string;
+  company?: string | null;
+  role?: string | null;
+  category?: GuestCategory | null;
+  qrValue?: string | null;
+}
+
+export const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const fontLink = (font: BadgeFont) => font === 'Arial'
+  ? ''
+  : `<link href="https://fonts.googleapis.com/css2?family=${font}:wght@500;800&display=swap" rel="stylesheet">`;
+
+const qrSvg = (value: string) => renderToStaticMarkup(
+  createElement(QRCode, { value, size: 256, style: { width: '100%', height: '100%' } })
+);
+
+function badgeStyles(t: BadgeTemplate, logoUrl: string | null) {
+  const side = t.logo_placement === 'left' || t.logo_placement === 'right';
+  return `
+    .badge {
+      position: relative;
+      width: ${t.width_mm}mm;
+      height: ${t.height_mm}mm;
+      overflow: hidden;
+      background: white;
+      font-family: '${t.font_family}', Arial, sans-serif;
+      color: #000000;
+      display: flex;
+      flex-direction: column;
+    }
+    .category {
+      height: 5mm;
+      flex-shrink: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: #ffffff;
+      font-weight: 800;
+      font-size: 8pt;
+      letter-spacing: 1pt;
+      text-transform: uppercase;
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+    .body {
+      flex: 1;
+      min-height: 0;
+      display: flex;
+      flex-direction: ${side ? 'row' : 'column'};
+      align-items: center;
+      justify-content: center;
+      gap: 2mm;
+      padding: 1.5mm 3mm;
+    }
+    .text {
+      flex: 1;
+      min-width: 0;
+      width: 100%;
+      text-align: center;
+    }
+    .name {
+      font-weight: 800;
+      font-size: ${t.name_size}pt;
+      line-height: 1.1;
+      margin-bottom: 1.5mm;
+      ${t.uppercase_name ? 'text-transform: uppercase;' : ''}
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .subtitle {
+      font-weight: 500;
+      font-size: ${t.subtitle_size}pt;
+      line-height: 1.2;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .logo {
+      object-fit: contain;
+      flex-shrink: 0;
+      ${side ? `height: 70%; max-width: 25%;` : `max-height: 25%; max-width: 60%;`}
+    }
+    .qr {
+      flex-shrink: 0;
+      height: ${side || !logoUrl ? 'min(80%, 28mm)' : 'min(35%, 20mm)'};
+      aspect-ratio: 1;
+    }
+  `;
+}
+
+export function renderBadgeHtml(badge: BadgeData, template: BadgeTemplate, logoUrl: string | null = null) {
+  const t = template;
+  const logo = t.logo_placement !== 'none' && logoUrl ? `<img class="logo" src="${escapeHtml(logoUrl)}" alt="">` : '';
+  const lines = [t.show_role ? badge.role : null, t.show_company ? badge.company : null].filter(Boolean) as string[];
+  const category = t.show_category && badge.category
+    ? `<div class="category" style="background: ${safeCategoryColor(badge.category.color)}">${escapeHtml(badge.category.name)}</div>`
+    : '';
+  const qr = t.show_qr && badge.qrValue ? `<div class="qr">${qrSvg(badge.qrValue)}</div>` : '';
+  const text = `
+    <div class="text">
+      <div class="name">${escapeHtml(badge.name)}</div>
+      ${lines.map(line => `<div class="subtitle">${escapeHtml(line)}</div>`).join('')}
+    </div>`;
+
+  return `
+    <div class="badge">
+      ${category}
+      <div class="body">
+        ${t.logo_placement === 'top' || t.logo_placement === 'left' ? logo : ''}
+        ${text}
+        ${qr}
+        ${t.logo_placement === 'right' ? logo : ''}
+      </div>
+    </div>`;
+}
+
+// Documento completo: rolo = uma página por etiqueta; folha A4 = grade de etiquetas.
+// "preview" gera só a primeira etiqueta, sem @page, para o iframe de pré-visualização.
+export function renderBadgeDocument(
+  badges: BadgeData[],
+  template: BadgeTemplate,
+  logoUrl: string | null = null,
+  mode: 'print' | 'preview' = 'print'
+) {
+  const t = template;
+  let pageSize = `${t.width_mm}mm ${t.height_mm}mm`;
+  let pages: string;
+
+  if (mode === 'preview') {
+    pages = badges.slice(0, 1).map(b => renderBadgeHtml(b, t, logoUrl)).join('');
+  } else if (t.sheet) {
+    const s = t.sheet;
+    const perPage = s.cols * s.rows;
+    pageSize = 'A4';
+    const chunks: BadgeData[][] = [];
+    for (let i = 0; i < badges.length; i += perPage) chunks.push(badges.slice(i, i + perPage));
+    pages = chunks.map(chunk => `
+      <div class="page sheet">
+        ${chunk.map((b, i) => {
+          const left = s.margin_left_mm + (i % s.cols) * (t.width_mm + s.gap_x_mm);
+          const top = s.margin_top_mm + Math.floor(i / s.cols) * (t.height_mm + s.gap_y_mm);
+          return `<div class="cell" style="left: ${left}mm; top: ${top}mm">${renderBadgeHtml(b, t, logoUrl)}</div>`;
+        }).join('')}
+      </div>`).join('');
+  } else {
+    pages = badges.map(b => `<div class="page">${renderBadgeHtml(b, t, logoUrl)}</div>`).join('');
+  }
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      ${fontLink(t.font_family)}
+      <style>
+        ${mode === 'print' ? `@page { size: ${pageSize}; margin: 0; }` : ''}
+        * {
+          margin: 0;
+          padding: 0;
+          box-sizing: border-box;
+        }
+        html, body {
+          background: white;
+        }
+        .page {
+          page-break-after: always;
+          break-after: page;
+        }
+        .page:last-child {
+          page-break-after: auto;
+          break-after: auto;
+        }
+        .sheet {
+          position: relative;
+          width: 210mm;
+          height: 297mm;
+        }
+        .cell {
+          position: absolute;
+        }
+        ${badgeStyles(t, logoUrl)}
+      </style>
+    </head>
+    <body>
+      ${pages}
+    </body>
+    </html>
+  `;
+}
@@ -0,0 +1,60 @@
+import { BadgeData, BadgeTemplate, renderBadgeDocument } from '@/lib/badge';
+import { PrintBridgeSettings, printViaBridge } from '@/lib/printBridge';
+
+// --- IMPRESSÃO DE ETIQUETAS (recepção e totem) ---
+
+export const printViaIframe = (html: string, width = '210mm', height = '297mm') => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'absolute';
+  iframe.style.top = '-9999px';
+  iframe.style.left = '-9999px';
+  iframe.style.width = width;
+  iframe.style.height = height;
+  document.body.appendChild(iframe);
+
+  const doc = iframe.contentDocument || iframe.contentWindow?.document;
+  if (!doc) {
+    document.body.removeChild(iframe);
+    return;
+  }
+
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  // Aguarda a fonte carregar antes de imprimir
+  iframe.onload = () => {
+    setTimeout(() => {
+      iframe.contentWindow?.focus();
+      iframe.contentWindow?.print();
+      // Remove o iframe após um tempo
+      setTimeout(() => {
+        document.body.removeChild(iframe);
+      }, 1000);
+    }, 500);
+  };
+};
+
+interface PrintBadgesOptions {
+  template: BadgeTemplate;
+  logoUrl: string | null;
+  bridge: PrintBridgeSettings;
+  // Chamado quando a ponte não responde (antes de cair para o navegador)
+  onBridgeError?: () => void;
+}
+
+// Com a ponte de impressão ativa, manda direto para a impressora térmica;
+// se ela não responder, cai para o diálogo de impressão do navegador
+export async function printBadges(badges: BadgeData[], { template, logoUrl, bridge, onBridgeError }: PrintBadgesOptions) {
+  if (bridge.enabled) {
+    try {
+      await printViaBridge(badges, template, bridge);
+      return;
+    } catch (err) {
+      onBridgeError?.();
+    }
+  }
+  const html = renderBadgeDocument(badges, template, logoUrl);
+  if (template.sheet) printViaIframe(html);
+  else printViaIframe(html, `${template.width_mm}mm`, `${template.height_mm}mm`);
+}
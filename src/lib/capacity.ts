@@ -0,0 +1,23 @@
+// --- LOTAÇÃO E LISTA DE ESPERA ---
+// O limite é aplicado no servidor (perform_checkin/self_checkin); aqui ficam
+// os rótulos e o cálculo do contador de ocupação.
+
+export type CapacityMode = 'block' | 'waitlist';
+
+export const CAPACITY_MODE_LABELS: Record<CapacityMode, string> = {
+  block: 'Bloquear novas entradas',
+  waitlist: 'Lista de espera'
+};
+
+// Cor do contador: normal, quase cheio (90%) e lotado
+export function occupancyLevel(occupancy: number, capacity: number | null) {
+  if (!capacity) return 'normal';
+  if (occupancy >= capacity) return 'full';
+  return occupancy >= capacity * 0.9 ? 'warning' : 'normal';
+}
+
+export const OCCUPANCY_CLASSES: Record<ReturnType<typeof occupancyLevel>, string> = {
+  normal: 'border-border text-muted-foreground',
+  warning: 'border-yellow-500 text-yellow-500',
+  full: 'border-destructive text-destructive'
+};
@@ -0,0 +1,36 @@
+import { normalizeText } from '@/lib/text';
+
+// --- CATEGORIAS DE CONVIDADOS (VIP, palestrante, imprensa...) ---
+
+export interface GuestCategory {
+  id: string;
+  name: string;
+  color: string;
+  highlight: boolean;
+}
+
+// Mesma lista padrão da migration (events.guest_categories)
+export const DEFAULT_GUEST_CATEGORIES: GuestCategory[] = [
+  { id: 'vip', name: 'VIP', color: '#eab308', highlight: true },
+  { id: 'palestrante', name: 'Palestrante', color: '#8b5cf6', highlight: true },
+  { id: 'imprensa', name: 'Imprensa', color: '#0ea5e9', highlight: false },
+  { id: 'patrocinador', name: 'Patrocinador', color: '#22c55e', highlight: false }
+];
+
+// Cor da categoria vai para o HTML da etiqueta e do relatório: só #rgb ou #rrggbb
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const FALLBACK_COLOR = '#64748b';
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+export const safeCategoryColor = (value: unknown) => isHexColor(value) ? value : FALLBACK_COLOR;
+
+export const categoryIdFromName = (name: string) =>
+  normalizeText(name).trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Aceita o id ou o nome (sem acento/maiúsculas), como vem de planilhas
+export function findCategory(categories: GuestCategory[], value: string | null | undefined) {
+  if (!value) return null;
+  const key = categoryIdFromName(String(value));
+  return categories.find(c => c.id === key || categoryIdFromName(c.name) === key) || null;
+}
@@ -0,0 +1,133 @@
+import { supabase } from '@/integrations/supabase/client';
+import { notifyCheckin } from '@/lib/notifications';
+
+// --- CHECK-IN ATÔMICO NO SERVIDOR (função perform_checkin) ---
+// Evita que duas recepções sobrescrevam o check-in uma da outra.
+
+export type CheckinTable = 'guests' | 'staff';
+export type CheckinSource = 'desk' | 'scanner' | 'mobile' | 'totem';
+
+export const CHECKIN_SOURCE_LABELS: Record<CheckinSource, string> = {
+  desk: 'Recepção',
+  scanner: 'Scanner QR',
+  mobile: 'Celular',
+  totem: 'Totem'
+};
+
+// Linha da tabela checkins (histórico de entradas e saídas)
+export interface CheckinRecord {
+  id: string;
+  event_id: string;
+  guest_id: string | null;
+  staff_id: string | null;
+  session_id: string | null;
+  direction: 'in' | 'out';
+  source: CheckinSource;
+  device: string | null;
+  user_email: string | null;
+  occurred_at: string;
+}
+
+export interface CheckinResult {
+  // 'closed' (walk-ins desativados) e 'missing' (consentimento) só no walk-in
+  status: 'ok' | 'conflict' | 'not_found' | 'full' | 'waitlisted' | 'closed' | 'missing';
+  checked_in?: boolean;
+  checkin_time?: string | null;
+  checked_in_by?: string | null;
+  // status 'full': qual limite foi atingido
+  scope?: 'event' | 'session';
+  occupancy?: number;
+  capacity?: number;
+  // status 'waitlisted': posição na lista de espera
+  position?: number;
+  // walk-in: convidado criado
+  guest_id?: string;
+  // check-in público: entrada registrada, enviada para liberar o aviso de chegada
+  checkin_id?: string | null;
+}
+
+interface CheckinParams {
+  table: CheckinTable;
+  recordId: string;
+  checkedIn: boolean;
+  checkinTime?: string | null;
+  note?: string;
+  source?: CheckinSource;
+  sessionId?: string | null;
+  // Só admin: entra mesmo com a lotação atingida
+  override?: boolean;
+}
+
+// Identifica a máquina da recepção no histórico (fixo por navegador)
+export function getDeviceName() {
+  const key = 'checkin-device-name';
+  let name = localStorage.getItem(key);
+  if (!name) {
+    name = `Recepção ${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+    localStorage.setItem(key, name);
+  }
+  return name;
+}
+
+export async function performCheckin({ table, recordId, checkedIn, checkinTime, note, source = 'desk', sessionId, override = false }: CheckinParams) {
+  const { data, error } = await supabase.rpc('perform_checkin', {
+    _table: table,
+    _record_id: recordId,
+    _checked_in: checkedIn,
+    _checkin_time: checkinTime || new Date().toISOString(),
+    _note: note ?? null,
+    _source: source,
+    _device: getDeviceName(),
+    _session_id: sessionId ?? null,
+    _override: override
+  });
+  if (!error && data?.status === 'ok' && table === 'guests' && checkedIn) notifyCheckin(recordId);
+  return { result: data as CheckinResult | null, error };
+}
+
+// Check-in público (celular/totem): só marca entrada, nunca saída
+export async function selfCheckin(guestId: string, source: 'mobile' | 'totem' = 'mobile', sessionId?: string | null) {
+  const { data, error } = await supabase.rpc('self_checkin', { _guest_id: guestId, _source: source, _session_id: sessionId ?? null });
+  const result = data as CheckinResult | null;
+  if (!error && result?.status === 'ok' && result.checkin_id) notifyCheckin(guestId, result.checkin_id);
+  return { result, error };
+}
+
+// Walk-in pelo celular: cadastro e check-in numa só chamada; com a lotação
+// esgotada o convidado nem é criado (na lista de espera, é criado para guardar a vez)
+export async function walkinCheckin(
+  eventId: string,
+  name: string,
+  guestData: Record<string, unknown>,
+  consentAnswers: Record<string, boolean> | null,
+  sessionId?: string | null
+) {
+  const { data, error } = await supabase.rpc('walkin_checkin', {
+    _event_id: eventId,
+    _name: name,
+    _data: guestData,
+    _consent_answers: consentAnswers,
+    _session_id: sessionId ?? null
+  });
+  const result = data as CheckinResult | null;
+  if (!error && result?.status === 'ok' && result.guest_id && result.checkin_id) notifyCheckin(result.guest_id, result.checkin_id);
+  return { result, error };
+}
+
+// Mensagem para o operador quando outra recepção já fez a mesma ação
+export function describeConflict(name: string, result: CheckinResult) {
+  const by = result.checked_in_by ? ` por ${result.checked_in_by}` : '';
+  if (result.checked_in) {
+    const time = result.checkin_time
+      ? ` às ${new Date(result.checkin_time).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`
+      : '';
+    return `${name} já fez check-in${time}${by}.`;
+  }
+  return `${name} já teve o check-out registrado${by}.`;
+}
+
+// Mensagem quando a lotação (do evento ou da sala) foi atingida
+export function describeFull(name: string, result: CheckinResult) {
+  const where = result.scope === 'session' ? 'da sala' : 'do evento';
+  return `Lotação ${where} atingida (${result.occupancy}/${result.capacity}). ${name} não entrou.`;
+}
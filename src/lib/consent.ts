@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// --- CONSENTIMENTO E RETENÇÃO DE DADOS (LGPD) ---
+
+export interface ConsentCheckbox {
+  id: string;
+  label: string;
+  required: boolean;
+}
+
+// events.consent
+export interface ConsentSettings {
+  enabled: boolean;
+  text: string;
+  // Sobe sempre que o texto ou as caixas mudam: quem aceitou a versão antiga aceita de novo
+  version: number;
+  checkboxes: ConsentCheckbox[];
+}
+
+// guests.consent (cópia do texto aceito, para auditoria)
+export interface GuestConsent {
+  accepted_at: string;
+  version: number;
+  text: string;
+  checkboxes: Record<string, boolean>;
+  source: 'mobile' | 'totem' | 'import' | 'desk';
+}
+
+export const DEFAULT_CONSENT: ConsentSettings = {
+  enabled: false,
+  text: 'Autorizo o tratamento dos meus dados pessoais (nome, empresa e contatos) para o credenciamento e controle de acesso deste evento, conforme a Lei Geral de Proteção de Dados (Lei nº 13.709/2018).',
+  version: 1,
+  checkboxes: []
+};
+
+export const resolveConsent = (value: Partial<ConsentSettings> | null | undefined): ConsentSettings => ({
+  ...DEFAULT_CONSENT,
+  ...(value || {}),
+  checkboxes: value?.checkboxes || []
+});
+
+// Versão nova quando o conteúdo mudou desde o último salvamento
+export function nextConsentVersion(current: ConsentSettings, saved: ConsentSettings) {
+  const changed = current.text !== saved.text || JSON.stringify(current.checkboxes) !== JSON.stringify(saved.checkboxes);
+  return changed ? saved.version + 1 : saved.version;
+}
+
+export const needsConsent = (settings: ConsentSettings, consent: GuestConsent | null | undefined) =>
+  settings.enabled && (!consent || consent.version !== settings.version);
+
+// answers: 'accept' = aceite do texto principal; demais chaves = id das caixas
+export const missingConsent = (settings: ConsentSettings, answers: Record<string, boolean>) =>
+  !answers.accept || settings.checkboxes.some(c => c.required && !answers[c.id]);
+
+export const buildGuestConsent = (
+  settings: ConsentSettings,
+  answers: Record<string, boolean>,
+  source: GuestConsent['source']
+): GuestConsent => ({
+  accepted_at: new Date().toISOString(),
+  version: settings.version,
+  text: settings.text,
+  checkboxes: Object.fromEntries(settings.checkboxes.map(c => [c.id, !!answers[c.id]])),
+  source
+});
+
+// Check-in público (celular/totem): o aceite é gravado no servidor, com o
+// horário do banco e o texto da versão vigente do evento
+export async function recordGuestConsent(guestId: string, answers: Record<string, boolean>, source: 'mobile' | 'totem') {
+  const { data, error } = await supabase.rpc('record_guest_consent', { _guest_id: guestId, _answers: answers, _source: source });
+  return { error: error || (data?.status !== 'ok' ? new Error(`Consent not recorded: ${data?.status}`) : null) };
+}
+
+// A anonimização automática depende do pg_cron no banco
+export async function fetchRetentionScheduled() {
+  const { data, error } = await supabase.rpc('retention_schedule_active');
+  return error ? null : !!data;
+}
+
+// --- DIREITOS DO TITULAR ---
+
+// "Exportar meus dados": tudo o que o evento guarda sobre a pessoa
+export async function exportGuestData(guestId: string) {
+  const [{ data: guest }, { data: checkins }] = await Promise.all([
+    supabase.from('guests').select('*').eq('id', guestId).single(),
+    supabase.from('checkins').select('direction, source, session_id, occurred_at').eq('guest_id', guestId).order('occurred_at')
+  ]);
+  if (!guest) throw new Error('Guest not found');
+
+  const blob = new Blob([JSON.stringify({ exported_at: new Date().toISOString(), guest, checkins: checkins || [] }, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dados_${guest.name.replace(/[^\p{L}\p{N}]+/gu, '_')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// "Excluir meus dados": anonimiza no servidor (a presença continua contando no relatório)
+export async function anonymizeGuest(guestId: string) {
+  const { error } = await supabase.rpc('anonymize_guest', { _guest_id: guestId });
+  return { error };
+}
+
+export async function anonymizeEvent(eventId: string) {
+  const { data, error } = await supabase.rpc('anonymize_event', { _event_id: eventId });
+  return { count: (data as number) ?? 0, error };
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { CheckinRecord } from '@/lib/checkin';
+import { buildEventReport, buildReportWorkbook, renderReportDocument, ReportGuest, ReportInput } from '@/lib/eventReport';
+
+// Horários no fuso local, como o relatório agrupa por hora
+const at = (hour: number, minute = 0) => new Date(2026, 0, 20, hour, minute).toISOString();
+
+const guest = (id: string, overrides: Partial<ReportGuest> = {}): ReportGuest => ({
+  id,
+  name: id,
+  company: null,
+  role: null,
+  category: null,
+  checked_in: false,
+  checkin_time: null,
+  ...overrides
+});
+
+let nextId = 0;
+const checkin = (overrides: Partial<CheckinRecord>): CheckinRecord => ({
+  id: `c${++nextId}`,
+  event_id: 'e1',
+  guest_id: null,
+  staff_id: null,
+  session_id: null,
+  direction: 'in',
+  source: 'scanner',
+  device: null,
+  user_email: null,
+  occurred_at: at(19),
+  ...overrides
+});
+
+const input = (): ReportInput => ({
+  guests: [
+    guest('ana', { category: 'VIP', checked_in: true }),
+    guest('bia', { category: 'vip' }),
+    guest('caio', { checked_in: true, checkin_time: at(20, 30) }),
+    guest('duda', { is_walkin: true, checked_in: true })
+  ],
+  staff: [
+    { id: 'edu', name: 'Edu', role: null, checked_in: true, checkin_time: null },
+    { id: 'fabi', name: 'Fabi', role: null, checked_in: false, checkin_time: null }
+  ],
+  checkins: [
+    checkin({ guest_id: 'ana', occurred_at: at(19, 40) }),
+    checkin({ guest_id: 'ana', occurred_at: at(19, 10) }),
+    checkin({ guest_id: 'ana', direction: 'out', occurred_at: at(18) }),
+    checkin({ guest_id: 'bia', session_id: 's1', occurred_at: at(18, 30) }),
+    checkin({ guest_id: 'bia', occurred_at: at(19, 50) }),
+    // Saiu antes do fim: ainda conta como presente
+    checkin({ guest_id: 'bia', direction: 'out', occurred_at: at(21) }),
+    checkin({ guest_id: 'duda', occurred_at: at(20, 5) }),
+    checkin({ staff_id: 'edu', occurred_at: at(18, 15) })
+  ],
+  activity: [],
+  categories: [{ id: 'vip', name: 'VIP', color: '#7c3aed', highlight: true }],
+  customFields: [],
+  sessions: [{ id: 's1', event_id: 'e1', name: 'Palestra', room: null, starts_at: at(18), ends_at: null, capacity: null }]
+});
+
+describe('buildEventReport', () => {
+  const report = buildEventReport(input());
+
+  it('conta presença da lista, walk-ins e equipe separadamente', () => {
+    expect(report).toMatchObject({ invited: 3, present: 3, noShows: 0, walkins: 1, staffTotal: 2, staffPresent: 1 });
+    expect(report.attendanceRate).toBe(1);
+  });
+
+  it('usa a primeira entrada no evento, sem saídas nem sessões', () => {
+    expect(report.firstArrival.get('ana')).toBe(at(19, 10));
+    expect(report.firstArrival.get('bia')).toBe(at(19, 50));
+  });
+
+  it('usa o horário da própria linha quando não há histórico', () => {
+    expect(report.firstArrival.get('caio')).toBe(at(20, 30));
+    expect(report.firstArrival.has('fabi')).toBe(false);
+  });
+
+  it('agrupa as chegadas por hora com o acumulado', () => {
+    expect(report.hourly).toEqual([
+      { hour: '18:00', guests: 0, staff: 1, total: 1, cumulative: 1 },
+      { hour: '19:00', guests: 2, staff: 0, total: 2, cumulative: 3 },
+      { hour: '20:00', guests: 2, staff: 0, total: 2, cumulative: 5 }
+    ]);
+  });
+
+  it('agrupa por categoria pelo id ou pelo nome', () => {
+    expect(report.byCategory).toEqual([{ name: 'VIP', color: '#7c3aed', invited: 2, present: 2 }]);
+  });
+
+  it('não divide por zero sem convidados na lista', () => {
+    expect(buildEventReport({ ...input(), guests: [], checkins: [] }).attendanceRate).toBe(0);
+  });
+});
+
+describe('buildReportWorkbook', () => {
+  it('gera as abas do relatório com a presença de cada convidado', () => {
+    const data = input();
+    const wb = buildReportWorkbook(buildEventReport(data), data, 'Lançamento');
+    expect(wb.SheetNames).toEqual(['Resumo', 'Convidados', 'Equipe', 'Chegadas por hora', 'Entradas e Saídas', 'Atividades']);
+
+    const guests = XLSX.utils.sheet_to_json<Record<string, string>>(wb.Sheets['Convidados']);
+    expect(guests.map(g => [g.Nome, g.Categoria, g.Origem, g.Presença])).toEqual([
+      ['ana', 'VIP', 'Lista', 'Presente'],
+      ['bia', 'VIP', 'Lista', 'Presente'],
+      ['caio', '', 'Lista', 'Presente'],
+      ['duda', '', 'Walk-in', 'Presente']
+    ]);
+
+    const movements = XLSX.utils.sheet_to_json<Record<string, string>>(wb.Sheets['Entradas e Saídas']);
+    expect(movements).toHaveLength(8);
+    expect(movements[3]).toMatchObject({ Nome: 'bia', Tipo: 'Convidado', Movimento: 'Entrada', Sessão: 'Palestra' });
+  });
+});
+
+describe('renderReportDocument', () => {
+  it('escapa o nome do evento e mostra os indicadores', () => {
+    const html = renderReportDocument(buildEventReport(input()), {
+      eventName: 'Festa <Fim de Ano>',
+      eventDate: null,
+      logoUrl: null,
+      primaryColor: '#111111',
+      secondaryColor: null
+    });
+    expect(html).toContain('Festa &lt;Fim de Ano&gt;');
+    expect(html).not.toContain('<Fim de Ano>');
+    expect(html).toContain('100,0%');
+    expect(html).toContain('1/2');
+    expect(html).toContain('Chegadas por hora');
+  });
+});
@@ -0,0 +1,273 @@
+import * as XLSX from 'xlsx';
+import { CHECKIN_SOURCE_LABELS, CheckinRecord } from '@/lib/checkin';
+import { GuestCategory, findCategory, safeCategoryColor } from '@/lib/categories';
+import { CustomData, CustomField, formatCustomValue } from '@/lib/guestFields';
+import { EventSession } from '@/lib/sessions';
+import { escapeHtml } from '@/lib/badge';
+import { RSVP_LABELS, RsvpStatus } from '@/lib/invitations';
+
+// --- RELATÓRIO DE PRESENÇA (entregue ao cliente depois do evento) ---
+
+export interface ReportGuest {
+  id: string;
+  name: string;
+  company: string | null;
+  role: string | null;
+  category: string | null;
+  email?: string | null;
+  phone?: string | null;
+  document?: string | null;
+  ticket_type?: string | null;
+  custom_data?: CustomData | null;
+  is_walkin?: boolean | null;
+  rsvp_status?: RsvpStatus | null;
+  checked_in: boolean;
+  checkin_time: string | null;
+}
+
+export interface ReportStaff {
+  id: string;
+  name: string;
+  role: string | null;
+  checked_in: boolean;
+  checkin_time: string | null;
+}
+
+export interface ReportActivity {
+  created_at: string;
+  user_email: string | null;
+  action: string;
+  details: string | null;
+}
+
+export interface ReportInput {
+  guests: ReportGuest[];
+  staff: ReportStaff[];
+  checkins: CheckinRecord[];
+  activity: ReportActivity[];
+  categories: GuestCategory[];
+  customFields: CustomField[];
+  sessions: EventSession[];
+}
+
+export interface HourlyArrivals {
+  hour: string;
+  guests: number;
+  staff: number;
+  total: number;
+  cumulative: number;
+}
+
+export interface EventReport {
+  invited: number;
+  present: number;
+  noShows: number;
+  walkins: number;
+  attendanceRate: number;
+  staffTotal: number;
+  staffPresent: number;
+  // Primeira entrada no evento de cada pessoa (sem contar sessões)
+  firstArrival: Map<string, string>;
+  hourly: HourlyArrivals[];
+  byCategory: { name: string; color: string; invited: number; present: number }[];
+}
+
+const formatDateTime = (iso: string | null | undefined) => iso ? new Date(iso).toLocaleString('pt-BR') : '';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1).replace('.', ',')}%`;
+
+const hourLabel = (iso: string) => `${String(new Date(iso).getHours()).padStart(2, '0')}:00`;
+
+export function buildEventReport({ guests, staff, checkins, categories }: ReportInput): EventReport {
+  const firstArrival = new Map<string, string>();
+  checkins.forEach(c => {
+    const personId = c.guest_id || c.staff_id;
+    if (!personId || c.direction !== 'in' || c.session_id) return;
+    const current = firstArrival.get(personId);
+    if (!current || c.occurred_at < current) firstArrival.set(personId, c.occurred_at);
+  });
+  // Check-ins anteriores ao histórico só têm o horário na própria linha
+  [...guests, ...staff].forEach(p => {
+    if (!firstArrival.has(p.id) && p.checked_in && p.checkin_time) firstArrival.set(p.id, p.checkin_time);
+  });
+
+  const attended = (p: { id: string; checked_in: boolean }) => p.checked_in || firstArrival.has(p.id);
+  const invitedGuests = guests.filter(g => !g.is_walkin);
+  const present = invitedGuests.filter(attended).length;
+  const staffPresent = staff.filter(attended).length;
+
+  const buckets = new Map<string, { guests: number; staff: number }>();
+  const addArrival = (id: string, kind: 'guests' | 'staff') => {
+    const time = firstArrival.get(id);
+    if (!time) return;
+    const bucket = buckets.get(hourLabel(time)) || { guests: 0, staff: 0 };
+    bucket[kind]++;
+    buckets.set(hourLabel(time), bucket);
+  };
+  guests.forEach(g => addArrival(g.id, 'guests'));
+  staff.forEach(s => addArrival(s.id, 'staff'));
+  let cumulative = 0;
+  const hourly = [...buckets.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([hour, b]) => {
+    cumulative += b.guests + b.staff;
+    return { hour, guests: b.guests, staff: b.staff, total: b.guests + b.staff, cumulative };
+  });
+
+  const byCategory = categories.map(cat => {
+    const list = guests.filter(g => findCategory(categories, g.category)?.id === cat.id);
+    return { name: cat.name, color: cat.color, invited: list.length, present: list.filter(attended).length };
+  }).filter(c => c.invited > 0);
+
+  return {
+    invited: invitedGuests.length,
+    present,
+    noShows: invitedGuests.length - present,
+    walkins: guests.filter(g => g.is_walkin && attended(g)).length,
+    attendanceRate: invitedGuests.length ? present / invitedGuests.length : 0,
+    staffTotal: staff.length,
+    staffPresent,
+    firstArrival,
+    hourly,
+    byCategory
+  };
+}
+
+// --- PLANILHA (várias abas) ---
+
+export function buildReportWorkbook(report: EventReport, input: ReportInput, eventName: string) {
+  const { guests, staff, checkins, activity, categories, customFields, sessions } = input;
+  const wb = XLSX.utils.book_new();
+
+  const summary: (string | number)[][] = [
+    ['Relatório de presença', eventName],
+    ['Gerado em', new Date().toLocaleString('pt-BR')],
+    [],
+    ['Convidados na lista', report.invited],
+    ['Presentes', report.present],
+    ['Taxa de presença', formatPercent(report.attendanceRate)],
+    ['Não compareceram', report.noShows],
+    ['Walk-ins (fora da lista)', report.walkins],
+    ['Total no evento', report.present + report.walkins],
+    [],
+    ['Equipe escalada', report.staffTotal],
+    ['Equipe presente', report.staffPresent]
+  ];
+  if (report.byCategory.length > 0) {
+    summary.push([], ['Categoria', 'Na lista', 'Presentes', 'Taxa']);
+    report.byCategory.forEach(c => summary.push([c.name, c.invited, c.present, formatPercent(c.invited ? c.present / c.invited : 0)]));
+  }
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summary), 'Resumo');
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(guests.map(g => ({
+    Nome: g.name, Empresa: g.company || '', Cargo: g.role || '', Categoria: findCategory(categories, g.category)?.name || '',
+    'E-mail': g.email || '', Telefone: g.phone || '', CPF: g.document || '', 'Tipo de ingresso': g.ticket_type || '',
+    ...Object.fromEntries(customFields.map(f => [f.label, formatCustomValue(f, g.custom_data?.[f.id])])),
+    Origem: g.is_walkin ? 'Walk-in' : 'Lista',
+    RSVP: g.rsvp_status ? RSVP_LABELS[g.rsvp_status].label : '',
+    Presença: g.checked_in || report.firstArrival.has(g.id) ? 'Presente' : 'Ausente',
+    'Primeira entrada': formatDateTime(report.firstArrival.get(g.id))
+  }))), 'Convidados');
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(staff.map(s => ({
+    Nome: s.name, Função: s.role || '',
+    Presença: s.checked_in || report.firstArrival.has(s.id) ? 'Presente' : 'Ausente',
+    'Primeira entrada': formatDateTime(report.firstArrival.get(s.id))
+  }))), 'Equipe');
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.hourly.map(h => ({
+    Hora: h.hour, Convidados: h.guests, Equipe: h.staff, Total: h.total, Acumulado: h.cumulative
+  }))), 'Chegadas por hora');
+
+  // Linha do tempo completa: uma linha por entrada/saída
+  const names = new Map<string, { name: string; kind: string }>();
+  guests.forEach(g => names.set(g.id, { name: g.name, kind: 'Convidado' }));
+  staff.forEach(s => names.set(s.id, { name: s.name, kind: 'Equipe' }));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(checkins.map(c => {
+    const person = names.get(c.guest_id || c.staff_id || '');
+    return { Nome: person?.name || '', Tipo: person?.kind || '', Movimento: c.direction === 'in' ? 'Entrada' : 'Saída', Sessão: sessions.find(ss => ss.id === c.session_id)?.name || 'Evento', Horário: formatDateTime(c.occurred_at), Origem: CHECKIN_SOURCE_LABELS[c.source] || c.source, Dispositivo: c.device || '', Operador: c.user_email || '' };
+  })), 'Entradas e Saídas');
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(activity.map(a => ({
+    Horário: formatDateTime(a.created_at), Usuário: a.user_email || '', Ação: a.action, Detalhes: a.details || ''
+  }))), 'Atividades');
+
+  return wb;
+}
+
+// --- RESUMO PARA IMPRESSÃO / PDF ---
+
+export interface ReportBranding {
+  eventName: string;
+  eventDate: string | null;
+  logoUrl: string | null;
+  primaryColor: string;
+  secondaryColor: string | null;
+}
+
+export function renderReportDocument(report: EventReport, branding: ReportBranding) {
+  const primary = escapeHtml(branding.primaryColor);
+  const secondary = escapeHtml(branding.secondaryColor || branding.primaryColor);
+  const maxHour = Math.max(1, ...report.hourly.map(h => h.total));
+  const cards = [
+    ['Convidados na lista', report.invited],
+    ['Presentes', report.present],
+    ['Taxa de presença', formatPercent(report.attendanceRate)],
+    ['Não compareceram', report.noShows],
+    ['Walk-ins', report.walkins],
+    ['Equipe presente', `${report.staffPresent}/${report.staffTotal}`]
+  ];
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>${escapeHtml(branding.eventName)} - Relatório de presença</title>
+      <style>
+        @page { size: A4; margin: 16mm; }
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: Arial, sans-serif; color: #1f2937; font-size: 11pt; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+        header { display: flex; align-items: center; justify-content: space-between; gap: 16px; border-bottom: 4px solid ${primary}; padding-bottom: 12px; margin-bottom: 20px; }
+        header img { max-height: 56px; max-width: 180px; object-fit: contain; }
+        h1 { font-size: 20pt; color: ${primary}; }
+        h2 { font-size: 13pt; color: ${secondary}; margin: 24px 0 10px; }
+        .muted { color: #6b7280; font-size: 9pt; }
+        .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 10px; }
+        .card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+        .card .value { font-size: 20pt; font-weight: bold; color: ${primary}; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; font-size: 10pt; }
+        th { background: #f3f4f6; }
+        .bar { height: 10px; border-radius: 4px; background: ${primary}; }
+        .dot { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 6px; }
+      </style>
+    </head>
+    <body>
+      <header>
+        <div>
+          <h1>${escapeHtml(branding.eventName)}</h1>
+          <p class="muted">${branding.eventDate ? `${escapeHtml(new Date(branding.eventDate).toLocaleDateString('pt-BR'))} · ` : ''}Relatório gerado em ${escapeHtml(new Date().toLocaleString('pt-BR'))}</p>
+        </div>
+        ${branding.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="">` : ''}
+      </header>
+
+      <div class="cards">
+        ${cards.map(([label, value]) => `<div class="card"><div class="muted">${label}</div><div class="value">${value}</div></div>`).join('')}
+      </div>
+
+      ${report.byCategory.length > 0 ? `
+        <h2>Por categoria</h2>
+        <table>
+          <tr><th>Categoria</th><th>Na lista</th><th>Presentes</th><th>Taxa</th></tr>
+          ${report.byCategory.map(c => `<tr><td><span class="dot" style="background: ${safeCategoryColor(c.color)}"></span>${escapeHtml(c.name)}</td><td>${c.invited}</td><td>${c.present}</td><td>${formatPercent(c.invited ? c.present / c.invited : 0)}</td></tr>`).join('')}
+        </table>` : ''}
+
+      ${report.hourly.length > 0 ? `
+        <h2>Chegadas por hora</h2>
+        <table>
+          <tr><th style="width: 70px">Hora</th><th style="width: 90px">Convidados</th><th style="width: 70px">Equipe</th><th></th><th style="width: 80px">Acumulado</th></tr>
+          ${report.hourly.map(h => `<tr><td>${h.hour}</td><td>${h.guests}</td><td>${h.staff}</td><td><div class="bar" style="width: ${(h.total / maxHour) * 100}%"></div></td><td>${h.cumulative}</td></tr>`).join('')}
+        </table>` : ''}
+    </body>
+    </html>
+  `;
+}
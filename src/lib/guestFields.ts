@@ -0,0 +1,53 @@
+import { normalizeText } from '@/lib/text';
+import { categoryIdFromName } from '@/lib/categories';
+
+// --- CAMPOS PERSONALIZADOS DO CONVIDADO (definidos por evento) ---
+
+export type CustomFieldType = 'text' | 'select' | 'checkbox';
+
+export interface CustomField {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  // Só para 'select'
+  options: string[];
+}
+
+// guests.custom_data: { [field.id]: valor }
+export type CustomData = Record<string, string | boolean>;
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Texto',
+  select: 'Lista de opções',
+  checkbox: 'Sim/Não'
+};
+
+export const customFieldIdFromLabel = (label: string) => categoryIdFromName(label);
+
+export function formatCustomValue(field: CustomField, value: string | boolean | undefined) {
+  if (field.type === 'checkbox') return value === true ? 'Sim' : value === false ? 'Não' : '';
+  return value ? String(value) : '';
+}
+
+const TRUTHY = ['sim', 's', 'x', 'yes', 'y', 'true', '1', 'ok'];
+
+// Valor vindo de planilha -> valor do campo (null = vazio)
+export function parseCustomValue(field: CustomField, raw: string): string | boolean | null {
+  const value = raw.trim();
+  if (!value) return null;
+  if (field.type === 'checkbox') return TRUTHY.includes(normalizeText(value));
+  if (field.type === 'select') return field.options.find(o => normalizeText(o) === normalizeText(value)) || value;
+  return value;
+}
+
+// Texto pesquisável dos campos de texto e listas
+export const customDataText = (fields: CustomField[], data: CustomData | null | undefined) =>
+  fields.filter(f => f.type !== 'checkbox').map(f => formatCustomValue(f, data?.[f.id])).join(' ');
+
+// --- DOCUMENTO (CPF) ---
+
+export function formatDocument(value: string | null | undefined) {
+  if (!value) return '';
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 11 ? digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4') : value;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { guessMapping, readSheet } from '@/lib/guestImport';
+
+const workbookFrom = (rows: unknown[][]) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Convidados');
+  return workbook;
+};
+
+describe('readSheet', () => {
+  it('usa o cabeçalho sem espaços nas pontas como chave das linhas', () => {
+    const { headers, rows } = readSheet(workbookFrom([[' Nome ', 'Empresa '], ['Maria Souza', 'Floripa Square']]), 'Convidados');
+    expect(headers).toEqual(['Nome', 'Empresa']);
+    expect(rows).toEqual([{ Nome: 'Maria Souza', Empresa: 'Floripa Square' }]);
+  });
+
+  it('dá uma chave própria a cada cabeçalho repetido', () => {
+    const { headers, rows } = readSheet(workbookFrom([['Nome', 'Nome', 'Nome '], ['Maria', 'Souza', 'Silva']]), 'Convidados');
+    expect(headers).toEqual(['Nome', 'Nome (2)', 'Nome (3)']);
+    expect(rows[0]).toEqual({ Nome: 'Maria', 'Nome (2)': 'Souza', 'Nome (3)': 'Silva' });
+  });
+
+  it('ignora colunas sem cabeçalho e linhas em branco', () => {
+    const { headers, rows } = readSheet(workbookFrom([['Nome', '', 'CPF'], ['Maria', 'x', '01234567890'], [], ['João', '', '']]), 'Convidados');
+    expect(headers).toEqual(['Nome', 'CPF']);
+    expect(rows).toEqual([{ Nome: 'Maria', CPF: '01234567890' }, { Nome: 'João', CPF: '' }]);
+  });
+
+  it('lê as células pelas colunas sugeridas no mapeamento', () => {
+    const { headers, rows } = readSheet(workbookFrom([['Nome ', 'E-mail'], ['Maria', 'maria@example.com']]), 'Convidados');
+    const mapping = guessMapping(headers);
+    expect(rows[0][mapping.name!]).toBe('Maria');
+    expect(rows[0][mapping.email!]).toBe('maria@example.com');
+  });
+});
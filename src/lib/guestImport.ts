@@ -0,0 +1,271 @@
+import * as XLSX from 'xlsx';
+import { normalizeText } from '@/lib/text';
+import { GuestCategory, findCategory } from '@/lib/categories';
+import { CustomData, CustomField, parseCustomValue } from '@/lib/guestFields';
+
+// --- IMPORTAÇÃO DE CONVIDADOS (planilha/CSV -> guests) ---
+
+export type ImportField =
+  | 'name' | 'last_name' | 'company' | 'role' | 'category'
+  | 'email' | 'phone' | 'document' | 'ticket_type';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; pattern: RegExp }[] = [
+  { key: 'name', label: 'Nome', pattern: /(nome|name|participante|convidado|fullname)/ },
+  { key: 'last_name', label: 'Sobrenome', pattern: /(sobrenome|last ?name|surname)/ },
+  { key: 'company', label: 'Empresa', pattern: /(empresa|company|organizacao|instituicao|org)/ },
+  { key: 'role', label: 'Cargo', pattern: /(cargo|role|funcao|ocupacao|job title)/ },
+  { key: 'category', label: 'Categoria', pattern: /(categoria|category|tipo)/ },
+  { key: 'email', label: 'E-mail', pattern: /(e-?mail)/ },
+  { key: 'phone', label: 'Telefone', pattern: /(telefone|celular|phone|whatsapp|fone)/ },
+  { key: 'document', label: 'CPF', pattern: /(cpf|documento|document|\brg\b)/ },
+  { key: 'ticket_type', label: 'Tipo de ingresso', pattern: /(ingresso|ticket|inscricao)/ }
+];
+
+// Ordem da sugestão automática: colunas mais específicas primeiro
+// (ex: "Sobrenome" e "Nome da empresa" não podem virar o nome; "Tipo de ingresso" não é categoria)
+const GUESS_ORDER: ImportField[] = ['last_name', 'email', 'company', 'ticket_type', 'document', 'phone', 'role', 'category', 'name'];
+
+// Cabeçalhos das exportações das plataformas de ingresso mais usadas pelos clientes
+export interface ImportPreset {
+  id: string;
+  label: string;
+  // Colunas que só aparecem nessa plataforma
+  signature: string[];
+  headers: Partial<Record<ImportField, string[]>>;
+}
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'sympla',
+    label: 'Sympla',
+    signature: ['Número do ingresso', 'Nº do pedido', 'Número do pedido'],
+    headers: {
+      name: ['Nome'], last_name: ['Sobrenome'], email: ['E-mail', 'Email'], ticket_type: ['Tipo de ingresso', 'Ingresso'],
+      document: ['CPF', 'Documento'], phone: ['Telefone', 'Celular'], company: ['Empresa'], role: ['Cargo']
+    }
+  },
+  {
+    id: 'even3',
+    label: 'Even3',
+    signature: ['Código da inscrição', 'ID da inscrição', 'Situação da inscrição'],
+    headers: {
+      name: ['Nome', 'Nome completo'], email: ['E-mail', 'Email'], document: ['CPF', 'Documento'], phone: ['Telefone', 'Celular'],
+      company: ['Instituição', 'Empresa'], ticket_type: ['Categoria de inscrição', 'Tipo de inscrição', 'Inscrição']
+    }
+  },
+  {
+    id: 'eventbrite',
+    label: 'Eventbrite',
+    signature: ['Order #', 'Attendee #', 'Ticket Type'],
+    headers: {
+      name: ['First Name', 'Nome'], last_name: ['Last Name', 'Sobrenome'], email: ['Email', 'E-mail'], company: ['Company', 'Empresa'],
+      role: ['Job Title', 'Cargo'], phone: ['Cell Phone', 'Home Phone'], ticket_type: ['Ticket Type', 'Tipo de ingresso']
+    }
+  },
+  {
+    id: 'google-forms',
+    label: 'Google Forms',
+    signature: ['Carimbo de data/hora', 'Timestamp'],
+    headers: { name: ['Nome completo', 'Nome'], email: ['Endereço de e-mail', 'Email Address', 'E-mail'] }
+  }
+];
+
+// Cabeçalho da planilha escolhido para cada campo (null = ignorar)
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export type ImportValues = Record<ImportField, string>;
+
+// Campos personalizados do evento: field.id -> cabeçalho (null = ignorar)
+export type CustomMapping = Record<string, string | null>;
+
+export type ImportRowStatus = 'new' | 'existing' | 'duplicate' | 'invalid';
+
+export interface ImportRow {
+  line: number;
+  values: ImportValues;
+  status: ImportRowStatus;
+  existingId: string | null;
+  category: string | null;
+  custom: CustomData;
+  warning: string | null;
+}
+
+// O que fazer com quem já está na lista do evento
+export type ExistingAction = 'skip' | 'update' | 'insert';
+
+export type ImportOutcome = 'inserted' | 'updated' | 'skipped' | 'error';
+
+export interface ImportResult {
+  line: number;
+  name: string;
+  outcome: ImportOutcome;
+  message: string | null;
+}
+
+interface ExistingGuest {
+  id: string;
+  name: string;
+  company: string | null;
+  email?: string | null;
+}
+
+export const IMPORT_ACCEPT = '.xlsx,.xls,.csv,.tsv,.txt';
+
+const isDelimited = (file: File) => /\.(csv|tsv|txt)$/i.test(file.name) || file.type === 'text/csv';
+
+// UTF-8 quando válido; senão Windows-1252/Latin-1 (CSV salvo pelo Excel em português)
+export function decodeText(buffer: ArrayBuffer) {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('windows-1252').decode(buffer);
+  }
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+// Separador mais frequente na linha de cabeçalho (fora de aspas)
+export function detectDelimiter(text: string) {
+  const header = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [';', ',', '\t'].map(d => ({ d, n: header.split(d).length - 1 }));
+  const best = counts.sort((a, b) => b.n - a.n)[0];
+  return best.n > 0 ? best.d : ',';
+}
+
+export function readWorkbook(file: File) {
+  return new Promise<XLSX.WorkBook>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const buffer = evt.target?.result as ArrayBuffer;
+        if (isDelimited(file)) {
+          const text = decodeText(buffer);
+          // raw: mantém CPF/telefone como texto (sem perder zeros à esquerda)
+          resolve(XLSX.read(text, { type: 'string', FS: detectDelimiter(text), raw: true }));
+        } else {
+          resolve(XLSX.read(buffer, { type: 'array' }));
+        }
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+// Linhas lidas como listas e montadas pelo índice da coluna: a chave de cada
+// célula é sempre o mesmo texto da lista de cabeçalhos (sem espaços nas pontas;
+// repetidos ganham sufixo, ex: "Nome (2)")
+export function readSheet(workbook: XLSX.WorkBook, sheetName: string) {
+  const sheet = workbook.Sheets[sheetName];
+  const [headerRow = [], ...data] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', blankrows: false });
+  const columns: { index: number; header: string }[] = [];
+  headerRow.forEach((value, index) => {
+    const name = String(value ?? '').trim();
+    if (!name) return;
+    let header = name;
+    for (let n = 2; columns.some(c => c.header === header); n++) header = `${name} (${n})`;
+    columns.push({ index, header });
+  });
+  const rows = data.map(cells => Object.fromEntries(columns.map(c => [c.header, cells[c.index] ?? ''])) as Record<string, unknown>);
+  return { headers: columns.map(c => c.header), rows };
+}
+
+// Mesmas regras da importação antiga, agora só como sugestão inicial.
+// Com um preset, os cabeçalhos conhecidos da plataforma têm prioridade.
+export function guessMapping(headers: string[], preset: ImportPreset | null = null): ColumnMapping {
+  const used = new Set<string>();
+  const take = (header: string | undefined) => {
+    if (!header) return null;
+    used.add(header);
+    return header;
+  };
+  const mapping = {} as ColumnMapping;
+
+  if (preset) {
+    GUESS_ORDER.forEach(key => {
+      const known = (preset.headers[key] || []).map(normalizeText);
+      mapping[key] = take(headers.find(h => !used.has(h) && known.includes(normalizeText(h))));
+    });
+  }
+  GUESS_ORDER.forEach(key => {
+    if (mapping[key]) return;
+    const field = IMPORT_FIELDS.find(f => f.key === key)!;
+    mapping[key] = take(headers.find(h => !used.has(h) && normalizeText(h).match(field.pattern)));
+  });
+  return mapping;
+}
+
+// Campo personalizado só é sugerido quando o cabeçalho tem o mesmo nome
+export function guessCustomMapping(headers: string[], fields: CustomField[], mapping: ColumnMapping): CustomMapping {
+  const used = new Set(Object.values(mapping).filter(Boolean));
+  return fields.reduce((acc, field) => {
+    const header = headers.find(h => !used.has(h) && normalizeText(h).trim() === normalizeText(field.label).trim());
+    return { ...acc, [field.id]: header || null };
+  }, {} as CustomMapping);
+}
+
+export function detectPreset(headers: string[]) {
+  const normalized = headers.map(normalizeText);
+  return IMPORT_PRESETS.find(p => p.signature.some(h => normalized.includes(normalizeText(h)))) || null;
+}
+
+// CPF numérico vindo do Excel perde os zeros à esquerda
+export function normalizeDocument(value: string) {
+  const digits = value.replace(/\D/g, '');
+  if (/[a-z]/i.test(value) || digits.length === 0) return value.trim();
+  return digits.length >= 9 && digits.length < 11 ? digits.padStart(11, '0') : digits;
+}
+
+// Chave de comparação: nome + empresa, sem acentos/maiúsculas/espaços extras
+export const guestKey = (name: string, company: string | null | undefined) =>
+  `${normalizeText(name).replace(/\s+/g, ' ').trim()}|${normalizeText(company || '').replace(/\s+/g, ' ').trim()}`;
+
+export function analyzeImport(
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  existing: ExistingGuest[],
+  categories: GuestCategory[],
+  customFields: CustomField[] = [],
+  customMapping: CustomMapping = {}
+): ImportRow[] {
+  const existingByKey = new Map(existing.map(g => [guestKey(g.name, g.company), g.id]));
+  const existingByEmail = new Map(existing.filter(g => g.email).map(g => [g.email!.toLowerCase(), g.id]));
+  const seen = new Set<string>();
+
+  return rows.map((row, i) => {
+    const values = IMPORT_FIELDS.reduce((acc, field) => {
+      const header = mapping[field.key];
+      return { ...acc, [field.key]: header ? String(row[header] ?? '').trim() : '' };
+    }, {} as ImportValues);
+    const custom = customFields.reduce((acc, field) => {
+      const header = customMapping[field.id];
+      const value = header ? parseCustomValue(field, String(row[header] ?? '')) : null;
+      return value === null ? acc : { ...acc, [field.id]: value };
+    }, {} as CustomData);
+    // Plataformas que separam nome e sobrenome
+    values.name = [values.name, values.last_name].filter(Boolean).join(' ');
+    values.last_name = '';
+    values.email = values.email.toLowerCase();
+    values.document = normalizeDocument(values.document);
+    // Linha 1 é o cabeçalho
+    const line = i + 2;
+    const category = findCategory(categories, values.category);
+    const warning = values.category && !category
+      ? `Categoria "${values.category}" não existe no evento`
+      : values.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email) ? 'E-mail inválido' : null;
+
+    if (!values.name) {
+      return { line, values, status: 'invalid', existingId: null, category: null, custom, warning: 'Nome vazio' };
+    }
+    const key = guestKey(values.name, values.company);
+    if (seen.has(key)) {
+      return { line, values, status: 'duplicate', existingId: null, category: category?.id ?? null, custom, warning: 'Repetido na planilha' };
+    }
+    seen.add(key);
+    // Mesmo e-mail também conta como a mesma pessoa (nome pode vir escrito diferente)
+    const existingId = existingByKey.get(key) || (values.email && existingByEmail.get(values.email)) || null;
+    return { line, values, status: existingId ? 'existing' : 'new', existingId, category: category?.id ?? null, custom, warning };
+  });
+}
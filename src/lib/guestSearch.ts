@@ -0,0 +1,22 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// --- BUSCA NA LISTA EM TELAS PÚBLICAS ---
+// A página do convidado e o totem não baixam a lista: o RPC search_guests
+// devolve só alguns nomes, e apenas a partir de 3 letras. O nome vem sempre
+// encurtado pelo servidor ("Maria A. S.").
+
+export const MIN_SEARCH_LENGTH = 3;
+
+export interface GuestSearchMatch {
+  id: string;
+  name: string;
+  checked_in: boolean;
+  // Consentimento ausente ou de uma versão anterior do termo
+  needs_consent: boolean;
+  badge_printed: boolean;
+}
+
+export async function searchGuests(eventId: string, query: string, limit: number) {
+  const { data, error } = await supabase.rpc('search_guests', { _event_id: eventId, _query: query, _limit: limit });
+  return { matches: (data as GuestSearchMatch[] | null) || [], error };
+}
@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// --- CONVITES POR E-MAIL E RSVP ---
+// O envio é feito pela edge function send-invitations (provedor SMTP/Resend
+// configurado no servidor); aqui ficam o modelo, os status e as chamadas.
+
+export type RsvpStatus = 'pending' | 'confirmed' | 'declined';
+
+export const RSVP_LABELS: Record<RsvpStatus, { label: string; className: string }> = {
+  pending: { label: 'Convite enviado', className: 'border-yellow-500 text-yellow-500' },
+  confirmed: { label: 'Confirmado', className: 'border-green-500 text-green-500' },
+  declined: { label: 'Recusou', className: 'border-destructive text-destructive' }
+};
+
+// events.invitation_template
+export interface InvitationTemplate {
+  subject: string;
+  body: string;
+}
+
+// Mesmo padrão da edge function
+export const DEFAULT_INVITATION_TEMPLATE: InvitationTemplate = {
+  subject: 'Convite: {{evento}}',
+  body: 'Olá, {{nome}}!\n\nVocê está convidado(a) para {{evento}}, em {{data}}.\n\nConfirme sua presença pelo link abaixo:\n{{link}}'
+};
+
+export const INVITATION_PLACEHOLDERS = ['{{nome}}', '{{evento}}', '{{data}}', '{{link}}'];
+
+export const resolveInvitationTemplate = (value: Partial<InvitationTemplate> | null | undefined): InvitationTemplate =>
+  ({ ...DEFAULT_INVITATION_TEMPLATE, ...(value || {}) });
+
+// Prévia no diálogo (o e-mail real é montado no servidor)
+export const fillTemplate = (text: string, vars: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => vars[key] ?? match);
+
+export const rsvpLink = (token: string) => `${window.location.origin}/rsvp/${token}`;
+
+export interface InvitationResult {
+  sent: number;
+  results: { guest_id: string; ok: boolean; error?: string }[];
+}
+
+export async function sendInvitations(eventId: string, guestIds: string[]) {
+  const { data, error } = await supabase.functions.invoke('send-invitations', {
+    body: { kind: 'invitation', event_id: eventId, guest_ids: guestIds }
+  });
+  return { data: data as InvitationResult | null, error: error || (data?.error ? new Error(data.error) : null) };
+}
+
+// Convite aberto pela página /rsvp/:token (a tabela de convidados não é pública)
+export interface RsvpInvitation {
+  name: string;
+  rsvp_status: RsvpStatus | null;
+  event: { name: string; date: string; event_logo_url: string | null; primary_color: string | null };
+}
+
+export async function fetchRsvpInvitation(token: string) {
+  const { data, error } = await supabase.rpc('get_rsvp_invitation', { _token: token });
+  return { invitation: !error && data?.status === 'ok' ? (data as RsvpInvitation) : null, error };
+}
+
+// Chamado pela página /rsvp/:token
+export async function respondRsvp(token: string, status: Exclude<RsvpStatus, 'pending'>) {
+  const { data, error } = await supabase.rpc('rsvp_respond', { _token: token, _status: status });
+  if (!error && data?.status === 'ok' && status === 'confirmed') {
+    // E-mail com o QR de check-in (falha aqui não desfaz a confirmação)
+    supabase.functions.invoke('send-invitations', {
+      body: { kind: 'confirmation', token }
+    }).catch(() => {});
+  }
+  return { result: data as { status: 'ok' | 'not_found'; rsvp_status?: RsvpStatus } | null, error };
+}
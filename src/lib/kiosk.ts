@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// --- MODO QUIOSQUE DO TOTEM ---
+// Tela cheia travada, slides em loop enquanto ninguém interage, boas-vindas
+// em tempo real a cada check-in, check-in por toque e recarga periódica para
+// a tela não "morrer".
+
+export type KioskSlide = 'checkin' | 'sponsors' | 'agenda' | 'wifi';
+
+export const KIOSK_SLIDE_LABELS: Record<KioskSlide, string> = {
+  checkin: 'QR de check-in',
+  sponsors: 'Patrocinadores',
+  agenda: 'Programação',
+  wifi: 'Wi-Fi'
+};
+
+// events.kiosk_settings
+export interface KioskSettings {
+  enabled: boolean;
+  fullscreen: boolean;
+  slides: KioskSlide[];
+  slide_seconds: number;
+  sponsor_images: string[];
+  welcome_enabled: boolean;
+  welcome_message: string;
+  welcome_seconds: number;
+  // Busca do nome com teclado na tela, para quem não quer usar o celular
+  touch_enabled: boolean;
+  touch_print: boolean;
+  // Depois de um toque, volta para o loop após este tempo sem interação
+  idle_seconds: number;
+  // 0 = nunca recarrega
+  reload_minutes: number;
+}
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+  enabled: false,
+  fullscreen: true,
+  slides: ['checkin', 'sponsors', 'agenda', 'wifi'],
+  slide_seconds: 12,
+  sponsor_images: [],
+  welcome_enabled: true,
+  welcome_message: 'Bem-vindo(a), {{nome}}!',
+  welcome_seconds: 5,
+  touch_enabled: false,
+  touch_print: false,
+  idle_seconds: 45,
+  reload_minutes: 60
+};
+
+export const KIOSK_PLACEHOLDERS = ['{{nome}}', '{{evento}}'];
+
+export const resolveKioskSettings = (value: Partial<KioskSettings> | null | undefined): KioskSettings =>
+  ({ ...DEFAULT_KIOSK_SETTINGS, ...(value || {}) });
+
+export const renderWelcomeMessage = (template: string, values: { nome: string; evento: string }) =>
+  template.replace(/\{\{(nome|evento)\}\}/g, (_, key: 'nome' | 'evento') => values[key]);
+
+// --- CHAMADAS DO TOTEM (tela pública, sem acesso à lista) ---
+
+// Só o que vai impresso: nome da etiqueta já formatado e um código de etiqueta
+// gerado para esta impressão (o QR pessoal do convidado não sai do servidor)
+export interface TotemBadge {
+  name: string;
+  company: string | null;
+  role: string | null;
+  category: string | null;
+  badge_code: string;
+}
+
+// Etiqueta de quem acabou de entrar; o servidor já marca como impressa (uma por convidado)
+export async function claimTotemBadge(guestId: string) {
+  const { data, error } = await supabase.rpc('claim_totem_badge', { _guest_id: guestId });
+  return { badge: !error && data?.status === 'ok' ? (data as TotemBadge) : null, error };
+}
+
+export interface TotemWelcome {
+  id: string;
+  name: string;
+  checkin_time: string;
+}
+
+// Quem entrou nos últimos minutos (vazio com o quiosque ou as boas-vindas desligados)
+export async function fetchTotemWelcomes(eventId: string) {
+  const { data, error } = await supabase.rpc('get_totem_welcomes', { _event_id: eventId });
+  return { welcomes: (data as TotemWelcome[] | null) || [], error };
+}
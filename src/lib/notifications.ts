@@ -0,0 +1,100 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// --- NOTIFICAÇÕES DE CHECK-IN (WHATSAPP / SMS) ---
+// O envio é feito pela edge function send-notifications (provedor configurado
+// no servidor, com modo mock para testes); o resultado de cada mensagem fica
+// no histórico de atividades.
+
+export type NotificationChannel = 'whatsapp' | 'sms';
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  whatsapp: 'WhatsApp',
+  sms: 'SMS'
+};
+
+// events.notification_settings
+export interface NotificationSettings {
+  guest_enabled: boolean;
+  hosts_enabled: boolean;
+  channel: NotificationChannel;
+  guest_template: string;
+  host_template: string;
+}
+
+// Mesmo padrão da edge function
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  guest_enabled: false,
+  hosts_enabled: true,
+  channel: 'whatsapp',
+  guest_template: 'Olá, {{nome}}! Seu check-in em {{evento}} foi confirmado às {{hora}}. Bom evento!',
+  host_template: 'Olá, {{anfitriao}}! {{nome}} acabou de chegar em {{evento}} ({{hora}}).'
+};
+
+export const NOTIFICATION_PLACEHOLDERS = ['{{nome}}', '{{evento}}', '{{hora}}', '{{anfitriao}}'];
+
+export const resolveNotificationSettings = (value: Partial<NotificationSettings> | null | undefined): NotificationSettings =>
+  ({ ...DEFAULT_NOTIFICATION_SETTINGS, ...(value || {}) });
+
+// Usuários do sistema: 'app' = aviso no app/navegador, 'email' = app + e-mail
+export type WatcherChannel = NotificationChannel | 'app' | 'email';
+
+export const WATCHER_CHANNEL_LABELS: Record<WatcherChannel, string> = {
+  ...CHANNEL_LABELS,
+  app: 'No app',
+  email: 'App + e-mail'
+};
+
+// Quem recebe o aviso quando o convidado chega (tabela guest_watchers):
+// um telefone (WhatsApp/SMS) ou um usuário do sistema
+export interface GuestWatcher {
+  id: string;
+  event_id: string;
+  guest_id: string;
+  user_id: string | null;
+  name: string;
+  phone: string | null;
+  channel: WatcherChannel;
+}
+
+export interface AppUser {
+  user_id: string;
+  email: string;
+  display_name: string | null;
+}
+
+// Só admin/equipe (função list_app_users)
+export async function listAppUsers() {
+  const { data, error } = await supabase.rpc('list_app_users');
+  return { users: (data || []) as AppUser[], error };
+}
+
+// "Me avisar quando chegar": liga/desliga o aviso do próprio usuário
+export async function toggleOwnWatch(eventId: string, guestId: string, userId: string, name: string, current: GuestWatcher | undefined) {
+  if (current) return supabase.from('guest_watchers').delete().eq('id', current.id);
+  return supabase.from('guest_watchers').insert({ event_id: eventId, guest_id: guestId, user_id: userId, name, channel: 'app' });
+}
+
+// --- NOTIFICAÇÕES NO APP (tabela notifications) ---
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  event_id: string | null;
+  guest_id: string | null;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Alerta do sistema operacional enquanto o app estiver aberto (exige permissão do navegador)
+export function showBrowserNotification(notification: AppNotification) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(notification.title, { body: notification.body || undefined, tag: notification.id });
+}
+
+// Disparado depois de cada check-in confirmado; o servidor garante um aviso por chegada.
+// Sem sessão (páginas públicas), checkinId é o comprovante devolvido pelo check-in
+export function notifyCheckin(guestId: string, checkinId?: string) {
+  supabase.functions.invoke('send-notifications', { body: { guest_id: guestId, checkin_id: checkinId } }).catch(() => {});
+}
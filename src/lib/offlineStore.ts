@@ -0,0 +1,129 @@
+// --- ARMAZENAMENTO LOCAL (IndexedDB) PARA O MODO OFFLINE DA RECEPÇÃO ---
+// Guarda uma cópia das listas de convidados/equipe de cada evento e uma fila
+// (outbox) de check-ins feitos sem conexão, reenviados quando a rede volta.
+// A cópia leva só o necessário para o check-in (sem CPF, telefone ou e-mail),
+// expira em poucos dias e é apagada ao sair da conta.
+
+import type { CheckinSource } from '@/lib/checkin';
+
+const DB_NAME = 'floripa-checkin';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const OUTBOX = 'outbox';
+
+export type OfflineTable = 'guests' | 'staff';
+type SnapshotKind = OfflineTable | 'event';
+
+// Colunas guardadas de cada lista (busca por nome/empresa, leitura do QR e status)
+const SNAPSHOT_COLUMNS: Record<OfflineTable, string[]> = {
+  guests: ['id', 'name', 'company', 'role', 'category', 'ticket_type', 'is_walkin', 'waitlisted_at', 'rsvp_status', 'checked_in', 'checkin_time', 'checkin_token', 'badge_code', 'badge_printed_at'],
+  staff: ['id', 'name', 'role', 'checked_in', 'checkin_time', 'badge_printed_at']
+};
+
+// Cobre o evento inteiro; depois disso a cópia é descartada
+const SNAPSHOT_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface OutboxEntry {
+  id?: number;
+  event_id: string;
+  table: OfflineTable;
+  record_id: string;
+  name: string;
+  checked_in: boolean;
+  checkin_time: string | null;
+  source?: CheckinSource;
+  session_id?: string | null;
+  queued_at: string;
+}
+
+interface Snapshot<T> {
+  key: string;
+  rows: T[];
+  saved_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          const outbox = db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true });
+          outbox.createIndex('event_id', 'event_id');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+const pickColumns = <T>(row: T, columns: string[]) =>
+  Object.fromEntries(columns.map(column => [column, (row as Record<string, unknown>)[column] ?? null])) as T;
+
+export async function saveSnapshot<T>(eventId: string, table: SnapshotKind, rows: T[]) {
+  const stored = table === 'event' ? rows : rows.map(row => pickColumns(row, SNAPSHOT_COLUMNS[table]));
+  const snapshot: Snapshot<T> = { key: `${table}:${eventId}`, rows: stored, saved_at: new Date().toISOString() };
+  await run(SNAPSHOTS, 'readwrite', store => store.put(snapshot));
+}
+
+export async function loadSnapshot<T>(eventId: string, table: SnapshotKind): Promise<T[] | null> {
+  const key = `${table}:${eventId}`;
+  const snapshot = await run<Snapshot<T> | undefined>(SNAPSHOTS, 'readonly', store => store.get(key));
+  if (!snapshot) return null;
+  if (Date.now() - new Date(snapshot.saved_at).getTime() > SNAPSHOT_MAX_AGE_MS) {
+    await run(SNAPSHOTS, 'readwrite', store => store.delete(key));
+    return null;
+  }
+  return snapshot.rows;
+}
+
+// Logout: nenhuma cópia das listas fica no aparelho
+export async function clearSnapshots() {
+  await run(SNAPSHOTS, 'readwrite', store => store.clear());
+}
+
+export async function enqueueCheckin(entry: Omit<OutboxEntry, 'id' | 'queued_at'>) {
+  await run(OUTBOX, 'readwrite', store => store.add({ ...entry, queued_at: new Date().toISOString() }));
+}
+
+// Retorna na ordem em que foram enfileirados (id autoincremento)
+export async function listOutbox(eventId: string): Promise<OutboxEntry[]> {
+  return run<OutboxEntry[]>(OUTBOX, 'readonly', store => store.index('event_id').getAll(eventId))
+    .then(entries => entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0)));
+}
+
+export async function removeOutboxEntry(id: number) {
+  await run(OUTBOX, 'readwrite', store => store.delete(id));
+}
+
+// Aplica sobre as linhas carregadas o último estado pendente de cada pessoa
+export function applyPendingCheckins<T extends { id: string; checked_in: boolean; checkin_time: string | null }>(rows: T[], entries: OutboxEntry[], table: OfflineTable): T[] {
+  const pending = new Map<string, OutboxEntry>();
+  entries.filter(e => e.table === table && !e.session_id).forEach(e => pending.set(e.record_id, e));
+  if (pending.size === 0) return rows;
+  return rows.map(row => {
+    const entry = pending.get(row.id);
+    return entry ? { ...row, checked_in: entry.checked_in, checkin_time: entry.checkin_time } : row;
+  });
+}
+
+// Erros de rede do fetch (sem resposta do servidor) — diferente de erro do banco
+export function isNetworkError(error: { message?: string } | null) {
+  if (!navigator.onLine) return true;
+  const message = error?.message || '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
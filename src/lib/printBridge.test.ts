@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { BadgeData, DEFAULT_BADGE_TEMPLATE } from '@/lib/badge';
+import { renderEscPos, renderZpl } from '@/lib/printBridge';
+
+const maria: BadgeData = {
+  name: 'Maria Souza',
+  company: 'Floripa Square',
+  role: 'Diretora',
+  category: { id: 'vip', name: 'Vip', color: '#7c3aed', highlight: true },
+  qrValue: 'abc123'
+};
+
+const fieldData = (zpl: string) => Array.from(zpl.matchAll(/\^FD(.*?)\^FS/g), m => m[1]);
+
+describe('renderZpl', () => {
+  it('gera uma etiqueta ^XA…^XZ por crachá, no tamanho do modelo', () => {
+    const zpl = renderZpl([maria, { name: 'João' }], DEFAULT_BADGE_TEMPLATE);
+    expect(zpl.match(/\^XA/g)).toHaveLength(2);
+    expect(zpl.match(/\^XZ/g)).toHaveLength(2);
+    expect(zpl).toContain('^CI28');
+    expect(zpl).toContain('^PW719');
+    expect(zpl).toContain('^LL280');
+  });
+
+  it('converte as medidas para a resolução da impressora', () => {
+    const zpl = renderZpl([maria], DEFAULT_BADGE_TEMPLATE, 300);
+    expect(zpl).toContain('^PW1063');
+    expect(zpl).toContain('^LL413');
+  });
+
+  it('imprime só os campos ligados no modelo', () => {
+    expect(fieldData(renderZpl([maria], DEFAULT_BADGE_TEMPLATE))).toEqual(['VIP', 'Maria Souza', 'Floripa Square']);
+
+    const template = { ...DEFAULT_BADGE_TEMPLATE, show_role: true, show_category: false, uppercase_name: true };
+    expect(fieldData(renderZpl([maria], template))).toEqual(['MARIA SOUZA', 'Diretora', 'Floripa Square']);
+  });
+
+  it('desenha a faixa da categoria com o texto invertido', () => {
+    const zpl = renderZpl([maria], DEFAULT_BADGE_TEMPLATE);
+    expect(zpl).toContain('^FO0,0^GB719,40,40^FS');
+    expect(zpl).toMatch(/\^FR\^FB719,1,0,C\^FDVIP\^FS/);
+  });
+
+  it('inclui o QR só quando o modelo pede e há valor', () => {
+    const template = { ...DEFAULT_BADGE_TEMPLATE, show_qr: true };
+    expect(renderZpl([maria], template)).toMatch(/\^BQN,2,\d+\^FDQA,abc123\^FS/);
+    expect(renderZpl([{ ...maria, qrValue: null }], template)).not.toContain('^BQN');
+    expect(renderZpl([maria], DEFAULT_BADGE_TEMPLATE)).not.toContain('^BQN');
+  });
+
+  it('troca ^ e ~ dos dados por espaço', () => {
+    const zpl = renderZpl([{ name: 'Ana^XZ~JR', company: null }], DEFAULT_BADGE_TEMPLATE);
+    expect(fieldData(zpl)).toEqual(['Ana XZ JR']);
+    expect(zpl.match(/\^XZ/g)).toHaveLength(1);
+  });
+});
+
+describe('renderEscPos', () => {
+  it('inicializa, escreve os textos em WPC1252 e corta o papel por crachá', () => {
+    const bytes = Array.from(renderEscPos([{ name: 'José' }], DEFAULT_BADGE_TEMPLATE));
+    expect(bytes.slice(0, 8)).toEqual([0x1b, 0x40, 0x1b, 0x74, 16, 0x1b, 0x61, 1]);
+    expect(bytes).toEqual(expect.arrayContaining([0x4a, 0x6f, 0x73, 0xe9]));
+    expect(bytes.slice(-7)).toEqual([0x1b, 0x64, 4, 0x1d, 0x56, 0x42, 0x00]);
+  });
+});
@@ -0,0 +1,155 @@
+import type { BadgeData, BadgeTemplate } from '@/lib/badge';
+
+// --- IMPRESSÃO DIRETA EM IMPRESSORA TÉRMICA (ponte de impressão local) ---
+// A etiqueta é convertida em ZPL (Zebra/Brother em modo ZPL) ou ESC/POS
+// (impressoras de cupom) e enviada por HTTP para um serviço na própria máquina
+// da recepção, sem abrir o diálogo de impressão do navegador.
+// O logo do evento não é enviado: só texto, faixa da categoria e QR.
+
+export type PrintLanguage = 'zpl' | 'escpos';
+
+export interface PrintBridgeSettings {
+  enabled: boolean;
+  url: string;
+  language: PrintLanguage;
+  dpi: 203 | 300;
+  autoPrintOnCheckin: boolean;
+}
+
+// Configuração fica no navegador: cada recepção tem sua própria impressora
+const STORAGE_KEY = 'print-bridge-settings';
+
+export const DEFAULT_PRINT_BRIDGE_SETTINGS: PrintBridgeSettings = {
+  enabled: false,
+  url: 'http://localhost:9100/print',
+  language: 'zpl',
+  dpi: 203,
+  autoPrintOnCheckin: false
+};
+
+export function loadPrintBridgeSettings(): PrintBridgeSettings {
+  try {
+    return { ...DEFAULT_PRINT_BRIDGE_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PRINT_BRIDGE_SETTINGS;
+  }
+}
+
+export function savePrintBridgeSettings(settings: PrintBridgeSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// --- ZPL ---
+
+const PT_TO_MM = 0.3528;
+
+// ^ e ~ são comandos em ZPL
+const zplText = (value: string) => value.replace(/[\^~]/g, ' ');
+
+function renderZplLabel(badge: BadgeData, t: BadgeTemplate, dpi: number) {
+  const dots = (mm: number) => Math.round((mm * dpi) / 25.4);
+  const width = dots(t.width_mm);
+  const height = dots(t.height_mm);
+  const margin = dots(3);
+  const lines = [t.show_role ? badge.role : null, t.show_company ? badge.company : null].filter(Boolean) as string[];
+  const name = t.uppercase_name ? badge.name.toUpperCase() : badge.name;
+  const out = ['^XA', '^CI28', `^PW${width}`, `^LL${height}`];
+
+  let top = 0;
+  if (t.show_category && badge.category) {
+    const stripe = dots(5);
+    const size = dots(8 * PT_TO_MM);
+    out.push(`^FO0,0^GB${width},${stripe},${stripe}^FS`);
+    out.push(`^FO0,${Math.round((stripe - size) / 2)}^A0N,${size},${size}^FR^FB${width},1,0,C^FD${zplText(badge.category.name.toUpperCase())}^FS`);
+    top = stripe;
+  }
+
+  // QR à direita, texto centralizado no espaço restante
+  let textWidth = width - margin * 2;
+  if (t.show_qr && badge.qrValue) {
+    const target = Math.min(height - top - dots(3), dots(28));
+    const magnification = Math.max(1, Math.min(10, Math.floor(target / 33)));
+    const qrSize = magnification * 33;
+    textWidth -= qrSize + dots(2);
+    out.push(`^FO${width - margin - qrSize},${top + Math.round((height - top - qrSize) / 2)}^BQN,2,${magnification}^FDQA,${zplText(badge.qrValue)}^FS`);
+  }
+
+  const nameSize = dots(t.name_size * PT_TO_MM);
+  const subtitleSize = dots(t.subtitle_size * PT_TO_MM);
+  const gap = dots(1.5);
+  const blockHeight = nameSize + lines.length * (subtitleSize + gap);
+  let y = top + Math.max(0, Math.round((height - top - blockHeight) / 2));
+
+  out.push(`^FO${margin},${y}^A0N,${nameSize},${nameSize}^FB${textWidth},1,0,C^FD${zplText(name)}^FS`);
+  y += nameSize + gap;
+  lines.forEach(line => {
+    out.push(`^FO${margin},${y}^A0N,${subtitleSize},${subtitleSize}^FB${textWidth},1,0,C^FD${zplText(line)}^FS`);
+    y += subtitleSize + gap;
+  });
+
+  out.push('^XZ');
+  return out.join('\n');
+}
+
+export const renderZpl = (badges: BadgeData[], template: BadgeTemplate, dpi = 203) =>
+  badges.map(b => renderZplLabel(b, template, dpi)).join('\n');
+
+// --- ESC/POS ---
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Code page WPC1252 (ESC t 16): acentos do português têm o mesmo código do Latin-1
+const escposText = (value: string) => Array.from(value).map(ch => {
+  const code = ch.charCodeAt(0);
+  return code < 256 ? code : 0x3f;
+});
+
+function renderEscPosTicket(badge: BadgeData, t: BadgeTemplate) {
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 16, ESC, 0x61, 1];
+  const lines = [t.show_role ? badge.role : null, t.show_company ? badge.company : null].filter(Boolean) as string[];
+  const name = t.uppercase_name ? badge.name.toUpperCase() : badge.name;
+
+  if (t.show_category && badge.category) {
+    // Texto invertido (branco no preto) no lugar da faixa colorida
+    bytes.push(GS, 0x42, 1, ...escposText(` ${badge.category.name.toUpperCase()} `), 0x0a, GS, 0x42, 0, 0x0a);
+  }
+
+  bytes.push(GS, 0x21, t.name_size >= 24 ? 0x22 : 0x11, ...escposText(name), 0x0a, GS, 0x21, 0x00);
+  lines.forEach(line => bytes.push(...escposText(line), 0x0a));
+
+  if (t.show_qr && badge.qrValue) {
+    const data = escposText(badge.qrValue);
+    const length = data.length + 3;
+    bytes.push(0x0a);
+    bytes.push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00); // modelo 2
+    bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6); // tamanho do módulo
+    bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31); // correção M
+    bytes.push(GS, 0x28, 0x6b, length % 256, Math.floor(length / 256), 0x31, 0x50, 0x30, ...data);
+    bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+  }
+
+  // Avança e corta o papel
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0x00);
+  return bytes;
+}
+
+export const renderEscPos = (badges: BadgeData[], template: BadgeTemplate) =>
+  new Uint8Array(badges.flatMap(b => renderEscPosTicket(b, template)));
+
+// --- ENVIO PARA A PONTE ---
+
+// Lança erro se a ponte não responder (o chamador volta para a impressão pelo navegador)
+export async function printViaBridge(badges: BadgeData[], template: BadgeTemplate, settings: PrintBridgeSettings) {
+  const body = settings.language === 'zpl' ? renderZpl(badges, template, settings.dpi) : renderEscPos(badges, template);
+  const response = await fetch(settings.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': settings.language === 'zpl' ? 'text/plain; charset=utf-8' : 'application/octet-stream',
+      'X-Print-Language': settings.language
+    },
+    body,
+    signal: AbortSignal.timeout(4000)
+  });
+  if (!response.ok) throw new Error(`Print bridge responded ${response.status}`);
+}
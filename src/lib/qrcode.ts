@@ -0,0 +1,127 @@
+// --- QR CODE LOCAL (sem serviço externo) ---
+// Os QR são desenhados no navegador pelo react-qr-code; aqui ficam o nível de
+// correção e a exportação em SVG/PNG para material impresso.
+
+import jsQR from 'jsqr';
+
+export type QrLevel = 'L' | 'M' | 'Q' | 'H';
+
+export const QR_LEVEL_LABELS: Record<QrLevel, string> = {
+  L: 'Baixa (7%)',
+  M: 'Média (15%)',
+  Q: 'Alta (25%)',
+  H: 'Máxima (30%)'
+};
+
+// Lado do logo central em relação ao QR; com logo a correção sobe para H
+// para o código continuar legível com o miolo coberto
+export const QR_LOGO_RATIO = 0.22;
+
+export const qrLevelFor = (level: QrLevel, withLogo: boolean): QrLevel => withLogo ? 'H' : level;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Logo embutido como data URL para o arquivo baixado funcionar sozinho
+async function toDataUrl(url: string) {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Copia o SVG da tela no tamanho pedido, com o logo no centro (se houver)
+export async function buildQrSvg(svg: SVGSVGElement, size: number, logoUrl?: string | null) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(size));
+  clone.setAttribute('height', String(size));
+  clone.removeAttribute('style');
+
+  if (logoUrl) {
+    const href = await toDataUrl(logoUrl).catch(() => null);
+    if (href) {
+      const modules = clone.viewBox.baseVal.width;
+      const side = modules * QR_LOGO_RATIO;
+      const pos = (modules - side) / 2;
+      const pad = side * 0.08;
+      const rect = document.createElementNS(SVG_NS, 'rect');
+      rect.setAttribute('x', String(pos - pad));
+      rect.setAttribute('y', String(pos - pad));
+      rect.setAttribute('width', String(side + pad * 2));
+      rect.setAttribute('height', String(side + pad * 2));
+      rect.setAttribute('fill', '#FFFFFF');
+      const image = document.createElementNS(SVG_NS, 'image');
+      image.setAttribute('href', href);
+      image.setAttribute('x', String(pos));
+      image.setAttribute('y', String(pos));
+      image.setAttribute('width', String(side));
+      image.setAttribute('height', String(side));
+      image.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+      clone.append(rect, image);
+    }
+  }
+  return new XMLSerializer().serializeToString(clone);
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const safeFilename = (name: string) => name.replace(/[^\p{L}\p{N}]+/gu, '_');
+
+export async function downloadQrSvg(svg: SVGSVGElement, name: string, logoUrl?: string | null) {
+  const markup = await buildQrSvg(svg, 1024, logoUrl);
+  downloadBlob(new Blob([markup], { type: 'image/svg+xml' }), `${safeFilename(name)}.svg`);
+}
+
+// Rasteriza o QR com margem branca (quiet zone)
+async function renderQrCanvas(svg: SVGSVGElement, size: number, logoUrl?: string | null) {
+  const markup = await buildQrSvg(svg, size, logoUrl);
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  await image.decode();
+
+  const margin = Math.round(size * 0.06);
+  const canvas = document.createElement('canvas');
+  canvas.width = size + margin * 2;
+  canvas.height = size + margin * 2;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, margin, margin, size, size);
+  return canvas;
+}
+
+// PNG para impressão
+export async function downloadQrPng(svg: SVGSVGElement, name: string, logoUrl?: string | null, size = 1024) {
+  const canvas = await renderQrCanvas(svg, size, logoUrl);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (blob) downloadBlob(blob, `${safeFilename(name)}.png`);
+}
+
+// Lê de volta o QR desenhado (com logo, se houver), como faria a câmera
+export async function decodeQrSvg(svg: SVGSVGElement, logoUrl?: string | null) {
+  const canvas = await renderQrCanvas(svg, 512, logoUrl);
+  const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(data, width, height)?.data ?? null;
+}
+
+// events.qr_style
+export interface QrStyle {
+  level: QrLevel;
+  logo: boolean;
+}
+
+export const DEFAULT_QR_STYLE: QrStyle = { level: 'M', logo: false };
+
+export const resolveQrStyle = (value: Partial<QrStyle> | null | undefined): QrStyle =>
+  ({ ...DEFAULT_QR_STYLE, ...(value || {}) });
@@ -0,0 +1,46 @@
+import type { CheckinRecord } from '@/lib/checkin';
+import type { OutboxEntry } from '@/lib/offlineStore';
+
+// --- SESSÕES (dias, salas, trilhas paralelas) ---
+
+export interface EventSession {
+  id: string;
+  event_id: string;
+  name: string;
+  room: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  capacity: number | null;
+}
+
+export const formatSessionTime = (session: EventSession) => {
+  const start = new Date(session.starts_at);
+  const day = start.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+  const from = start.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  const to = session.ends_at ? new Date(session.ends_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : '';
+  return `${day} ${from}${to ? `–${to}` : ''}`;
+};
+
+// Quem está presente em cada sessão: última entrada/saída por pessoa, mais as pendências offline
+export function buildSessionPresence(checkins: CheckinRecord[], pending: OutboxEntry[] = []) {
+  const latest = new Map<string, { at: string; in: boolean }>();
+  checkins.forEach(c => {
+    const personId = c.guest_id || c.staff_id;
+    if (!c.session_id || !personId) return;
+    const key = `${c.session_id}:${personId}`;
+    const current = latest.get(key);
+    if (!current || current.at <= c.occurred_at) latest.set(key, { at: c.occurred_at, in: c.direction === 'in' });
+  });
+  pending.filter(e => e.session_id).forEach(e => {
+    latest.set(`${e.session_id}:${e.record_id}`, { at: e.checkin_time || e.queued_at, in: e.checked_in });
+  });
+
+  const presence = new Map<string, Set<string>>();
+  latest.forEach((state, key) => {
+    if (!state.in) return;
+    const [sessionId, personId] = key.split(':');
+    if (!presence.has(sessionId)) presence.set(sessionId, new Set());
+    presence.get(sessionId)!.add(personId);
+  });
+  return presence;
+}
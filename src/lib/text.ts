@@ -0,0 +1,45 @@
+// --- FUNÇÃO PARA NORMALIZAR TEXTO (remover acentos para busca) ---
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+};
+
+// --- FUNÇÃO DE NOME INTELIGENTE (1º Nome + 2 Sobrenomes) ---
+export const formatNameForBadge = (fullName: string) => {
+  if (!fullName) return "";
+  
+  const prepositions = ["da", "de", "do", "das", "dos", "e"];
+  const parts = fullName.trim().split(/\s+/);
+  
+  if (parts.length <= 3) {
+    return parts.map((word, index) => {
+      const lower = word.toLowerCase();
+      if (prepositions.includes(lower) && index !== 0) return lower;
+      return lower.charAt(0).toUpperCase() + lower.slice(1);
+    }).join(' ');
+  }
+
+  const formattedName: string[] = [];
+  let surnamesCount = 0;
+
+  for (let i = 0; i < parts.length; i++) {
+    const word = parts[i].toLowerCase();
+    
+    let displayWord = word;
+    if (!prepositions.includes(word) || i === 0) {
+      displayWord = word.charAt(0).toUpperCase() + word.slice(1);
+    }
+
+    formattedName.push(displayWord);
+
+    if (i > 0 && !prepositions.includes(word)) {
+      surnamesCount++;
+    }
+
+    if (surnamesCount >= 2) break;
+  }
+  
+  return formattedName.join(' ');
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CustomField } from '@/lib/guestFields';
+import { customItemKey, missingWalkinAnswers, resolveWalkinForm, walkinGuestData } from '@/lib/walkinForm';
+
+const customFields: CustomField[] = [
+  { id: 'setor', label: 'Setor', type: 'select', options: ['Vendas', 'TI'] },
+  { id: 'lgpd', label: 'Aceito receber novidades', type: 'checkbox', options: [] }
+];
+
+const form = resolveWalkinForm([
+  { key: 'email', required: true },
+  { key: 'company', required: false },
+  { key: customItemKey('setor'), required: true },
+  { key: customItemKey('lgpd'), required: true }
+], customFields);
+
+describe('resolveWalkinForm', () => {
+  it('usa nome + empresa opcional quando o evento não configurou o formulário', () => {
+    expect(resolveWalkinForm(null, customFields).map(i => [i.key, i.required, i.label])).toEqual([['company', false, 'Empresa']]);
+  });
+
+  it('resolve campos padrão e personalizados com rótulo e tipo', () => {
+    expect(form.map(i => [i.label, i.inputType, i.standard, i.custom?.id ?? null])).toEqual([
+      ['E-mail', 'email', 'email', null],
+      ['Empresa', 'text', 'company', null],
+      ['Setor', 'text', null, 'setor'],
+      ['Aceito receber novidades', 'text', null, 'lgpd']
+    ]);
+  });
+
+  it('descarta campos personalizados apagados', () => {
+    const items = resolveWalkinForm([{ key: 'phone', required: false }, { key: customItemKey('removido'), required: true }], customFields);
+    expect(items.map(i => i.key)).toEqual(['phone']);
+  });
+});
+
+describe('missingWalkinAnswers', () => {
+  it('lista os obrigatórios vazios ou só com espaços', () => {
+    expect(missingWalkinAnswers(form, { email: '  ', [customItemKey('lgpd')]: true })).toEqual(['E-mail', 'Setor']);
+  });
+
+  it('exige checkbox obrigatório marcado', () => {
+    const answers = { email: 'maria@example.com', [customItemKey('setor')]: 'TI' };
+    expect(missingWalkinAnswers(form, answers)).toEqual(['Aceito receber novidades']);
+    expect(missingWalkinAnswers(form, { ...answers, [customItemKey('lgpd')]: false })).toEqual(['Aceito receber novidades']);
+    expect(missingWalkinAnswers(form, { ...answers, [customItemKey('lgpd')]: true })).toEqual([]);
+  });
+});
+
+describe('walkinGuestData', () => {
+  it('separa colunas do convidado e custom_data', () => {
+    const data = walkinGuestData(form, {
+      email: ' Maria@Example.COM ',
+      company: '',
+      [customItemKey('setor')]: ' TI ',
+      [customItemKey('lgpd')]: true
+    });
+    expect(data).toEqual({
+      email: 'maria@example.com',
+      company: null,
+      custom_data: { setor: 'TI', lgpd: true }
+    });
+  });
+
+  it('não grava personalizados sem resposta', () => {
+    expect(walkinGuestData(form, { email: 'a@b.com' }).custom_data).toEqual({});
+  });
+});
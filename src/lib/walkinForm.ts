@@ -0,0 +1,65 @@
+import { CustomField } from '@/lib/guestFields';
+
+// --- FORMULÁRIO DE WALK-IN (/guest/:id, quem não está na lista) ---
+// O nome é sempre pedido; os demais campos são escolhidos por evento.
+// Campos padrão vão para a coluna do convidado; personalizados para custom_data.
+
+export type WalkinStandardField = 'company' | 'role' | 'email' | 'phone' | 'document';
+
+export interface WalkinFormItem {
+  // Campo padrão ou 'custom:<id do campo personalizado>'
+  key: string;
+  required: boolean;
+}
+
+export const WALKIN_STANDARD_FIELDS: Record<WalkinStandardField, { label: string; placeholder: string; inputType: string }> = {
+  company: { label: 'Empresa', placeholder: 'Ex: Floripa Square', inputType: 'text' },
+  role: { label: 'Cargo', placeholder: 'Ex: Gerente de Marketing', inputType: 'text' },
+  email: { label: 'E-mail', placeholder: 'voce@empresa.com', inputType: 'email' },
+  phone: { label: 'Telefone', placeholder: '(48) 99999-9999', inputType: 'tel' },
+  document: { label: 'CPF', placeholder: '000.000.000-00', inputType: 'text' }
+};
+
+// Mesmo formulário de antes: nome + empresa opcional
+export const DEFAULT_WALKIN_FORM: WalkinFormItem[] = [{ key: 'company', required: false }];
+
+export const customItemKey = (fieldId: string) => `custom:${fieldId}`;
+
+export interface ResolvedWalkinItem extends WalkinFormItem {
+  label: string;
+  placeholder: string;
+  inputType: string;
+  standard: WalkinStandardField | null;
+  custom: CustomField | null;
+}
+
+// Descarta itens de campos personalizados que foram apagados
+export function resolveWalkinForm(items: WalkinFormItem[] | null | undefined, customFields: CustomField[]): ResolvedWalkinItem[] {
+  return (items || DEFAULT_WALKIN_FORM).flatMap(item => {
+    if (item.key in WALKIN_STANDARD_FIELDS) {
+      const standard = item.key as WalkinStandardField;
+      return [{ ...item, ...WALKIN_STANDARD_FIELDS[standard], standard, custom: null }];
+    }
+    const custom = customFields.find(f => customItemKey(f.id) === item.key);
+    return custom ? [{ ...item, label: custom.label, placeholder: '', inputType: 'text', standard: null, custom }] : [];
+  });
+}
+
+export type WalkinAnswers = Record<string, string | boolean>;
+
+// Rótulos dos obrigatórios sem resposta (checkbox obrigatório = consentimento marcado)
+export const missingWalkinAnswers = (items: ResolvedWalkinItem[], answers: WalkinAnswers) =>
+  items.filter(i => i.required && (i.custom?.type === 'checkbox' ? answers[i.key] !== true : !String(answers[i.key] ?? '').trim())).map(i => i.label);
+
+// Respostas -> colunas do convidado + custom_data
+export function walkinGuestData(items: ResolvedWalkinItem[], answers: WalkinAnswers) {
+  const data: Record<string, string | null> = {};
+  const customData: Record<string, string | boolean> = {};
+  items.forEach(i => {
+    const value = answers[i.key];
+    if (i.standard) data[i.standard] = String(value ?? '').trim() || null;
+    else if (i.custom && value !== undefined && value !== '') customData[i.custom.id] = typeof value === 'string' ? value.trim() : value;
+  });
+  if (data.email) data.email = data.email.toLowerCase();
+  return { ...data, custom_data: customData };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildWifiPayload, parseWifiPayload, sameWifiNetwork, WifiNetwork } from '@/lib/wifi';
+
+const network = (overrides: Partial<WifiNetwork> = {}): WifiNetwork => ({
+  ssid: 'Evento',
+  password: 'senha123',
+  security: 'WPA',
+  hidden: false,
+  ...overrides
+});
+
+describe('buildWifiPayload', () => {
+  it('monta o formato WIFI: com segurança, rede e senha', () => {
+    expect(buildWifiPayload(network())).toBe('WIFI:T:WPA;S:Evento;P:senha123;;');
+  });
+
+  it('escapa \\ ; , : e " na rede e na senha', () => {
+    const payload = buildWifiPayload(network({ ssid: 'Sala "A"; 1', password: 'a\\b,c:d' }));
+    expect(payload).toBe('WIFI:T:WPA;S:Sala \\"A\\"\\; 1;P:a\\\\b\\,c\\:d;;');
+  });
+
+  it('omite a senha nas redes abertas', () => {
+    expect(buildWifiPayload(network({ security: 'nopass', password: 'ignorada' }))).toBe('WIFI:T:nopass;S:Evento;;');
+  });
+
+  it('marca a rede oculta', () => {
+    expect(buildWifiPayload(network({ hidden: true }))).toBe('WIFI:T:WPA;S:Evento;P:senha123;H:true;;');
+  });
+});
+
+describe('parseWifiPayload', () => {
+  it.each([
+    ['WPA', network()],
+    ['WPA3', network({ security: 'SAE' })],
+    ['WEP', network({ security: 'WEP', password: '12345' })],
+    ['aberta', network({ security: 'nopass', password: '' })],
+    ['oculta', network({ hidden: true })],
+    ['com caracteres especiais', network({ ssid: 'Café; "Bar", 2:3 \\', password: ';;\\:,"' })]
+  ])('lê de volta a rede %s', (_, wifi) => {
+    expect(parseWifiPayload(buildWifiPayload(wifi))).toEqual(wifi);
+  });
+
+  it('recusa textos que não são WIFI: ou não têm rede', () => {
+    expect(parseWifiPayload('https://example.com')).toBeNull();
+    expect(parseWifiPayload('WIFI:T:WPA;P:senha;;')).toBeNull();
+  });
+
+  it('trata segurança desconhecida como WPA e ausente como aberta', () => {
+    expect(parseWifiPayload('WIFI:T:WPA2;S:Evento;P:senha;;')?.security).toBe('WPA');
+    expect(parseWifiPayload('WIFI:S:Evento;;')?.security).toBe('nopass');
+  });
+});
+
+describe('sameWifiNetwork', () => {
+  it('compara rede, segurança, ocultação e senha', () => {
+    expect(sameWifiNetwork(network(), network())).toBe(true);
+    expect(sameWifiNetwork(network(), network({ ssid: 'Outra' }))).toBe(false);
+    expect(sameWifiNetwork(network(), network({ security: 'SAE' }))).toBe(false);
+    expect(sameWifiNetwork(network(), network({ hidden: true }))).toBe(false);
+    expect(sameWifiNetwork(network(), network({ password: 'outra' }))).toBe(false);
+  });
+
+  it('ignora a senha nas redes abertas', () => {
+    expect(sameWifiNetwork(network({ security: 'nopass', password: 'a' }), network({ security: 'nopass', password: '' }))).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+// --- QR DE WI-FI (formato WIFI:) ---
+// Formato lido pelas câmeras do Android e do iOS:
+//   WIFI:T:<segurança>;S:<rede>;P:<senha>;H:true;;
+// \ ; , : e " dentro da rede ou da senha precisam de barra invertida.
+
+export type WifiSecurity = 'WPA' | 'SAE' | 'WEP' | 'nopass';
+
+export const WIFI_SECURITY_LABELS: Record<WifiSecurity, string> = {
+  WPA: 'WPA / WPA2',
+  SAE: 'WPA3',
+  WEP: 'WEP',
+  nopass: 'Aberta (sem senha)'
+};
+
+export interface WifiNetwork {
+  ssid: string;
+  password: string;
+  security: WifiSecurity;
+  hidden: boolean;
+}
+
+const escapeWifi = (value: string) => value.replace(/([\\;,:"])/g, '\\$1');
+
+export function buildWifiPayload({ ssid, password, security, hidden }: WifiNetwork) {
+  const parts = [`T:${security}`, `S:${escapeWifi(ssid)}`];
+  if (security !== 'nopass') parts.push(`P:${escapeWifi(password)}`);
+  if (hidden) parts.push('H:true');
+  return `WIFI:${parts.join(';')};;`;
+}
+
+// Caminho inverso, para conferir o que o celular vai ler
+export function parseWifiPayload(payload: string): WifiNetwork | null {
+  if (!payload.startsWith('WIFI:')) return null;
+  const fields: Record<string, string> = {};
+  let key = '';
+  let value = '';
+  let readingKey = true;
+  for (let i = 5; i < payload.length; i++) {
+    const char = payload[i];
+    if (char === '\\' && !readingKey && i + 1 < payload.length) {
+      value += payload[++i];
+    } else if (readingKey) {
+      if (char === ':') readingKey = false;
+      else if (char !== ';') key += char;
+    } else if (char === ';') {
+      fields[key] = value;
+      key = '';
+      value = '';
+      readingKey = true;
+    } else {
+      value += char;
+    }
+  }
+  if (fields.S === undefined) return null;
+  const security = (Object.keys(WIFI_SECURITY_LABELS) as WifiSecurity[]).find(s => s === fields.T) || (fields.T ? 'WPA' : 'nopass');
+  return { ssid: fields.S, password: fields.P || '', security, hidden: fields.H === 'true' };
+}
+
+export const sameWifiNetwork = (a: WifiNetwork, b: WifiNetwork) =>
+  a.ssid === b.ssid && a.security === b.security && a.hidden === b.hidden && (a.security === 'nopass' || a.password === b.password);
+
+// Dados do evento -> rede (sem SSID não há QR)
+export function eventWifiNetwork(event: { wifi_ssid: string | null; wifi_pass: string | null; wifi_security?: WifiSecurity | null; wifi_hidden?: boolean | null }): WifiNetwork | null {
+  if (!event.wifi_ssid) return null;
+  return {
+    ssid: event.wifi_ssid,
+    password: event.wifi_pass || '',
+    security: event.wifi_security || (event.wifi_pass ? 'WPA' : 'nopass'),
+    hidden: !!event.wifi_hidden
+  };
+}
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Star, UserCheck, Users } from "lucide-react";
+import { GuestCategory, DEFAULT_GUEST_CATEGORIES, findCategory } from "@/lib/categories";
+import { ArrivalsWall as ArrivalsWallData, fetchArrivalsWall } from "@/lib/arrivals";
+
+interface EventData {
+  name: string;
+  event_logo_url: string | null;
+  primary_color: string | null;
+  guest_categories: GuestCategory[] | null;
+}
+
+// Realtime às vezes cai em redes de evento; a lista também é recarregada de tempos em tempos
+const REFRESH_MS = 60 * 1000;
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+
+export default function ArrivalsWall() {
+  const { id } = useParams<{ id: string }>();
+  const [event, setEvent] = useState<EventData | null>(null);
+  const [wall, setWall] = useState<ArrivalsWallData | null>(null);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+  const wallEnabled = !!wall?.enabled;
+
+  const loadWall = async (eventId: string) => {
+    const { wall } = await fetchArrivalsWall(eventId);
+    if (wall) setWall(wall);
+  };
+
+  useEffect(() => {
+    if (!id) return;
+    async function fetchEvent() {
+      const { data } = await supabase.from("events").select("name, event_logo_url, primary_color, guest_categories").eq("id", id).single();
+      if (data) setEvent(data as EventData);
+    }
+
+    fetchEvent();
+    loadWall(id);
+    // Também percebe quando o painel é ativado ou desativado
+    const interval = setInterval(() => loadWall(id), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [id]);
+
+  // Só com o painel ativo: o sinal traz apenas o evento e a hora, sem dados de convidados
+  useEffect(() => {
+    if (!id || !wallEnabled) return;
+    // Vários check-ins seguidos viram uma única consulta
+    const scheduleLoad = () => {
+      clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(() => loadWall(id), 1000);
+    };
+
+    const channel = supabase.channel(`arrivals-${id}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "event_arrival_signals", filter: `event_id=eq.${id}` }, scheduleLoad)
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+      clearTimeout(refreshTimer.current);
+    };
+  }, [id, wallEnabled]);
+
+  if (!event || !wall) return <div className="h-screen bg-black flex items-center justify-center text-white">Carregando...</div>;
+
+  if (!wall.enabled) {
+    return (
+      <div className="h-screen bg-black flex flex-col items-center justify-center gap-4 text-center p-8">
+        <p className="text-3xl font-bold text-white">{event.name}</p>
+        <p className="text-gray-500">O painel de chegadas está desativado para este evento.</p>
+      </div>
+    );
+  }
+
+  const primaryColor = event.primary_color || "#f37021";
+  const categories = event.guest_categories || DEFAULT_GUEST_CATEGORIES;
+  const [latest, ...previous] = wall.arrivals;
+  const progress = wall.invited > 0 ? Math.min(100, (wall.present / wall.invited) * 100) : 0;
+
+  const renderAvatar = (name: string, category: GuestCategory | null, size: string) => (
+    <div
+      className={`${size} rounded-full flex items-center justify-center text-white font-black shrink-0`}
+      style={{ backgroundColor: category?.highlight ? category.color : primaryColor }}
+    >
+      {category?.highlight ? <Star className="h-1/2 w-1/2 fill-current" /> : name.charAt(0).toUpperCase()}
+    </div>
+  );
+
+  return (
+    <div className="h-screen bg-black flex flex-col p-12 gap-10 border-[20px] border-[#111] overflow-hidden">
+      {/* Cabeçalho com a marca do evento */}
+      <div className="flex items-center justify-between gap-8">
+        <div className="flex items-center gap-6 min-w-0">
+          {event.event_logo_url && <img src={event.event_logo_url} alt="Logo" className="h-20 w-auto object-contain" />}
+          <div className="min-w-0">
+            <p className="text-gray-500 text-sm uppercase tracking-[0.3em] font-bold">Chegadas</p>
+            <h1 className="text-4xl font-black text-white tracking-tight uppercase truncate">{event.name}</h1>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <div className="h-3 w-3 rounded-full animate-pulse" style={{ backgroundColor: primaryColor }} />
+          <span className="text-sm uppercase tracking-widest font-bold text-gray-500">Ao vivo</span>
+        </div>
+      </div>
+
+      {/* Contador e progresso até o total de convidados */}
+      <div className="bg-[#1A1A1A] rounded-2xl border border-gray-800 p-8 space-y-4">
+        <div className="flex items-end justify-between gap-8">
+          <div className="flex items-center gap-4">
+            <UserCheck size={40} style={{ color: primaryColor }} />
+            <p className="text-7xl font-black text-white tabular-nums">{wall.present}</p>
+            <p className="text-2xl text-gray-500 font-bold uppercase tracking-widest">presentes</p>
+          </div>
+          {wall.invited > 0 && (
+            <div className="flex items-center gap-3 text-gray-500">
+              <Users size={28} />
+              <p className="text-2xl font-bold tabular-nums">{Math.round(progress)}% de {wall.invited} convidados</p>
+            </div>
+          )}
+        </div>
+        {wall.invited > 0 && (
+          <div className="h-4 rounded-full bg-[#333] overflow-hidden">
+            <div className="h-full rounded-full transition-all duration-1000" style={{ width: `${progress}%`, backgroundColor: primaryColor }} />
+          </div>
+        )}
+      </div>
+
+      {!latest ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-center">
+          <p className="text-4xl font-bold text-white">Aguardando as primeiras chegadas...</p>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col gap-8 min-h-0">
+          {/* Chegada mais recente em destaque */}
+          <div
+            key={`${latest.id}-${latest.checkin_time}`}
+            className="rounded-3xl border-2 p-8 flex items-center gap-8 animate-in fade-in zoom-in-95 duration-700"
+            style={{ borderColor: primaryColor, boxShadow: `0 0 60px ${primaryColor}40` }}
+          >
+            {renderAvatar(latest.name, findCategory(categories, latest.category), "h-28 w-28 text-5xl")}
+            <div className="flex-1 min-w-0">
+              <p className="text-6xl font-black text-white tracking-tight truncate">{latest.name}</p>
+              {latest.company && <p className="text-3xl text-gray-400 truncate mt-2">{latest.company}</p>}
+            </div>
+            <p className="text-3xl font-mono font-bold shrink-0" style={{ color: primaryColor }}>{formatTime(latest.checkin_time)}</p>
+          </div>
+
+          <div className="grid grid-cols-2 xl:grid-cols-3 gap-4 content-start overflow-hidden">
+            {previous.map(arrival => (
+              <div key={`${arrival.id}-${arrival.checkin_time}`} className="bg-[#1A1A1A] border border-gray-800 rounded-2xl p-5 flex items-center gap-4 animate-fade-in">
+                {renderAvatar(arrival.name, findCategory(categories, arrival.category), "h-14 w-14 text-2xl")}
+                <div className="flex-1 min-w-0">
+                  <p className="text-2xl font-bold text-white truncate">{arrival.name}</p>
+                  {arrival.company && <p className="text-lg text-gray-500 truncate">{arrival.company}</p>}
+                </div>
+                <p className="text-lg font-mono text-gray-500 shrink-0">{formatTime(arrival.checkin_time)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import { Badge } from '@/components/ui/badge';
 // ESTAS LINHAS VOLTARAM (IMPORTANTE)
 import UserManagement from '@/components/admin/UserManagement';
 import AccessCodeManagement from '@/components/admin/AccessCodeManagement';
+import NotificationBell from '@/components/NotificationBell';
 
 interface Event {
   id: string;
@@ -181,10 +182,13 @@ export default function Dashboard() {
             <span className="font-semibold text-lg text-foreground">{companySettings.name}</span>
             {getRoleBadge()}
           </div>
-          <Button variant="ghost" size="sm" onClick={handleLogout} className="text-muted-foreground hover:text-foreground">
-            <LogOut className="h-4 w-4 mr-2" />
-            Sair
-          </Button>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <Button variant="ghost" size="sm" onClick={handleLogout} className="text-muted-foreground hover:text-foreground">
+              <LogOut className="h-4 w-4 mr-2" />
+              Sair
+            </Button>
+          </div>
         </div>
       </header>
 
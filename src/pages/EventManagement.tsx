@@ -14,10 +14,62 @@ import {
   ArrowLeft, Search, Upload, Plus, Download, Settings,
   Printer, Users, UserCheck, Loader2, ExternalLink, Trash2, Pencil,
   Monitor, Wifi, History, Clock, Image as ImageIcon, Smartphone, QrCode,
-  Minus, PlusIcon, Type, RotateCcw, HardHat, Bell, BellRing, Volume2
+  Minus, PlusIcon, HardHat, Bell, BellRing, Volume2, ScanLine,
+  WifiOff, RefreshCw, Star, FileSpreadsheet, FileText, ShieldCheck, UserX, Mail, Hourglass, Tv
 } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Slider } from '@/components/ui/slider';
 import * as XLSX from 'xlsx';
+import { formatNameForBadge, normalizeText } from '@/lib/text';
+import QrCodeDisplay from '@/components/QrCodeDisplay';
+import QrScanner from '@/components/event/QrScanner';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { performCheckin, describeConflict, describeFull, CheckinRecord, CheckinResult, CheckinSource } from '@/lib/checkin';
+import { CAPACITY_MODE_LABELS, CapacityMode, OCCUPANCY_CLASSES, occupancyLevel } from '@/lib/capacity';
+import { QR_LEVEL_LABELS, QrLevel, QrStyle, resolveQrStyle } from '@/lib/qrcode';
+import WifiQrTest from '@/components/event/WifiQrTest';
+import { WIFI_SECURITY_LABELS, WifiSecurity, eventWifiNetwork } from '@/lib/wifi';
+import TotemKioskSettings from '@/components/event/TotemKioskSettings';
+import { KioskSettings, resolveKioskSettings } from '@/lib/kiosk';
+import ArrivalsDisplaySettings from '@/components/event/ArrivalsDisplaySettings';
+import { ArrivalsWallSettings, resolveArrivalsWallSettings } from '@/lib/arrivals';
+import CheckinTimeline from '@/components/event/CheckinTimeline';
+import SessionManager from '@/components/event/SessionManager';
+import { EventSession, buildSessionPresence, formatSessionTime } from '@/lib/sessions';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import CategoryManager from '@/components/event/CategoryManager';
+import { GuestCategory, DEFAULT_GUEST_CATEGORIES, findCategory, safeCategoryColor } from '@/lib/categories';
+import BadgePreview from '@/components/event/BadgePreview';
+import BadgeDesigner from '@/components/event/BadgeDesigner';
+import BatchPrintBar, { PrintFilter } from '@/components/event/BatchPrintBar';
+import { Checkbox } from '@/components/ui/checkbox';
+import ImportWizard from '@/components/event/ImportWizard';
+import { ImportResult } from '@/lib/guestImport';
+import CustomFieldManager from '@/components/event/CustomFieldManager';
+import CustomFieldInputs from '@/components/event/CustomFieldInputs';
+import { CustomData, CustomField, customDataText, formatCustomValue, formatDocument } from '@/lib/guestFields';
+import WalkinFormBuilder from '@/components/event/WalkinFormBuilder';
+import { DEFAULT_WALKIN_FORM, WalkinFormItem } from '@/lib/walkinForm';
+import PrivacySettings from '@/components/event/PrivacySettings';
+import InvitationDialog from '@/components/event/InvitationDialog';
+import { InvitationTemplate, RSVP_LABELS, RsvpStatus, resolveInvitationTemplate } from '@/lib/invitations';
+import CheckinNotificationSettings from '@/components/event/CheckinNotificationSettings';
+import GuestWatchers from '@/components/event/GuestWatchers';
+import { GuestWatcher, NotificationSettings, resolveNotificationSettings, toggleOwnWatch } from '@/lib/notifications';
+import NotificationBell from '@/components/NotificationBell';
+import {
+  ConsentSettings, DEFAULT_CONSENT, GuestConsent, anonymizeEvent, anonymizeGuest, exportGuestData, nextConsentVersion, resolveConsent
+} from '@/lib/consent';
+import { ReportInput, buildEventReport, buildReportWorkbook, renderReportDocument } from '@/lib/eventReport';
+import PrintBridgeSettings from '@/components/event/PrintBridgeSettings';
+import { PrintBridgeSettings as BridgeSettings, loadPrintBridgeSettings, savePrintBridgeSettings, printViaBridge } from '@/lib/printBridge';
+import { BadgeData, BadgeTemplate, DEFAULT_BADGE_TEMPLATE, resolveBadgeTemplate } from '@/lib/badge';
+import { printBadges as printBadgeDocuments, printViaIframe } from '@/lib/badgePrint';
+import {
+  OutboxEntry, OfflineTable, saveSnapshot, loadSnapshot, enqueueCheckin, listOutbox,
+  removeOutboxEntry, applyPendingCheckins, isNetworkError
+} from '@/lib/offlineStore';
 
 // --- INTERFACES ---
 interface Event {
@@ -26,6 +78,8 @@ interface Event {
   date: string;
   wifi_ssid: string | null;
   wifi_pass: string | null;
+  wifi_security: WifiSecurity;
+  wifi_hidden: boolean;
   wifi_img_url: string | null;
   photo_url: string | null;
   photo_img_url: string | null;
@@ -34,6 +88,21 @@ interface Event {
   secondary_color: string | null;
   tertiary_color: string | null;
   event_logo_size: number | null;
+  allow_walkins: boolean;
+  guest_categories: GuestCategory[] | null;
+  badge_template: Partial<BadgeTemplate> | null;
+  custom_fields: CustomField[] | null;
+  walkin_form: WalkinFormItem[] | null;
+  consent: Partial<ConsentSettings> | null;
+  retention_days: number | null;
+  anonymized_at: string | null;
+  invitation_template: Partial<InvitationTemplate> | null;
+  notification_settings: Partial<NotificationSettings> | null;
+  capacity: number | null;
+  capacity_mode: CapacityMode;
+  qr_style: Partial<QrStyle> | null;
+  kiosk_settings: Partial<KioskSettings> | null;
+  arrivals_wall: Partial<ArrivalsWallSettings> | null;
 }
 
 interface Guest {
@@ -41,8 +110,24 @@ interface Guest {
   name: string;
   company: string | null;
   role: string | null;
+  category: string | null;
+  email: string | null;
+  phone: string | null;
+  document: string | null;
+  ticket_type: string | null;
+  is_walkin: boolean;
+  custom_data: CustomData | null;
+  consent: GuestConsent | null;
+  anonymized_at: string | null;
+  rsvp_status: RsvpStatus | null;
+  invited_at: string | null;
+  waitlisted_at: string | null;
   checked_in: boolean;
   checkin_time: string | null;
+  checkin_token: string;
+  // QR da etiqueta impressa no totem (o totem não recebe o checkin_token)
+  badge_code: string | null;
+  badge_printed_at: string | null;
 }
 
 interface ActivityLog {
@@ -59,54 +144,9 @@ interface Staff {
   role: string | null;
   checked_in: boolean;
   checkin_time: string | null;
+  badge_printed_at: string | null;
 }
 
-// --- FUNÇÃO PARA NORMALIZAR TEXTO (remover acentos para busca) ---
-const normalizeText = (text: string): string => {
-  return text
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '');
-};
-
-// --- FUNÇÃO DE NOME INTELIGENTE (1º Nome + 2 Sobrenomes) ---
-const formatNameForBadge = (fullName: string) => {
-  if (!fullName) return "";
-  
-  const prepositions = ["da", "de", "do", "das", "dos", "e"];
-  const parts = fullName.trim().split(/\s+/);
-  
-  if (parts.length <= 3) {
-    return parts.map((word, index) => {
-      const lower = word.toLowerCase();
-      if (prepositions.includes(lower) && index !== 0) return lower;
-      return lower.charAt(0).toUpperCase() + lower.slice(1);
-    }).join(' ');
-  }
-
-  let formattedName = [];
-  let surnamesCount = 0;
-
-  for (let i = 0; i < parts.length; i++) {
-    let word = parts[i].toLowerCase();
-    
-    let displayWord = word;
-    if (!prepositions.includes(word) || i === 0) {
-      displayWord = word.charAt(0).toUpperCase() + word.slice(1);
-    }
-
-    formattedName.push(displayWord);
-
-    if (i > 0 && !prepositions.includes(word)) {
-      surnamesCount++;
-    }
-
-    if (surnamesCount >= 2) break;
-  }
-  
-  return formattedName.join(' ');
-};
-
 // --- UPLOAD BOX ---
 function UploadBox({ label, icon, previewUrl, onUpload }: { label: string, icon?: 'qr-code' | 'image', previewUrl?: string | null, onUpload: (url: string) => void }) {
   const inputRef = useRef<HTMLInputElement>(null);
@@ -146,29 +186,33 @@ function UploadBox({ label, icon, previewUrl, onUpload }: { label: string, icon?
 export default function EventManagement() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { user, loading: authLoading, isAdmin, isEquipe } = useAuth();
+  const { user, loading: authLoading, isAdmin, isEquipe, isRecepcao } = useAuth();
   const { toast } = useToast();
+  const isOnline = useOnlineStatus();
   
   const [event, setEvent] = useState<Event | null>(null);
   const [guests, setGuests] = useState<Guest[]>([]);
   const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
+  const [checkins, setCheckins] = useState<CheckinRecord[]>([]);
+  const [historyView, setHistoryView] = useState<'activity' | 'timeline'>('activity');
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  // '' = check-in no evento (geral); senão, id da sessão selecionada na recepção
+  const [activeSessionId, setActiveSessionId] = useState('');
   const [loading, setLoading] = useState(true);
   const [logsLoading, setLogsLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   
   const [addGuestOpen, setAddGuestOpen] = useState(false);
-  const [newGuest, setNewGuest] = useState({ name: '', company: '', role: '' });
+  const [newGuest, setNewGuest] = useState({ name: '', company: '', role: '', category: '', email: '', phone: '', document: '', ticket_type: '', custom_data: {} as CustomData });
+  const [categoryFilter, setCategoryFilter] = useState('all');
   const [adding, setAdding] = useState(false);
   const [previewGuest, setPreviewGuest] = useState<Guest | null>(null);
 
-  // Estados para ajuste de fonte da etiqueta (valores em pt)
-  const [nameFontSize, setNameFontSize] = useState(17);
-  const [companyFontSize, setCompanyFontSize] = useState(10);
-
   const [editGuestOpen, setEditGuestOpen] = useState(false);
   const [guestToEdit, setGuestToEdit] = useState<Guest | null>(null);
-  const [editFormData, setEditFormData] = useState({ name: '', company: '', role: '' });
+  const [watchers, setWatchers] = useState<GuestWatcher[]>([]);
+  const [editFormData, setEditFormData] = useState({ name: '', company: '', role: '', category: '', email: '', phone: '', document: '', ticket_type: '', custom_data: {} as CustomData });
 
   // Estados para Equipe
   const [staff, setStaff] = useState<Staff[]>([]);
@@ -180,19 +224,51 @@ export default function EventManagement() {
   const [editStaffFormData, setEditStaffFormData] = useState({ name: '', role: '' });
   const [previewStaff, setPreviewStaff] = useState<Staff | null>(null);
 
+  // Impressão em lote de etiquetas
+  const [selectedGuestIds, setSelectedGuestIds] = useState<Set<string>>(new Set());
+  const [selectedStaffIds, setSelectedStaffIds] = useState<Set<string>>(new Set());
+  const [guestPrintFilter, setGuestPrintFilter] = useState<PrintFilter>('all');
+  const [staffPrintFilter, setStaffPrintFilter] = useState<PrintFilter>('all');
+
+  // Impressora térmica local (configuração por máquina)
+  const [printBridge, setPrintBridge] = useState<BridgeSettings>(loadPrintBridgeSettings);
+  const [printerOpen, setPrinterOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [invitationOpen, setInvitationOpen] = useState(false);
+
+  // Scanner de QR pessoal (recepção) e QR individual do convidado
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [scanResult, setScanResult] = useState<{ status: 'ok' | 'already' | 'invalid'; name?: string } | null>(null);
+  const [qrGuest, setQrGuest] = useState<Guest | null>(null);
+
+  // Modo offline: fila de check-ins aguardando sincronização
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  // Versão atual de flushOutbox para o efeito de reconexão (que só depende de estar online)
+  const flushOutboxRef = useRef<() => Promise<void>>();
+
   // Feed ao vivo de check-ins
   interface LiveCheckIn {
     id: string;
     name: string;
     company: string;
+    category: string | null;
     time: Date;
   }
   const [liveCheckins, setLiveCheckins] = useState<LiveCheckIn[]>([]);
   const previousGuestsRef = useRef<Map<string, boolean>>(new Map());
 
   const [eventSettings, setEventSettings] = useState({
-    name: '', date: '', wifi_ssid: '', wifi_pass: '', photo_url: '', wifi_img_url: '', photo_img_url: '',
-    event_logo_url: '', primary_color: '#f37021', secondary_color: '', tertiary_color: '', event_logo_size: 150
+    name: '', date: '', wifi_ssid: '', wifi_pass: '', wifi_security: 'WPA' as WifiSecurity, wifi_hidden: false, photo_url: '', wifi_img_url: '', photo_img_url: '',
+    event_logo_url: '', primary_color: '#f37021', secondary_color: '', tertiary_color: '', event_logo_size: 150,
+    allow_walkins: true, guest_categories: DEFAULT_GUEST_CATEGORIES, badge_template: DEFAULT_BADGE_TEMPLATE,
+    custom_fields: [] as CustomField[], walkin_form: DEFAULT_WALKIN_FORM,
+    consent: DEFAULT_CONSENT, retention_days: null as number | null,
+    notification_settings: resolveNotificationSettings(null),
+    capacity: null as number | null, capacity_mode: 'block' as CapacityMode,
+    qr_style: resolveQrStyle(null), kiosk_settings: resolveKioskSettings(null),
+    arrivals_wall: resolveArrivalsWallSettings(null)
   });
 
   const canImportExport = isAdmin || isEquipe;
@@ -201,34 +277,72 @@ export default function EventManagement() {
   const canAccessSettings = isAdmin || isEquipe;
   const canAccessHistory = isAdmin || isEquipe;
 
-  const logActivity = async (action: string, details: string) => {
+  // guestId: linha sobre um convidado (apagada junto na anonimização)
+  const logActivity = async (action: string, details: string, guestId: string | null = null) => {
     if (!user || !id) return;
-    await supabase.from('activity_logs').insert({ event_id: id, user_id: user.id, user_email: user.email, action, details });
+    await supabase.from('activity_logs').insert({ event_id: id, guest_id: guestId, user_id: user.id, user_email: user.email, action, details });
   };
 
   useEffect(() => { if (!authLoading && !user) navigate('/auth'); }, [user, authLoading, navigate]);
-  useEffect(() => { if (id && user) { fetchEvent(); fetchGuests(true); fetchStaff(); subscribeToGuests(); subscribeToStaff(); } }, [id, user]);
+  useEffect(() => { if (id && user) { fetchEvent(); fetchGuests(true); fetchStaff(); fetchSessions(); fetchCheckins(); fetchWatchers(); subscribeToGuests(); subscribeToStaff(); subscribeToCheckins(); } }, [id, user]);
+  useEffect(() => { if (id && user && isOnline) flushOutboxRef.current?.(); }, [id, user, isOnline]);
 
   const fetchEvent = async () => {
-    const { data, error } = await supabase.from('events').select('*').eq('id', id).single();
+    let { data, error } = await supabase.from('events').select('*').eq('id', id).single();
+    if (error && isNetworkError(error)) {
+      const cached = await loadSnapshot<Event>(id!, 'event').catch(() => null);
+      if (cached?.[0]) { data = cached[0]; error = null; }
+    } else if (data) {
+      saveSnapshot(id!, 'event', [data]).catch(() => {});
+    }
     if (error || !data) { toast({ title: 'Erro', description: 'Evento não encontrado.', variant: 'destructive' }); navigate('/dashboard'); }
     else {
       setEvent(data);
       setEventSettings({
         name: data.name, date: new Date(data.date).toISOString().slice(0, 16),
         wifi_ssid: data.wifi_ssid || '', wifi_pass: data.wifi_pass || '',
+        wifi_security: data.wifi_security || 'WPA', wifi_hidden: data.wifi_hidden ?? false,
         photo_url: data.photo_url || '', wifi_img_url: data.wifi_img_url || '', photo_img_url: data.photo_img_url || '',
         event_logo_url: data.event_logo_url || '', primary_color: data.primary_color || '#f37021',
         secondary_color: data.secondary_color || '', tertiary_color: data.tertiary_color || '',
-        event_logo_size: data.event_logo_size || 150
+        event_logo_size: data.event_logo_size || 150,
+        allow_walkins: data.allow_walkins ?? true,
+        guest_categories: data.guest_categories || DEFAULT_GUEST_CATEGORIES,
+        custom_fields: data.custom_fields || [],
+        walkin_form: data.walkin_form || DEFAULT_WALKIN_FORM,
+        consent: resolveConsent(data.consent),
+        retention_days: data.retention_days ?? null,
+        notification_settings: resolveNotificationSettings(data.notification_settings),
+        capacity: data.capacity ?? null,
+        capacity_mode: data.capacity_mode || 'block',
+        qr_style: resolveQrStyle(data.qr_style),
+        kiosk_settings: resolveKioskSettings(data.kiosk_settings),
+        arrivals_wall: resolveArrivalsWallSettings(data.arrivals_wall),
+        badge_template: resolveBadgeTemplate(data.badge_template)
       });
     }
     setLoading(false);
   };
 
+  const refreshOutbox = async () => {
+    const entries = await listOutbox(id!).catch(() => [] as OutboxEntry[]);
+    setOutbox(entries);
+    return entries;
+  };
+
   const fetchGuests = async (isInitialLoad = false) => {
-    const { data, error } = await supabase.from('guests').select('*').eq('event_id', id).order('name');
-    if (!error && data) {
+    // Pelo RPC: para a recepção o CPF já vem mascarado do servidor
+    const { data, error } = await supabase.rpc('get_event_guests', { _event_id: id });
+    const serverData = data as Guest[] | null;
+    if (error && isNetworkError(error)) {
+      // Sem conexão: usa a cópia local do evento
+      const cached = await loadSnapshot<Guest>(id!, 'guests').catch(() => null);
+      if (cached) setGuests(applyPendingCheckins(cached, await refreshOutbox(), 'guests'));
+      return;
+    }
+    if (!error && serverData) {
+      saveSnapshot(id!, 'guests', serverData).catch(() => {});
+      const data = applyPendingCheckins<Guest>(serverData, await refreshOutbox(), 'guests');
       // Detecta novos check-ins comparando com estado anterior
       if (!isInitialLoad && previousGuestsRef.current.size > 0) {
         data.forEach(guest => {
@@ -239,6 +353,7 @@ export default function EventManagement() {
               id: guest.id + '-' + Date.now(),
               name: guest.name,
               company: guest.company || '',
+              category: guest.category,
               time: new Date()
             }, ...prev].slice(0, 50)); // Mantém últimos 50
           }
@@ -251,7 +366,25 @@ export default function EventManagement() {
       setGuests(data);
     }
   };
-  const fetchStaff = async () => { const { data, error } = await supabase.from('staff').select('*').eq('event_id', id).order('name'); if (!error) setStaff(data || []); };
+  const fetchStaff = async () => {
+    const { data, error } = await supabase.from('staff').select('*').eq('event_id', id).order('name');
+    if (error && isNetworkError(error)) {
+      const cached = await loadSnapshot<Staff>(id!, 'staff').catch(() => null);
+      if (cached) setStaff(applyPendingCheckins(cached, await refreshOutbox(), 'staff'));
+      return;
+    }
+    if (!error) {
+      saveSnapshot(id!, 'staff', data || []).catch(() => {});
+      setStaff(applyPendingCheckins<Staff>(data || [], await refreshOutbox(), 'staff'));
+    }
+  };
+  const fetchWatchers = async () => { const { data, error } = await supabase.from('guest_watchers').select('*').eq('event_id', id).order('created_at'); if (!error) setWatchers(data || []); };
+  const fetchSessions = async () => { const { data, error } = await supabase.from('event_sessions').select('*').eq('event_id', id).order('starts_at'); if (!error) setSessions(data || []); };
+  const fetchCheckins = async () => {
+    const { data, error } = await supabase.from('checkins').select('*').eq('event_id', id).order('occurred_at');
+    if (!error) setCheckins(data || []);
+    return (data || []) as CheckinRecord[];
+  };
   const fetchActivityLogs = async () => { if (!canAccessHistory) return; setLogsLoading(true); const { data, error } = await supabase.from('activity_logs').select('*').eq('event_id', id).order('created_at', { ascending: false }).limit(100); if (!error) setActivityLogs(data || []); setLogsLoading(false); };
 
   const subscribeToGuests = () => {
@@ -260,9 +393,19 @@ export default function EventManagement() {
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   };
+  const subscribeToCheckins = () => { const channel = supabase.channel('checkins-changes').on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'checkins', filter: `event_id=eq.${id}` }, () => fetchCheckins()).subscribe(); return () => { supabase.removeChannel(channel); }; };
   const subscribeToStaff = () => { const channel = supabase.channel('staff-changes').on('postgres_changes', { event: '*', schema: 'public', table: 'staff', filter: `event_id=eq.${id}` }, () => fetchStaff()).subscribe(); return () => { supabase.removeChannel(channel); }; };
 
-  const handleToggleCheckIn = async (guest: Guest) => {
+  // Lotação atingida: admin pode liberar a entrada, os demais só são avisados
+  const confirmOverCapacity = (name: string, result: CheckinResult) => {
+    if (!isAdmin) {
+      toast({ title: 'Lotação atingida', description: `${describeFull(name, result)} Só um administrador pode liberar.`, variant: 'destructive' });
+      return false;
+    }
+    return confirm(`${describeFull(name, result)}\n\nLiberar a entrada mesmo assim?`);
+  };
+
+  const handleToggleCheckIn = async (guest: Guest, source: CheckinSource = 'desk', override = false) => {
     const newCheckedIn = !guest.checked_in;
     const checkinTime = newCheckedIn ? new Date().toISOString() : null;
 
@@ -279,65 +422,208 @@ export default function EventManagement() {
         id: guest.id + '-' + Date.now(),
         name: guest.name,
         company: guest.company || '',
+        category: guest.category,
         time: new Date()
       }, ...prev].slice(0, 50));
       // Atualiza referência para não duplicar quando vier do subscription
       previousGuestsRef.current.set(guest.id, true);
     }
 
-    // Requisição ao banco em background
-    const { error } = await supabase
-      .from('guests')
-      .update({ checked_in: newCheckedIn, checkin_time: checkinTime })
-      .eq('id', guest.id);
+    // Sem conexão (ou com pendências da mesma pessoa): guarda na fila local
+    if (!navigator.onLine || outbox.some(e => e.record_id === guest.id)) {
+      if (await queueOfflineCheckin('guests', guest.id, guest.name, newCheckedIn, checkinTime, source)) { if (newCheckedIn) autoPrintBadge(guest); return; }
+    }
 
-    if (error) {
-      // Reverte se der erro
+    // Check-in atômico no servidor (o log de atividade é gravado na mesma transação)
+    const { result, error } = await performCheckin({ table: 'guests', recordId: guest.id, checkedIn: newCheckedIn, checkinTime, source, override });
+
+    if (error && isNetworkError(error) && await queueOfflineCheckin('guests', guest.id, guest.name, newCheckedIn, checkinTime, source)) { if (newCheckedIn) autoPrintBadge(guest); return; }
+
+    if (error || !result || result.status !== 'ok') {
+      // Conflito: outra recepção já mudou o estado — mostra o que está valendo no banco
+      const isConflict = result?.status === 'conflict';
+      const checkedIn = isConflict ? !!result.checked_in : guest.checked_in;
+      const time = isConflict ? result.checkin_time ?? null : guest.checkin_time;
       setGuests(prev => prev.map(g =>
         g.id === guest.id
-          ? { ...g, checked_in: guest.checked_in, checkin_time: guest.checkin_time }
+          ? { ...g, checked_in: checkedIn, checkin_time: time }
           : g
       ));
-      // Remove do feed se deu erro
+      // Remove do feed se a entrada não foi feita por esta recepção
       if (newCheckedIn) {
         setLiveCheckins(prev => prev.filter(c => !c.id.startsWith(guest.id)));
-        previousGuestsRef.current.set(guest.id, false);
+        previousGuestsRef.current.set(guest.id, checkedIn);
       }
-      toast({ title: 'Erro', description: 'Falha ao atualizar.', variant: 'destructive' });
-    } else {
-      // Log em background (sem await - não bloqueia)
-      logActivity(newCheckedIn ? 'Check-in' : 'Check-out', guest.name);
+      if (isConflict) toast({ title: 'Já registrado', description: describeConflict(guest.name, result) });
+      else if (result?.status === 'full') { if (confirmOverCapacity(guest.name, result)) handleToggleCheckIn(guest, source, true); }
+      else toast({ title: 'Erro', description: 'Falha ao atualizar.', variant: 'destructive' });
+    } else if (newCheckedIn) {
+      autoPrintBadge(guest);
+    }
+  };
+
+  // --- CHECK-IN POR SESSÃO ---
+  const handleToggleSessionCheckIn = async (guest: Guest, source: CheckinSource = 'desk', override = false) => {
+    const sessionId = activeSessionId;
+    const newCheckedIn = !sessionPresence.get(sessionId)?.has(guest.id);
+    const occurredAt = new Date().toISOString();
+
+    // ATUALIZAÇÃO OTIMISTA: registro local até a resposta do servidor
+    const optimistic: CheckinRecord = {
+      id: `local-${guest.id}-${Date.now()}`, event_id: id!, guest_id: guest.id, staff_id: null, session_id: sessionId,
+      direction: newCheckedIn ? 'in' : 'out', source, device: null, user_email: user?.email ?? null, occurred_at: occurredAt
+    };
+    const dropOptimistic = () => setCheckins(prev => prev.filter(c => c.id !== optimistic.id));
+    setCheckins(prev => [...prev, optimistic]);
+
+    if (!navigator.onLine || outbox.some(e => e.record_id === guest.id)) {
+      if (await queueOfflineCheckin('guests', guest.id, guest.name, newCheckedIn, occurredAt, source, sessionId)) { dropOptimistic(); return; }
+    }
+
+    const { result, error } = await performCheckin({ table: 'guests', recordId: guest.id, checkedIn: newCheckedIn, checkinTime: occurredAt, source, sessionId, override });
+    if (error && isNetworkError(error) && await queueOfflineCheckin('guests', guest.id, guest.name, newCheckedIn, occurredAt, source, sessionId)) { dropOptimistic(); return; }
+
+    if (error || !result || result.status !== 'ok') {
+      dropOptimistic();
+      if (result?.status === 'conflict') toast({ title: 'Já registrado', description: describeConflict(guest.name, result) });
+      else if (result?.status === 'full') { if (confirmOverCapacity(guest.name, result)) handleToggleSessionCheckIn(guest, source, true); }
+      else toast({ title: 'Erro', description: 'Falha ao atualizar.', variant: 'destructive' });
+    }
+    fetchCheckins();
+  };
+
+  // --- MODO OFFLINE ---
+  // Retorna false se não conseguiu gravar na fila (ex: IndexedDB indisponível)
+  const queueOfflineCheckin = async (table: OfflineTable, recordId: string, name: string, checkedIn: boolean, checkinTime: string | null, source: CheckinSource = 'desk', sessionId: string | null = null) => {
+    try {
+      await enqueueCheckin({ event_id: id!, table, record_id: recordId, name, checked_in: checkedIn, checkin_time: checkinTime, source, session_id: sessionId });
+      await refreshOutbox();
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  // Reenvia a fila na ordem original, preservando o horário real de cada check-in
+  const flushOutbox = async () => {
+    if (!id || syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    let synced = 0;
+    try {
+      const entries = await listOutbox(id);
+      if (entries.length === 0) return;
+      for (const entry of entries) {
+        const when = new Date(entry.checkin_time || entry.queued_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+        const { result, error } = await performCheckin({
+          table: entry.table, recordId: entry.record_id, checkedIn: entry.checked_in,
+          checkinTime: entry.checkin_time || entry.queued_at, note: `offline, ${when}`, source: entry.source, sessionId: entry.session_id
+        });
+        if (error && isNetworkError(error)) break;
+        await removeOutboxEntry(entry.id!);
+        if (result?.status === 'conflict') {
+          toast({ title: 'Já registrado', description: describeConflict(entry.name, result) });
+        } else if (result?.status === 'full') {
+          toast({ title: 'Lotação atingida', description: describeFull(entry.name, result), variant: 'destructive' });
+        } else if (error || result?.status !== 'ok') {
+          toast({ title: 'Erro', description: `Falha ao sincronizar ${entry.name}.`, variant: 'destructive' });
+        } else {
+          synced++;
+        }
+      }
+    } catch {
+      toast({ title: 'Erro', description: 'Falha ao sincronizar os check-ins offline.', variant: 'destructive' });
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
     }
+    await refreshOutbox();
+    if (synced > 0) toast({ title: 'Sincronizado', description: `${synced} check-in(s) offline enviados.` });
+    fetchGuests();
+    fetchStaff();
+    fetchCheckins();
+  };
+  flushOutboxRef.current = flushOutbox;
+
+  // Leitura do QR pessoal ou da etiqueta do totem: só faz check-in (nunca check-out) de quem ainda não entrou
+  const handleScan = (value: string) => {
+    const token = value.trim();
+    const guest = guests.find(g => g.checkin_token === token || g.badge_code === token);
+    if (!guest) {
+      setScanResult({ status: 'invalid' });
+      return;
+    }
+    if (isGuestPresent(guest)) {
+      setScanResult({ status: 'already', name: guest.name });
+      return;
+    }
+    setScanResult({ status: 'ok', name: guest.name });
+    if (activeSessionId) handleToggleSessionCheckIn(guest, 'scanner');
+    else handleToggleCheckIn(guest, 'scanner');
   };
 
   const handleAddGuest = async (e: React.FormEvent) => {
     e.preventDefault(); setAdding(true);
-    const { error } = await supabase.from('guests').insert({ event_id: id, name: newGuest.name, company: newGuest.company || null, role: newGuest.role || null });
+    const { data: created, error } = await supabase.from('guests').insert({ event_id: id, name: newGuest.name, company: newGuest.company || null, role: newGuest.role || null, category: newGuest.category || null, email: newGuest.email || null, phone: newGuest.phone || null, document: newGuest.document || null, ticket_type: newGuest.ticket_type || null, custom_data: newGuest.custom_data }).select('id').single();
     if (error) toast({ title: 'Erro', description: 'Falha ao adicionar.', variant: 'destructive' }); 
-    else { toast({ title: 'Sucesso', description: 'Convidado adicionado!' }); await logActivity('Adicionou', `${newGuest.name}`); await fetchGuests(); setAddGuestOpen(false); setNewGuest({ name: '', company: '', role: '' }); }
+    else { toast({ title: 'Sucesso', description: 'Convidado adicionado!' }); await logActivity('Adicionou', `${newGuest.name}`, created.id); await fetchGuests(); setAddGuestOpen(false); setNewGuest({ name: '', company: '', role: '', category: '', email: '', phone: '', document: '', ticket_type: '', custom_data: {} as CustomData }); }
     setAdding(false);
   };
 
   const handleSaveEdit = async (e: React.FormEvent) => {
     e.preventDefault(); if (!guestToEdit) return; setAdding(true);
-    const { error } = await supabase.from('guests').update({ name: editFormData.name, company: editFormData.company || null, role: editFormData.role || null }).eq('id', guestToEdit.id);
-    if (error) toast({ title: 'Erro', description: 'Falha ao editar.', variant: 'destructive' }); else { toast({ title: 'Sucesso', description: 'Convidado atualizado!' }); await logActivity('Editou', `${editFormData.name}`); await fetchGuests(); setEditGuestOpen(false); setGuestToEdit(null); }
+    const { error } = await supabase.from('guests').update({ name: editFormData.name, company: editFormData.company || null, role: editFormData.role || null, category: editFormData.category || null, email: editFormData.email || null, phone: editFormData.phone || null, document: editFormData.document || null, ticket_type: editFormData.ticket_type || null, custom_data: editFormData.custom_data }).eq('id', guestToEdit.id);
+    if (error) toast({ title: 'Erro', description: 'Falha ao editar.', variant: 'destructive' }); else { toast({ title: 'Sucesso', description: 'Convidado atualizado!' }); await logActivity('Editou', `${editFormData.name}`, guestToEdit.id); await fetchGuests(); setEditGuestOpen(false); setGuestToEdit(null); }
     setAdding(false);
   };
 
   const handleDeleteGuest = async (guest: Guest) => { if (!canDeleteGuests) return; const { error } = await supabase.from('guests').delete().eq('id', guest.id); if (error) toast({ title: 'Erro', description: 'Falha ao excluir.', variant: 'destructive' }); else { await logActivity('Excluiu', `${guest.name}`); await fetchGuests(); } };
 
+  // --- LGPD: direitos do titular (só admin) ---
+  const handleExportGuestData = async (guest: Guest) => {
+    if (!isAdmin) return;
+    try {
+      await exportGuestData(guest.id);
+      await logActivity('Exportou Dados Pessoais', guest.name, guest.id);
+    } catch (err) {
+      toast({ title: 'Erro', description: 'Falha ao exportar os dados.', variant: 'destructive' });
+    }
+  };
+
+  const handleAnonymizeGuest = async (guest: Guest) => {
+    if (!isAdmin || !confirm(`Apagar os dados pessoais de ${guest.name}? A presença continua contando no relatório. Não dá para desfazer.`)) return;
+    const { error } = await anonymizeGuest(guest.id);
+    if (error) { toast({ title: 'Erro', description: 'Falha ao anonimizar.', variant: 'destructive' }); return; }
+    toast({ title: 'Sucesso', description: 'Dados pessoais apagados.' });
+    setEditGuestOpen(false); setGuestToEdit(null);
+    await fetchGuests(); await fetchWatchers();
+  };
+
+  const handleAnonymizeEvent = async () => {
+    if (!isAdmin || !confirm('Apagar os dados pessoais de todos os convidados deste evento? Não dá para desfazer.')) return;
+    const { count, error } = await anonymizeEvent(id!);
+    if (error) { toast({ title: 'Erro', description: 'Falha ao anonimizar.', variant: 'destructive' }); return; }
+    toast({ title: 'Sucesso', description: `${count} convidado(s) anonimizado(s).` });
+    await fetchEvent(); await fetchGuests(); await fetchWatchers();
+  };
+
   // --- FUNÇÕES STAFF ---
   const handleToggleStaffCheckIn = async (s: Staff) => {
     const newCheckedIn = !s.checked_in;
     const checkinTime = newCheckedIn ? new Date().toISOString() : null;
     setStaff(prev => prev.map(st => st.id === s.id ? { ...st, checked_in: newCheckedIn, checkin_time: checkinTime } : st));
-    const { error } = await supabase.from('staff').update({ checked_in: newCheckedIn, checkin_time: checkinTime }).eq('id', s.id);
-    if (error) {
-      setStaff(prev => prev.map(st => st.id === s.id ? { ...st, checked_in: s.checked_in, checkin_time: s.checkin_time } : st));
-      toast({ title: 'Erro', description: 'Falha ao atualizar.', variant: 'destructive' });
-    } else {
-      logActivity(newCheckedIn ? 'Check-in Equipe' : 'Check-out Equipe', s.name);
+    if (!navigator.onLine || outbox.some(e => e.record_id === s.id)) {
+      if (await queueOfflineCheckin('staff', s.id, s.name, newCheckedIn, checkinTime)) return;
+    }
+    const { result, error } = await performCheckin({ table: 'staff', recordId: s.id, checkedIn: newCheckedIn, checkinTime });
+    if (error && isNetworkError(error) && await queueOfflineCheckin('staff', s.id, s.name, newCheckedIn, checkinTime)) return;
+    if (error || !result || result.status !== 'ok') {
+      const isConflict = result?.status === 'conflict';
+      const checkedIn = isConflict ? !!result.checked_in : s.checked_in;
+      const time = isConflict ? result.checkin_time ?? null : s.checkin_time;
+      setStaff(prev => prev.map(st => st.id === s.id ? { ...st, checked_in: checkedIn, checkin_time: time } : st));
+      if (isConflict) toast({ title: 'Já registrado', description: describeConflict(s.name, result) });
+      else toast({ title: 'Erro', description: 'Falha ao atualizar.', variant: 'destructive' });
     }
   };
 
@@ -367,171 +653,220 @@ export default function EventManagement() {
   const handleOpenStaffPreview = (s: Staff) => { setPreviewStaff(s); };
   const handleOpenPreview = (guest: Guest) => { setPreviewGuest(guest); };
 
-  // Função de impressão via iframe - mais confiável
-  const printViaIframe = (name: string, subtitle: string) => {
-    const iframe = document.createElement('iframe');
-    iframe.style.position = 'absolute';
-    iframe.style.top = '-9999px';
-    iframe.style.left = '-9999px';
-    iframe.style.width = '90mm';
-    iframe.style.height = '35mm';
-    document.body.appendChild(iframe);
-
-    const doc = iframe.contentDocument || iframe.contentWindow?.document;
-    if (!doc) {
-      document.body.removeChild(iframe);
-      return;
-    }
+  // Usa o modelo de etiqueta salvo no evento (mesmo layout em todas as máquinas)
+  const printBadges = (badges: BadgeData[]) => printBadgeDocuments(badges, {
+    template: eventSettings.badge_template,
+    logoUrl: eventSettings.event_logo_url || null,
+    bridge: printBridge,
+    onBridgeError: () => toast({ title: 'Impressora indisponível', description: 'A ponte de impressão não respondeu. Usando a impressão do navegador.', variant: 'destructive' })
+  });
 
-    const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="UTF-8">
-        <link href="https://fonts.googleapis.com/css2?family=Inter:wght@500;800&display=swap" rel="stylesheet">
-        <style>
-          @page {
-            size: 90mm 35mm;
-            margin: 0;
-          }
-          * {
-            margin: 0;
-            padding: 0;
-            box-sizing: border-box;
-          }
-          html, body {
-            width: 90mm;
-            height: 35mm;
-            margin: 0;
-            padding: 0;
-            background: white;
-          }
-          .label {
-            width: 90mm;
-            height: 35mm;
-            display: flex;
-            flex-direction: column;
-            justify-content: center;
-            align-items: center;
-            text-align: center;
-            padding: 0 3mm;
-            background: white;
-            font-family: 'Inter', Arial, sans-serif;
-          }
-          .name {
-            font-weight: 800;
-            font-size: ${nameFontSize}pt;
-            line-height: 1.1;
-            color: #000000;
-            margin-bottom: 1.5mm;
-            max-width: 100%;
-            overflow: hidden;
-            text-overflow: ellipsis;
-            white-space: nowrap;
-          }
-          .subtitle {
-            font-weight: 500;
-            font-size: ${companyFontSize}pt;
-            line-height: 1.2;
-            color: #000000;
-            max-width: 100%;
-            overflow: hidden;
-            text-overflow: ellipsis;
-            white-space: nowrap;
-          }
-        </style>
-      </head>
-      <body>
-        <div class="label">
-          <div class="name">${name}</div>
-          ${subtitle ? `<div class="subtitle">${subtitle}</div>` : ''}
-        </div>
-      </body>
-      </html>
-    `;
-
-    doc.open();
-    doc.write(html);
-    doc.close();
-
-    // Aguarda a fonte carregar antes de imprimir
-    iframe.onload = () => {
-      setTimeout(() => {
-        iframe.contentWindow?.focus();
-        iframe.contentWindow?.print();
-        // Remove o iframe após um tempo
-        setTimeout(() => {
-          document.body.removeChild(iframe);
-        }, 1000);
-      }, 500);
-    };
+  const autoPrintBadge = (guest: Guest) => {
+    if (!printBridge.enabled || !printBridge.autoPrintOnCheckin) return;
+    printBadges([guestBadge(guest)]);
+    markBadgesPrinted('guests', [guest.id]);
+  };
+
+  const handlePrintBridgeChange = (settings: BridgeSettings) => {
+    setPrintBridge(settings);
+    savePrintBridgeSettings(settings);
   };
 
+  const handleTestPrint = async () => {
+    try {
+      await printViaBridge([{ name: 'Teste de Impressão', company: event?.name || '', qrValue: 'teste' }], eventSettings.badge_template, printBridge);
+      toast({ title: 'Sucesso', description: 'Etiqueta de teste enviada.' });
+    } catch (err) {
+      toast({ title: 'Erro', description: 'A ponte de impressão não respondeu.', variant: 'destructive' });
+    }
+  };
+
+  const guestBadge = (g: Guest): BadgeData => ({
+    name: formatNameForBadge(g.name),
+    company: g.company,
+    role: g.role,
+    category: findCategory(eventSettings.guest_categories, g.category),
+    qrValue: g.checkin_token
+  });
+  // Na equipe, a função ocupa a linha da empresa (como na etiqueta antiga)
+  const staffBadge = (s: Staff): BadgeData => ({ name: formatNameForBadge(s.name), company: s.role || 'Equipe' });
+
   const handleConfirmStaffPrint = () => {
     if (!previewStaff) return;
-    const name = formatNameForBadge(previewStaff.name);
-    const role = previewStaff.role || 'Equipe';
+    const badge = staffBadge(previewStaff);
+    markBadgesPrinted('staff', [previewStaff.id]);
     setPreviewStaff(null);
     setTimeout(() => {
-      printViaIframe(name, role);
+      printBadges([badge]);
     }, 100);
   };
 
   const handleConfirmPrint = () => {
     if (!previewGuest) return;
-    const name = formatNameForBadge(previewGuest.name);
-    const company = previewGuest.company || '';
+    const badge = guestBadge(previewGuest);
+    markBadgesPrinted('guests', [previewGuest.id]);
     setPreviewGuest(null);
     setTimeout(() => {
-      printViaIframe(name, company);
+      printBadges([badge]);
     }, 100);
   };
 
-  const handleImportExcel = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!canImportExport) return; const file = e.target.files?.[0]; if (!file) return;
-    const reader = new FileReader();
-    reader.onload = async (evt) => {
-      try {
-        const data = evt.target?.result; const workbook = XLSX.read(data, { type: 'binary' }); const sheet = workbook.Sheets[workbook.SheetNames[0]]; const jsonData = XLSX.utils.sheet_to_json<any>(sheet);
-        const guestsToInsert = jsonData.map((row: any) => {
-          const keys = Object.keys(row);
-          const nameKey = keys.find(k => k.toLowerCase().match(/(nome|name|participante|convidado|fullname)/));
-          const companyKey = keys.find(k => k.toLowerCase().match(/(empresa|company|organizacao|instituicao|org)/));
-          const roleKey = keys.find(k => k.toLowerCase().match(/(cargo|role|funcao|ocupacao)/));
-          if (!nameKey) return null; return { event_id: id, name: row[nameKey], company: companyKey ? row[companyKey] : null, role: roleKey ? row[roleKey] : null };
-        }).filter((g: any) => g && g.name);
-        if (guestsToInsert.length === 0) { toast({ title: 'Erro', description: 'Colunas inválidas.', variant: 'destructive' }); return; }
-        const { error } = await supabase.from('guests').insert(guestsToInsert);
-        if (error) toast({ title: 'Erro', description: 'Falha no banco.', variant: 'destructive' }); else { toast({ title: 'Sucesso', description: `${guestsToInsert.length} importados!` }); await logActivity('Importou', 'Excel'); await fetchGuests(); }
-      } catch (err) { toast({ title: 'Erro', description: 'Arquivo inválido.', variant: 'destructive' }); }
-    };
-    reader.readAsBinaryString(file); e.target.value = '';
+  // --- IMPRESSÃO EM LOTE ---
+  // Registra badge_printed_at para mostrar reimpressões e filtrar quem falta
+  const markBadgesPrinted = async (table: 'guests' | 'staff', ids: string[]) => {
+    const printedAt = new Date().toISOString();
+    const { error } = await supabase.from(table).update({ badge_printed_at: printedAt }).in('id', ids);
+    if (error) { toast({ title: 'Erro', description: 'Não foi possível registrar a impressão.', variant: 'destructive' }); return; }
+    if (table === 'guests') setGuests(prev => prev.map(g => ids.includes(g.id) ? { ...g, badge_printed_at: printedAt } : g));
+    else setStaff(prev => prev.map(s => ids.includes(s.id) ? { ...s, badge_printed_at: printedAt } : s));
   };
 
-  const handleExportExcel = async () => { if (!canImportExport) return; const ws = XLSX.utils.json_to_sheet(guests.map(g => ({ Nome: g.name, Empresa: g.company || '', Cargo: g.role || '', 'Check-in': g.checked_in ? 'Sim' : 'Não', 'Hora': g.checkin_time ? new Date(g.checkin_time).toLocaleString('pt-BR') : '' }))); const wb = XLSX.utils.book_new(); XLSX.utils.book_append_sheet(wb, ws, 'Convidados'); XLSX.writeFile(wb, `${event?.name}_convidados.xlsx`); await logActivity('Exportou', 'Excel'); };
+  const toggleSelected = (setSelected: React.Dispatch<React.SetStateAction<Set<string>>>, recordId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(recordId)) next.delete(recordId); else next.add(recordId);
+      return next;
+    });
+  };
+
+  // Um único trabalho de impressão com várias páginas (na ordem da lista)
+  const handlePrintGuestBadges = async (list: Guest[]) => {
+    if (list.length === 0) return;
+    const reprints = list.filter(g => g.badge_printed_at).length;
+    if (list.length > 1 && !confirm(`Imprimir ${list.length} etiquetas${reprints ? ` (${reprints} já impressas antes)` : ''}?`)) return;
+    printBadges(list.map(guestBadge));
+    setSelectedGuestIds(new Set());
+    await markBadgesPrinted('guests', list.map(g => g.id));
+    await logActivity('Imprimiu Etiquetas', `${list.length} convidado(s)`);
+  };
+
+  const handlePrintStaffBadges = async (list: Staff[]) => {
+    if (list.length === 0) return;
+    const reprints = list.filter(s => s.badge_printed_at).length;
+    if (list.length > 1 && !confirm(`Imprimir ${list.length} etiquetas${reprints ? ` (${reprints} já impressas antes)` : ''}?`)) return;
+    printBadges(list.map(staffBadge));
+    setSelectedStaffIds(new Set());
+    await markBadgesPrinted('staff', list.map(s => s.id));
+    await logActivity('Imprimiu Etiquetas', `${list.length} da equipe`);
+  };
+
+  const handleImported = async (results: ImportResult[]) => {
+    const inserted = results.filter(r => r.outcome === 'inserted').length;
+    const updated = results.filter(r => r.outcome === 'updated').length;
+    if (inserted || updated) await logActivity('Importou', `Excel: ${inserted} novos, ${updated} atualizados`);
+    await fetchGuests();
+  };
+
+  const handleToggleWatch = async (guest: Guest) => {
+    if (!user) return;
+    const current = watchers.find(w => w.guest_id === guest.id && w.user_id === user.id);
+    const { error } = await toggleOwnWatch(id!, guest.id, user.id, user.email || 'Anfitrião', current);
+    if (error) { toast({ title: 'Erro', description: 'Falha ao atualizar o aviso.', variant: 'destructive' }); return; }
+    toast({ title: current ? 'Aviso desligado' : 'Aviso ligado', description: current ? `Você não será mais avisado sobre ${guest.name}.` : `Você será avisado quando ${guest.name} chegar.` });
+    fetchWatchers();
+  };
+
+  const handleInvitationsSent = async () => {
+    await fetchEvent();
+    await fetchGuests();
+  };
+
+  // Dados completos do relatório (o log de atividades da aba Histórico vem limitado)
+  const loadReportInput = async (): Promise<ReportInput> => {
+    const history = await fetchCheckins();
+    const { data: activity } = canAccessHistory
+      ? await supabase.from('activity_logs').select('*').eq('event_id', id).order('created_at')
+      : { data: [] };
+    return { guests, staff, checkins: history, activity: activity || [], categories: guestCategories, customFields, sessions };
+  };
+
+  const handleExportExcel = async () => {
+    if (!canImportExport) return;
+    const input = await loadReportInput();
+    const wb = buildReportWorkbook(buildEventReport(input), input, event?.name || '');
+    XLSX.writeFile(wb, `${event?.name}_relatorio.xlsx`);
+    await logActivity('Exportou', 'Relatório Excel');
+  };
+
+  const handleExportPdf = async () => {
+    if (!canImportExport) return;
+    const input = await loadReportInput();
+    printViaIframe(renderReportDocument(buildEventReport(input), {
+      eventName: eventSettings.name || event?.name || '',
+      eventDate: event?.date || null,
+      logoUrl: eventSettings.event_logo_url || null,
+      primaryColor: eventSettings.primary_color || '#f37021',
+      secondaryColor: eventSettings.secondary_color || null
+    }));
+    await logActivity('Exportou', 'Relatório PDF');
+  };
 
   const handleSaveSettings = async (e: React.FormEvent) => {
     e.preventDefault(); if (!canAccessSettings) return; setSaving(true);
     const { error } = await supabase.from('events').update({
       name: eventSettings.name, date: new Date(eventSettings.date).toISOString(),
-      wifi_ssid: eventSettings.wifi_ssid || null, wifi_pass: eventSettings.wifi_pass || null,
+      wifi_ssid: eventSettings.wifi_ssid || null, wifi_pass: eventSettings.wifi_security === 'nopass' ? null : eventSettings.wifi_pass || null,
+      wifi_security: eventSettings.wifi_security, wifi_hidden: eventSettings.wifi_hidden,
       photo_url: eventSettings.photo_url || null, wifi_img_url: eventSettings.wifi_img_url || null, photo_img_url: eventSettings.photo_img_url || null,
       event_logo_url: eventSettings.event_logo_url || null, primary_color: eventSettings.primary_color || '#f37021',
       secondary_color: eventSettings.secondary_color || null, tertiary_color: eventSettings.tertiary_color || null,
-      event_logo_size: eventSettings.event_logo_size || 150
+      event_logo_size: eventSettings.event_logo_size || 150,
+      allow_walkins: eventSettings.allow_walkins,
+      guest_categories: eventSettings.guest_categories.map(c => ({ ...c, color: safeCategoryColor(c.color) })),
+      badge_template: eventSettings.badge_template,
+      custom_fields: eventSettings.custom_fields,
+      walkin_form: eventSettings.walkin_form,
+      consent: { ...eventSettings.consent, version: nextConsentVersion(eventSettings.consent, resolveConsent(event?.consent)) },
+      retention_days: eventSettings.retention_days,
+      notification_settings: eventSettings.notification_settings,
+      capacity: eventSettings.capacity,
+      capacity_mode: eventSettings.capacity_mode,
+      qr_style: eventSettings.qr_style,
+      kiosk_settings: eventSettings.kiosk_settings,
+      arrivals_wall: eventSettings.arrivals_wall
     }).eq('id', id);
     if (error) toast({ title: 'Erro', description: 'Falha ao salvar.', variant: 'destructive' }); else { toast({ title: 'Sucesso', description: 'Salvo!' }); await logActivity('Atualizou configurações', 'Alterações salvas'); fetchEvent(); }
     setSaving(false);
   };
 
+  const pendingIds = new Set(outbox.map(e => e.record_id));
+  const guestCategories = eventSettings.guest_categories;
+  const customFields = eventSettings.custom_fields;
+  const renderCategoryBadge = (categoryId: string | null) => {
+    const category = findCategory(guestCategories, categoryId);
+    return category ? <Badge variant="outline" style={{ borderColor: category.color, color: category.color }}>{category.name}</Badge> : null;
+  };
+  const sessionPresence = buildSessionPresence(checkins, outbox);
+  const activeSession = sessions.find(s => s.id === activeSessionId) || null;
+  // Presença no contexto atual da recepção (evento geral ou sessão selecionada)
+  const isGuestPresent = (g: Guest) => activeSessionId ? !!sessionPresence.get(activeSessionId)?.has(g.id) : g.checked_in;
+  // Lotação da entrada geral ou da sala selecionada (check-outs liberam lugar)
+  const capacityLimit = activeSession ? activeSession.capacity : event?.capacity ?? null;
+  const occupancy = guests.filter(isGuestPresent).length;
+  const waitlist = guests.filter(g => g.waitlisted_at && !g.checked_in).sort((a, b) => a.waitlisted_at!.localeCompare(b.waitlisted_at!));
+
   const filteredGuests = guests
-    .filter(g => normalizeText(g.name).includes(normalizeText(searchTerm)) || normalizeText(g.company || '').includes(normalizeText(searchTerm)))
+    .filter(g => {
+      const term = normalizeText(searchTerm);
+      if (!term) return true;
+      const text = normalizeText([g.name, g.company, g.email, g.phone, g.ticket_type, customDataText(customFields, g.custom_data)].filter(Boolean).join(' '));
+      // CPF/telefone também batem só pelos dígitos (a recepção não busca pelo CPF mascarado)
+      const digits = searchTerm.replace(/\D/g, '');
+      return text.includes(term) || (digits.length >= 3 && [isRecepcao ? null : g.document, g.phone].some(v => (v || '').replace(/\D/g, '').includes(digits)));
+    })
+    .filter(g => categoryFilter === 'all' || (categoryFilter === 'none' ? !findCategory(guestCategories, g.category) : g.category === categoryFilter))
+    .filter(g => guestPrintFilter === 'all' || (guestPrintFilter === 'printed') === !!g.badge_printed_at)
     .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
 
   const filteredStaff = staff
     .filter(s => normalizeText(s.name).includes(normalizeText(staffSearchTerm)) || normalizeText(s.role || '').includes(normalizeText(staffSearchTerm)))
+    .filter(s => staffPrintFilter === 'all' || (staffPrintFilter === 'printed') === !!s.badge_printed_at)
     .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
 
+  const selectedGuests = filteredGuests.filter(g => selectedGuestIds.has(g.id));
+  const selectedStaff = filteredStaff.filter(s => selectedStaffIds.has(s.id));
+  const printedTitle = (ts: string) => `Etiqueta impressa em ${new Date(ts).toLocaleString('pt-BR')}`;
+
   const formatLogTime = (ts: string) => new Date(ts).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
 
   // Cores do evento
@@ -543,95 +878,23 @@ export default function EventManagement() {
   return (
     <div className="min-h-screen bg-background">
       
-      {/* CSS IMPRESSÃO DINÂMICO: USA VALORES AJUSTÁVEIS */}
-      <style>{`
-        @media print {
-          @page {
-            size: 90mm 35mm landscape;
-            margin: 0;
-            orientation: landscape;
-          }
-
-          html, body {
-            margin: 0 !important;
-            padding: 0 !important;
-            width: 90mm !important;
-            height: 35mm !important;
-            background: white !important;
-          }
-
-          body * { visibility: hidden; }
-
-          .print-container {
-            visibility: visible !important;
-            position: fixed !important;
-            top: 0 !important;
-            left: 0 !important;
-            width: 90mm !important;
-            height: 35mm !important;
-            margin: 0 !important;
-            padding: 0 !important;
-            background: white !important;
-          }
-
-          .print-container *,
-          .print-label *,
-          .guest-name,
-          .guest-company {
-            visibility: visible !important;
-            -webkit-print-color-adjust: exact !important;
-            print-color-adjust: exact !important;
-          }
-
-          .print-label {
-            width: 90mm !important;
-            height: 35mm !important;
-            display: flex !important;
-            flex-direction: column !important;
-            justify-content: center !important;
-            align-items: center !important;
-            text-align: center !important;
-            background: white !important;
-            padding: 0 3mm !important;
-            box-sizing: border-box !important;
-            overflow: hidden !important;
-          }
-
-          .guest-name {
-            font-family: 'Inter', Arial, sans-serif !important;
-            font-weight: 800 !important;
-            font-size: ${nameFontSize}pt !important;
-            line-height: 1.1 !important;
-            width: 100% !important;
-            white-space: nowrap !important;
-            overflow: hidden !important;
-            text-overflow: ellipsis !important;
-            margin: 0 0 1.5mm 0 !important;
-            color: black !important;
-          }
-
-          .guest-company {
-            font-family: 'Inter', Arial, sans-serif !important;
-            font-weight: 500 !important;
-            font-size: ${companyFontSize}pt !important;
-            line-height: 1.2 !important;
-            width: 100% !important;
-            white-space: nowrap !important;
-            overflow: hidden !important;
-            text-overflow: ellipsis !important;
-            margin: 0 !important;
-            color: black !important;
-          }
-        }
-      `}</style>
-
       <header className="border-b border-border bg-card/50 backdrop-blur-xl sticky top-0 z-50 print:hidden">
         <div className="container mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center gap-4"><Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')}><ArrowLeft className="h-5 w-5" /></Button><h1 className="text-lg font-semibold text-foreground truncate">{event?.name}</h1></div>
           <div className="flex items-center gap-2">
+            {!isOnline && <Badge variant="outline" className="border-destructive text-destructive"><WifiOff className="h-3 w-3 mr-1" />Offline</Badge>}
+            {capacityLimit && <Badge variant="outline" className={OCCUPANCY_CLASSES[occupancyLevel(occupancy, capacityLimit)]}><Users className="h-3 w-3 mr-1" />{occupancy}/{capacityLimit}{activeSession ? ` — ${activeSession.name}` : ''}{!activeSession && waitlist.length > 0 ? ` • ${waitlist.length} na espera` : ''}</Badge>}
+            {outbox.length > 0 && (
+              <Button variant="outline" size="sm" className="border-yellow-500/50 text-yellow-500" onClick={flushOutbox} disabled={!isOnline || syncing}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+                {outbox.length} pendente{outbox.length > 1 ? 's' : ''}
+              </Button>
+            )}
+            <NotificationBell />
             <Button variant="outline" size="sm" className="border-border" onClick={() => window.open(`/totem/${id}`, '_blank')}><Monitor className="h-4 w-4 mr-2" />Totem</Button>
             <Button variant="outline" size="sm" className="border-border" onClick={() => window.open(`/wifi/${id}`, '_blank')}><Wifi className="h-4 w-4 mr-2" />TV</Button>
             <Button variant="outline" size="sm" className="border-border" onClick={() => window.open(`/wifi/${id}?view=qr`, '_blank')}><Smartphone className="h-4 w-4 mr-2" />Celular</Button>
+            {resolveArrivalsWallSettings(event?.arrivals_wall).enabled && <Button variant="outline" size="sm" className="border-border" onClick={() => window.open(`/arrivals/${id}`, '_blank')}><Tv className="h-4 w-4 mr-2" />Chegadas</Button>}
           </div>
         </div>
       </header>
@@ -673,7 +936,7 @@ export default function EventManagement() {
           }
         `}</style>
 
-        <Tabs defaultValue="guests" className="space-y-6 event-tabs" onValueChange={(v) => { if(v === 'history') fetchActivityLogs(); }}>
+        <Tabs defaultValue="guests" className="space-y-6 event-tabs" onValueChange={(v) => { if(v === 'history') { fetchActivityLogs(); fetchCheckins(); } }}>
           <TabsList className="bg-card border border-border">
             <TabsTrigger value="guests">Convidados</TabsTrigger>
             <TabsTrigger value="staff">Equipe</TabsTrigger>
@@ -692,15 +955,60 @@ export default function EventManagement() {
           <TabsContent value="guests" className="space-y-6 animate-fade-in">
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-card border border-border rounded-xl p-6"><div className="flex items-center gap-3 mb-2"><Users className="h-5 w-5 text-muted-foreground" /><span className="text-muted-foreground text-sm font-medium">Total</span></div><p className="text-5xl font-bold" style={{ color: eventColor }}>{guests.length}</p></div>
-              <div className="bg-card border border-border rounded-xl p-6"><div className="flex items-center gap-3 mb-2"><UserCheck className="h-5 w-5 text-muted-foreground" /><span className="text-muted-foreground text-sm font-medium">Presentes</span></div><p className="text-5xl font-bold" style={{ color: eventColor }}>{guests.filter(g=>g.checked_in).length}</p></div>
+              <div className="bg-card border border-border rounded-xl p-6"><div className="flex items-center gap-3 mb-2"><UserCheck className="h-5 w-5 text-muted-foreground" /><span className="text-muted-foreground text-sm font-medium">{activeSession ? `Presentes — ${activeSession.name}` : 'Presentes'}</span></div><p className="text-5xl font-bold" style={{ color: eventColor }}>{guests.filter(isGuestPresent).length}</p></div>
             </div>
+            {waitlist.length > 0 && !activeSessionId && (
+              <div className="bg-card border border-yellow-500/40 rounded-xl p-4 space-y-2">
+                <h3 className="font-semibold text-foreground flex items-center gap-2"><Hourglass className="h-4 w-4 text-yellow-500" />Lista de espera ({waitlist.length})</h3>
+                {waitlist.map((g, i) => (
+                  <div key={g.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="truncate">{i + 1}. {g.name} <span className="text-muted-foreground">— desde {formatLogTime(g.waitlisted_at!)}</span></span>
+                    <Button variant="outline" size="sm" className="border-border shrink-0" onClick={() => handleToggleCheckIn(g)}>Liberar entrada</Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {sessions.length > 0 && (
+              <div className="flex items-center gap-3">
+                <Label className="shrink-0">Check-in em</Label>
+                <Select value={activeSessionId || 'event'} onValueChange={(v) => setActiveSessionId(v === 'event' ? '' : v)}>
+                  <SelectTrigger className="bg-card border-border max-w-sm"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="event">Evento (entrada geral)</SelectItem>
+                    {sessions.map(s => <SelectItem key={s.id} value={s.id}>{s.name}{s.room ? ` — ${s.room}` : ''}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="flex flex-wrap gap-3 items-center">
               <div className="relative flex-1 min-w-[200px]"><Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" /><Input placeholder="Buscar convidado..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-10 bg-card border-border" /></div>
-              {canImportExport && <><label className="cursor-pointer"><input type="file" accept=".xlsx,.xls" onChange={handleImportExcel} className="hidden" /><Button variant="outline" className="border-border" asChild><span><Upload className="h-4 w-4 mr-2" />Importar</span></Button></label><Button variant="outline" className="border-border" onClick={handleExportExcel}><Download className="h-4 w-4 mr-2" />Exportar</Button></>}
-              <Dialog open={addGuestOpen} onOpenChange={setAddGuestOpen}><DialogTrigger asChild><Button variant="outline" className="border-border"><Plus className="h-4 w-4 mr-2" />Manual</Button></DialogTrigger><DialogContent className="bg-card border-border"><DialogHeader><DialogTitle>Adicionar Convidado</DialogTitle></DialogHeader><form onSubmit={handleAddGuest} className="space-y-4 mt-4"><Input placeholder="Nome" value={newGuest.name} onChange={e=>setNewGuest({...newGuest, name: e.target.value})} required className="bg-secondary border-border" /><Input placeholder="Empresa" value={newGuest.company} onChange={e=>setNewGuest({...newGuest, company: e.target.value})} className="bg-secondary border-border" /><Input placeholder="Cargo" value={newGuest.role} onChange={e=>setNewGuest({...newGuest, role: e.target.value})} className="bg-secondary border-border" /><Button type="submit" className="w-full bg-primary" disabled={adding}>Adicionar</Button></form></DialogContent></Dialog>
+              {guestCategories.length > 0 && (
+                <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                  <SelectTrigger className="w-[180px] bg-card border-border"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas as categorias</SelectItem>
+                    {guestCategories.map(c => <SelectItem key={c.id} value={c.id}><span className="inline-block h-2 w-2 rounded-full mr-2" style={{ backgroundColor: c.color }} />{c.name}</SelectItem>)}
+                    <SelectItem value="none">Sem categoria</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              {canImportExport && <><Button variant="outline" className="border-border" onClick={() => setImportOpen(true)}><Upload className="h-4 w-4 mr-2" />Importar</Button><Button variant="outline" className="border-border" onClick={() => setInvitationOpen(true)}><Mail className="h-4 w-4 mr-2" />Convites</Button><DropdownMenu><DropdownMenuTrigger asChild><Button variant="outline" className="border-border"><Download className="h-4 w-4 mr-2" />Exportar</Button></DropdownMenuTrigger><DropdownMenuContent align="end"><DropdownMenuItem onClick={handleExportExcel}><FileSpreadsheet className="h-4 w-4 mr-2" />Relatório completo (Excel)</DropdownMenuItem><DropdownMenuItem onClick={handleExportPdf}><FileText className="h-4 w-4 mr-2" />Resumo para impressão (PDF)</DropdownMenuItem></DropdownMenuContent></DropdownMenu></>}
+              <Button variant="outline" className="border-border" onClick={() => { setScanResult(null); setScannerOpen(true); }}><ScanLine className="h-4 w-4 mr-2" />Scanner</Button>
+              <Button variant="outline" className="border-border" onClick={() => setPrinterOpen(true)}><Printer className="h-4 w-4 mr-2" />Impressora{printBridge.enabled && <span className="ml-2 h-2 w-2 rounded-full bg-green-500" />}</Button>
+              <Dialog open={addGuestOpen} onOpenChange={setAddGuestOpen}><DialogTrigger asChild><Button variant="outline" className="border-border"><Plus className="h-4 w-4 mr-2" />Manual</Button></DialogTrigger><DialogContent className="bg-card border-border"><DialogHeader><DialogTitle>Adicionar Convidado</DialogTitle></DialogHeader><form onSubmit={handleAddGuest} className="space-y-4 mt-4"><Input placeholder="Nome" value={newGuest.name} onChange={e=>setNewGuest({...newGuest, name: e.target.value})} required className="bg-secondary border-border" /><Input placeholder="Empresa" value={newGuest.company} onChange={e=>setNewGuest({...newGuest, company: e.target.value})} className="bg-secondary border-border" /><Input placeholder="Cargo" value={newGuest.role} onChange={e=>setNewGuest({...newGuest, role: e.target.value})} className="bg-secondary border-border" /><Input type="email" placeholder="E-mail" value={newGuest.email} onChange={e=>setNewGuest({...newGuest, email: e.target.value})} className="bg-secondary border-border" /><div className="grid grid-cols-2 gap-3"><Input placeholder="Telefone" value={newGuest.phone} onChange={e=>setNewGuest({...newGuest, phone: e.target.value})} className="bg-secondary border-border" /><Input placeholder="CPF" value={newGuest.document} onChange={e=>setNewGuest({...newGuest, document: e.target.value})} className="bg-secondary border-border" /></div><Input placeholder="Tipo de ingresso" value={newGuest.ticket_type} onChange={e=>setNewGuest({...newGuest, ticket_type: e.target.value})} className="bg-secondary border-border" /><CustomFieldInputs fields={customFields} values={newGuest.custom_data} onChange={custom_data=>setNewGuest({...newGuest, custom_data})} />{guestCategories.length > 0 && <Select value={newGuest.category || 'none'} onValueChange={v=>setNewGuest({...newGuest, category: v === 'none' ? '' : v})}><SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="none">Sem categoria</SelectItem>{guestCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent></Select>}<Button type="submit" className="w-full bg-primary" disabled={adding}>Adicionar</Button></form></DialogContent></Dialog>
             </div>
+            <BatchPrintBar
+              visibleCount={filteredGuests.length}
+              selectedCount={selectedGuests.length}
+              notPrintedCount={filteredGuests.filter(g => !g.badge_printed_at).length}
+              filter={guestPrintFilter}
+              onFilterChange={setGuestPrintFilter}
+              onToggleAll={(checked) => setSelectedGuestIds(checked ? new Set(filteredGuests.map(g => g.id)) : new Set())}
+              onPrintSelected={() => handlePrintGuestBadges(selectedGuests)}
+              onPrintNotPrinted={() => handlePrintGuestBadges(filteredGuests.filter(g => !g.badge_printed_at))}
+            />
             <div className="space-y-3">
-              {filteredGuests.length===0?<div className="text-center py-12 text-muted-foreground">Nenhum convidado encontrado.</div>:filteredGuests.map((g,i)=>(<div key={g.id} className="bg-card border border-border rounded-xl p-4 flex items-center justify-between gap-4 animate-fade-in" style={{animationDelay:`${i*30}ms`}}><div className="flex-1 min-w-0"><div className="flex items-center gap-3"><h3 className="font-semibold text-foreground truncate">{g.name}</h3>{g.checked_in&&<Badge style={{ backgroundColor: eventColor }} className="text-white">Presente</Badge>}</div>{(g.role||g.company)&&<p className="text-sm text-muted-foreground mt-1 truncate">{[g.role,g.company].filter(Boolean).join(' • ')}</p>}</div><div className="flex items-center gap-3 shrink-0">{canEditGuests && <Button variant="ghost" size="icon" onClick={() => { setGuestToEdit(g); setEditFormData({ name: g.name, company: g.company || '', role: g.role || '' }); setEditGuestOpen(true); }}><Pencil className="h-4 w-4"/></Button>}<Button variant="ghost" size="icon" onClick={()=>handleOpenPreview(g)}><Printer className="h-4 w-4"/></Button>{canDeleteGuests&&<Button variant="ghost" size="icon" onClick={()=>handleDeleteGuest(g)} className="hover:text-destructive"><Trash2 className="h-4 w-4"/></Button>}<Switch checked={g.checked_in} onCheckedChange={()=>handleToggleCheckIn(g)}/></div></div>))}
+              {filteredGuests.length===0?<div className="text-center py-12 text-muted-foreground">Nenhum convidado encontrado.</div>:filteredGuests.map((g,i)=>(<div key={g.id} className="bg-card border border-border rounded-xl p-4 flex items-center justify-between gap-4 animate-fade-in" style={{animationDelay:`${i*30}ms`}}><Checkbox checked={selectedGuestIds.has(g.id)} onCheckedChange={()=>toggleSelected(setSelectedGuestIds, g.id)} /><div className="flex-1 min-w-0"><div className="flex items-center gap-3"><h3 className="font-semibold text-foreground truncate">{g.name}</h3>{renderCategoryBadge(g.category)}{g.is_walkin&&<Badge variant="outline" className="border-border text-muted-foreground">Walk-in</Badge>}{g.waitlisted_at&&!g.checked_in&&<Badge variant="outline" className="border-yellow-500 text-yellow-500">Na espera</Badge>}{watchers.some(w => w.guest_id === g.id)&&<BellRing className="h-4 w-4 text-primary" aria-label="Anfitrião será avisado" />}{g.rsvp_status&&<Badge variant="outline" className={RSVP_LABELS[g.rsvp_status].className}>{RSVP_LABELS[g.rsvp_status].label}</Badge>}{g.badge_printed_at&&<span title={printedTitle(g.badge_printed_at)}><Printer className="h-3.5 w-3.5 text-muted-foreground" /></span>}{isGuestPresent(g)&&<Badge style={{ backgroundColor: eventColor }} className="text-white">Presente</Badge>}{pendingIds.has(g.id)&&<Badge variant="outline" className="border-yellow-500 text-yellow-500">Pendente</Badge>}</div>{(g.role||g.company)&&<p className="text-sm text-muted-foreground mt-1 truncate">{[g.role,g.company].filter(Boolean).join(' • ')}</p>}{(g.email||g.document)&&<p className="text-xs text-muted-foreground mt-0.5 truncate">{[g.email, g.document && `CPF ${isRecepcao ? g.document : formatDocument(g.document)}`].filter(Boolean).join(' • ')}</p>}{customFields.some(f=>g.custom_data?.[f.id]!==undefined)&&<p className="text-xs text-muted-foreground mt-0.5 truncate">{customFields.filter(f=>g.custom_data?.[f.id]!==undefined).map(f=>`${f.label}: ${formatCustomValue(f, g.custom_data?.[f.id])}`).join(' • ')}</p>}</div><div className="flex items-center gap-3 shrink-0">{canEditGuests && <Button variant="ghost" size="icon" onClick={() => { setGuestToEdit(g); setEditFormData({ name: g.name, company: g.company || '', role: g.role || '', category: g.category || '', email: g.email || '', phone: g.phone || '', document: g.document || '', ticket_type: g.ticket_type || '', custom_data: g.custom_data || {} }); setEditGuestOpen(true); }}><Pencil className="h-4 w-4"/></Button>}<Button variant="ghost" size="icon" title="Me avisar quando chegar" onClick={()=>handleToggleWatch(g)}>{watchers.some(w => w.guest_id === g.id && w.user_id === user?.id) ? <BellRing className="h-4 w-4 text-primary"/> : <Bell className="h-4 w-4"/>}</Button><Button variant="ghost" size="icon" onClick={()=>setQrGuest(g)}><QrCode className="h-4 w-4"/></Button><Button variant="ghost" size="icon" onClick={()=>handleOpenPreview(g)}><Printer className="h-4 w-4"/></Button>{canDeleteGuests&&<Button variant="ghost" size="icon" onClick={()=>handleDeleteGuest(g)} className="hover:text-destructive"><Trash2 className="h-4 w-4"/></Button>}<Switch checked={isGuestPresent(g)} onCheckedChange={()=>activeSessionId ? handleToggleSessionCheckIn(g) : handleToggleCheckIn(g)}/></div></div>))}
             </div>
           </TabsContent>
 
@@ -735,16 +1043,29 @@ export default function EventManagement() {
                 </DialogContent>
               </Dialog>
             </div>
+            <BatchPrintBar
+              visibleCount={filteredStaff.length}
+              selectedCount={selectedStaff.length}
+              notPrintedCount={filteredStaff.filter(s => !s.badge_printed_at).length}
+              filter={staffPrintFilter}
+              onFilterChange={setStaffPrintFilter}
+              onToggleAll={(checked) => setSelectedStaffIds(checked ? new Set(filteredStaff.map(s => s.id)) : new Set())}
+              onPrintSelected={() => handlePrintStaffBadges(selectedStaff)}
+              onPrintNotPrinted={() => handlePrintStaffBadges(filteredStaff.filter(s => !s.badge_printed_at))}
+            />
             <div className="space-y-3">
               {filteredStaff.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">Nenhum membro da equipe encontrado.</div>
               ) : filteredStaff.map((s, i) => (
                 <div key={s.id} className="bg-card border border-border rounded-xl p-4 flex items-center justify-between gap-4 animate-fade-in" style={{ animationDelay: `${i * 30}ms` }}>
+                  <Checkbox checked={selectedStaffIds.has(s.id)} onCheckedChange={() => toggleSelected(setSelectedStaffIds, s.id)} />
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-3">
                       <h3 className="font-semibold text-foreground truncate">{s.name}</h3>
                       <Badge style={{ backgroundColor: eventColor }} className="text-white">Equipe</Badge>
+                      {s.badge_printed_at && <span title={printedTitle(s.badge_printed_at)}><Printer className="h-3.5 w-3.5 text-muted-foreground" /></span>}
                       {s.checked_in && <Badge style={{ backgroundColor: eventColor }} className="text-white">Presente</Badge>}
+                      {pendingIds.has(s.id) && <Badge variant="outline" className="border-yellow-500 text-yellow-500">Pendente</Badge>}
                     </div>
                     {s.role && <p className="text-sm text-muted-foreground mt-1 truncate">{s.role}</p>}
                   </div>
@@ -788,6 +1109,26 @@ export default function EventManagement() {
               )}
             </div>
 
+            {sessions.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {sessions.map(s => {
+                  const count = sessionPresence.get(s.id)?.size || 0;
+                  return (
+                    <div key={s.id} className="bg-card border border-border rounded-xl p-4 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-foreground truncate">{s.name}</p>
+                          <p className="text-xs text-muted-foreground">{[formatSessionTime(s), s.room].filter(Boolean).join(' • ')}</p>
+                        </div>
+                        <p className="text-2xl font-bold shrink-0" style={{ color: eventColor }}>{count}{s.capacity ? <span className="text-sm text-muted-foreground">/{s.capacity}</span> : null}</p>
+                      </div>
+                      {s.capacity && <Progress value={Math.min(100, (count / s.capacity) * 100)} className="h-1.5" />}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {liveCheckins.length === 0 ? (
               <div className="bg-card border border-border rounded-xl p-12 text-center">
                 <UserCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -798,20 +1139,25 @@ export default function EventManagement() {
               </div>
             ) : (
               <div className="space-y-3">
-                {liveCheckins.map((checkin, index) => (
+                {liveCheckins.map((checkin, index) => {
+                  // Categorias com destaque (ex: VIP) ganham a cor da categoria e borda dupla
+                  const category = findCategory(guestCategories, checkin.category);
+                  const highlighted = !!category?.highlight;
+                  const accent = highlighted ? category.color : eventColor;
+                  return (
                   <div
                     key={checkin.id}
-                    className={`bg-card border rounded-xl p-4 flex items-center gap-4 transition-all ${index === 0 ? 'border-2 animate-pulse' : 'border-border'}`}
-                    style={index === 0 ? { borderColor: eventColor } : {}}
+                    className={`bg-card border rounded-xl p-4 flex items-center gap-4 transition-all ${index === 0 || highlighted ? 'border-2' : 'border-border'} ${index === 0 ? 'animate-pulse' : ''}`}
+                    style={index === 0 || highlighted ? { borderColor: accent, boxShadow: highlighted ? `0 0 24px ${accent}40` : undefined } : {}}
                   >
                     <div
                       className="h-10 w-10 rounded-full flex items-center justify-center text-white font-bold shrink-0"
-                      style={{ backgroundColor: eventColor }}
+                      style={{ backgroundColor: accent }}
                     >
-                      {checkin.name.charAt(0).toUpperCase()}
+                      {highlighted ? <Star className="h-5 w-5 fill-current" /> : checkin.name.charAt(0).toUpperCase()}
                     </div>
                     <div className="flex-1 min-w-0">
-                      <p className="font-semibold text-foreground truncate">{checkin.name}</p>
+                      <div className="flex items-center gap-2"><p className="font-semibold text-foreground truncate">{checkin.name}</p>{renderCategoryBadge(checkin.category)}</div>
                       {checkin.company && (
                         <p className="text-sm text-muted-foreground truncate">{checkin.company}</p>
                       )}
@@ -825,15 +1171,29 @@ export default function EventManagement() {
                       </p>
                     </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </TabsContent>
 
           {canAccessHistory && (
             <TabsContent value="history" className="space-y-6 animate-fade-in">
-              <div className="flex items-center gap-2 mb-4"><History className="h-5 w-5 text-primary" /><h3 className="text-lg font-semibold text-foreground">Histórico</h3></div>
-              {logsLoading ? <Loader2 className="animate-spin text-primary mx-auto" /> : <div className="space-y-2">{activityLogs.map(log=><div key={log.id} className="bg-card border border-border rounded-lg p-4 flex gap-4"><div className="flex items-center gap-2 text-muted-foreground shrink-0"><Clock className="h-4 w-4"/><span className="text-sm font-mono">{formatLogTime(log.created_at)}</span></div><div className="flex-1 min-w-0"><div className="flex items-center gap-2 flex-wrap"><Badge variant="outline" className="border-primary text-primary">{log.action}</Badge><span className="text-sm text-muted-foreground">{log.user_email}</span></div>{log.details && <p className="text-sm text-foreground mt-1">{log.details}</p>}</div></div>)}</div>}
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <div className="flex items-center gap-2"><History className="h-5 w-5 text-primary" /><h3 className="text-lg font-semibold text-foreground">Histórico</h3></div>
+                <div className="flex gap-2">
+                  <Button variant={historyView === 'activity' ? 'default' : 'outline'} size="sm" className={historyView === 'activity' ? 'bg-primary' : 'border-border'} onClick={() => setHistoryView('activity')}>Atividades</Button>
+                  <Button variant={historyView === 'timeline' ? 'default' : 'outline'} size="sm" className={historyView === 'timeline' ? 'bg-primary' : 'border-border'} onClick={() => setHistoryView('timeline')}>Entradas e Saídas</Button>
+                </div>
+              </div>
+              {historyView === 'timeline' ? (
+                <CheckinTimeline
+                  checkins={checkins}
+                  people={[...guests.map(g => ({ id: g.id, name: g.name, kind: 'guest' as const })), ...staff.map(s => ({ id: s.id, name: s.name, kind: 'staff' as const }))]}
+                  eventColor={eventColor}
+                  sessionNames={Object.fromEntries(sessions.map(s => [s.id, s.name]))}
+                />
+              ) : logsLoading ? <Loader2 className="animate-spin text-primary mx-auto" /> : <div className="space-y-2">{activityLogs.map(log=><div key={log.id} className="bg-card border border-border rounded-lg p-4 flex gap-4"><div className="flex items-center gap-2 text-muted-foreground shrink-0"><Clock className="h-4 w-4"/><span className="text-sm font-mono">{formatLogTime(log.created_at)}</span></div><div className="flex-1 min-w-0"><div className="flex items-center gap-2 flex-wrap"><Badge variant="outline" className="border-primary text-primary">{log.action}</Badge><span className="text-sm text-muted-foreground">{log.user_email}</span></div>{log.details && <p className="text-sm text-foreground mt-1">{log.details}</p>}</div></div>)}</div>}
             </TabsContent>
           )}
 
@@ -1008,10 +1368,35 @@ export default function EventManagement() {
                   <div className="space-y-2"><Label>Data</Label><Input type="datetime-local" value={eventSettings.date} onChange={e=>setEventSettings({...eventSettings, date: e.target.value})} className="bg-card border-border" /></div>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                  <div className="bg-card border border-border rounded-xl p-6 shadow-lg col-span-1"><div className="flex items-center gap-2 border-b border-border pb-4 mb-4"><Monitor className="text-primary" /><h3 className="font-bold">Totem (Térreo)</h3></div><div className="text-sm text-muted-foreground p-4 bg-secondary/30 rounded-lg border border-border text-center"><QrCode className="mx-auto mb-2 opacity-50" size={32} />Gera QR Code automático para check-in. (Sem upload)</div></div>
+                  <div className="bg-card border border-border rounded-xl p-6 shadow-lg col-span-1"><div className="flex items-center gap-2 border-b border-border pb-4 mb-4"><Monitor className="text-primary" /><h3 className="font-bold">Totem (Térreo)</h3></div><div className="space-y-4"><QrCodeDisplay value={`${window.location.origin}/guest/${id}`} size={160} level={eventSettings.qr_style.level} logoUrl={eventSettings.qr_style.logo ? eventSettings.event_logo_url || null : null} className="flex flex-col items-center" frameClassName="bg-white p-3 rounded-lg" downloadName={`qrcode_checkin_${eventSettings.name}`} /><div className="space-y-2"><Label>Correção de erros dos QR Codes</Label><Select value={eventSettings.qr_style.level} onValueChange={(v) => setEventSettings({...eventSettings, qr_style: {...eventSettings.qr_style, level: v as QrLevel}})} disabled={eventSettings.qr_style.logo}><SelectTrigger className="bg-card border-border"><SelectValue /></SelectTrigger><SelectContent>{(Object.keys(QR_LEVEL_LABELS) as QrLevel[]).map(l => <SelectItem key={l} value={l}>{QR_LEVEL_LABELS[l]}</SelectItem>)}</SelectContent></Select></div><div className="flex items-center justify-between gap-4"><div><Label>Logo no centro do QR</Label><p className="text-xs text-muted-foreground">Totem, TV e celular. Usa correção máxima para continuar legível.</p></div><Switch checked={eventSettings.qr_style.logo} onCheckedChange={(v) => setEventSettings({...eventSettings, qr_style: {...eventSettings.qr_style, logo: v}})} disabled={!eventSettings.event_logo_url} /></div><div className="flex items-center justify-between gap-4"><div><Label>Permitir walk-in</Label><p className="text-xs text-muted-foreground">Quem não estiver na lista pode se cadastrar pelo celular.</p></div><Switch checked={eventSettings.allow_walkins} onCheckedChange={(v) => setEventSettings({...eventSettings, allow_walkins: v})} /></div><div className="border-t border-border pt-4 space-y-2"><Label>Lotação máxima</Label><Input type="number" min={1} value={eventSettings.capacity ?? ''} onChange={e => setEventSettings({...eventSettings, capacity: e.target.value ? Math.max(1, Number(e.target.value)) : null})} placeholder="Sem limite" className="bg-card border-border" /><p className="text-xs text-muted-foreground">Conta quem está dentro agora; check-outs liberam lugar. Salas usam a capacidade da sessão.</p></div><div className="space-y-2"><Label>Quando lotar</Label><Select value={eventSettings.capacity_mode} onValueChange={(v) => setEventSettings({...eventSettings, capacity_mode: v as CapacityMode})} disabled={!eventSettings.capacity}><SelectTrigger className="bg-card border-border"><SelectValue /></SelectTrigger><SelectContent>{(Object.keys(CAPACITY_MODE_LABELS) as CapacityMode[]).map(m => <SelectItem key={m} value={m}>{CAPACITY_MODE_LABELS[m]}</SelectItem>)}</SelectContent></Select><p className="text-xs text-muted-foreground">Na lista de espera, quem chega pelo celular aguarda a liberação da recepção. Administradores podem liberar acima do limite.</p></div></div></div>
                   <div className="bg-card border border-border rounded-xl p-6 shadow-lg col-span-1"><div className="flex items-center gap-2 border-b border-border pb-4 mb-4"><Wifi className="text-primary" /><h3 className="font-bold">TV (12º Andar)</h3></div><div className="space-y-4"><Label>Arte Horizontal (1920x1080)</Label><UploadBox label="Arraste a Arte da TV" icon="image" previewUrl={eventSettings.wifi_img_url} onUpload={(url) => setEventSettings({...eventSettings, wifi_img_url: url})} /><p className="text-xs text-muted-foreground">Esta imagem aparecerá na TV.</p></div></div>
-                  <div className="bg-card border border-border rounded-xl p-6 shadow-lg col-span-1"><div className="flex items-center gap-2 border-b border-border pb-4 mb-4"><Smartphone className="text-primary" /><h3 className="font-bold">Celular / Dados</h3></div><div className="space-y-4"><Label>Arte Vertical (Mobile)</Label><UploadBox label="Arraste a Arte do Celular" icon="image" previewUrl={eventSettings.photo_img_url} onUpload={(url) => setEventSettings({...eventSettings, photo_img_url: url})} /><div className="space-y-1"><Label>SSID Wi-Fi</Label><Input value={eventSettings.wifi_ssid} onChange={e=>setEventSettings({...eventSettings, wifi_ssid: e.target.value})} className="bg-secondary border-border"/></div><div className="space-y-1"><Label>Senha Wi-Fi</Label><Input value={eventSettings.wifi_pass} onChange={e=>setEventSettings({...eventSettings, wifi_pass: e.target.value})} className="bg-secondary border-border"/></div><div className="space-y-1"><Label>Link Moments</Label><Input value={eventSettings.photo_url} onChange={e=>setEventSettings({...eventSettings, photo_url: e.target.value})} className="bg-secondary border-border"/></div></div></div>
+                  <div className="bg-card border border-border rounded-xl p-6 shadow-lg col-span-1"><div className="flex items-center gap-2 border-b border-border pb-4 mb-4"><Smartphone className="text-primary" /><h3 className="font-bold">Celular / Dados</h3></div><div className="space-y-4"><Label>Arte Vertical (Mobile)</Label><UploadBox label="Arraste a Arte do Celular" icon="image" previewUrl={eventSettings.photo_img_url} onUpload={(url) => setEventSettings({...eventSettings, photo_img_url: url})} /><div className="space-y-1"><Label>SSID Wi-Fi</Label><Input value={eventSettings.wifi_ssid} onChange={e=>setEventSettings({...eventSettings, wifi_ssid: e.target.value})} className="bg-secondary border-border"/></div><div className="space-y-1"><Label>Segurança</Label><Select value={eventSettings.wifi_security} onValueChange={v=>setEventSettings({...eventSettings, wifi_security: v as WifiSecurity})}><SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger><SelectContent>{(Object.keys(WIFI_SECURITY_LABELS) as WifiSecurity[]).map(s => <SelectItem key={s} value={s}>{WIFI_SECURITY_LABELS[s]}</SelectItem>)}</SelectContent></Select></div>{eventSettings.wifi_security !== 'nopass' && <div className="space-y-1"><Label>Senha Wi-Fi</Label><Input value={eventSettings.wifi_pass} onChange={e=>setEventSettings({...eventSettings, wifi_pass: e.target.value})} className="bg-secondary border-border"/></div>}<div className="flex items-center justify-between"><Label>Rede oculta</Label><Switch checked={eventSettings.wifi_hidden} onCheckedChange={c=>setEventSettings({...eventSettings, wifi_hidden: c})} /></div><WifiQrTest network={eventWifiNetwork(eventSettings)} qrStyle={eventSettings.qr_style} logoUrl={eventSettings.event_logo_url} /><div className="space-y-1"><Label>Link Moments</Label><Input value={eventSettings.photo_url} onChange={e=>setEventSettings({...eventSettings, photo_url: e.target.value})} className="bg-secondary border-border"/></div></div></div>
                 </div>
+                <TotemKioskSettings
+                  settings={eventSettings.kiosk_settings}
+                  onChange={(kiosk_settings) => setEventSettings({...eventSettings, kiosk_settings})}
+                  sponsorUpload={<UploadBox label="Adicionar patrocinador" icon="image" onUpload={(url) => setEventSettings(prev => ({...prev, kiosk_settings: {...prev.kiosk_settings, sponsor_images: [...prev.kiosk_settings.sponsor_images, url]}}))} />}
+                />
+                <BadgeDesigner
+                  template={eventSettings.badge_template}
+                  onChange={(badge_template) => setEventSettings({...eventSettings, badge_template})}
+                  sample={{ name: 'Maria Aparecida Souza', company: 'Floripa Square', role: 'Diretora', category: eventSettings.guest_categories[0] || null, qrValue: 'exemplo' }}
+                  logoUrl={eventSettings.event_logo_url || null}
+                />
+                <CategoryManager categories={eventSettings.guest_categories} onChange={(guest_categories) => setEventSettings({...eventSettings, guest_categories})} />
+                <CustomFieldManager fields={eventSettings.custom_fields} onChange={(custom_fields) => setEventSettings({...eventSettings, custom_fields})} />
+                {eventSettings.allow_walkins && <WalkinFormBuilder items={eventSettings.walkin_form} customFields={eventSettings.custom_fields} onChange={(walkin_form) => setEventSettings({...eventSettings, walkin_form})} eventName={eventSettings.name} guestUrl={`/guest/${id}`} />}
+                <PrivacySettings
+                  consent={eventSettings.consent}
+                  onConsentChange={(consent) => setEventSettings({...eventSettings, consent})}
+                  retentionDays={eventSettings.retention_days}
+                  onRetentionChange={(retention_days) => setEventSettings({...eventSettings, retention_days})}
+                  anonymizedAt={event?.anonymized_at || null}
+                  onAnonymize={isAdmin ? handleAnonymizeEvent : undefined}
+                />
+                <ArrivalsDisplaySettings settings={eventSettings.arrivals_wall} onChange={(arrivals_wall) => setEventSettings({...eventSettings, arrivals_wall})} wallUrl={`/arrivals/${id}`} />
+                <CheckinNotificationSettings settings={eventSettings.notification_settings} onChange={(notification_settings) => setEventSettings({...eventSettings, notification_settings})} />
+                <SessionManager eventId={id!} sessions={sessions} onChanged={fetchSessions} />
                 <div className="pt-6 border-t border-border flex justify-end"><Button type="submit" className="bg-primary hover:bg-primary/90 px-8 py-6 h-auto text-lg" disabled={saving}>{saving ? <Loader2 className="h-4 w-4 animate-spin"/> : 'Salvar Tudo'}</Button></div>
               </form>
             </TabsContent>
@@ -1019,14 +1404,93 @@ export default function EventManagement() {
         </Tabs>
 
         <Dialog open={editGuestOpen} onOpenChange={setEditGuestOpen}>
-          <DialogContent className="bg-card border-border">
+          <DialogContent className="bg-card border-border max-h-[90vh] overflow-y-auto">
             <DialogHeader><DialogTitle>Editar Convidado</DialogTitle></DialogHeader>
             <form onSubmit={handleSaveEdit} className="space-y-4 mt-4">
               <div className="space-y-2"><Label>Nome *</Label><Input value={editFormData.name} onChange={(e) => setEditFormData({ ...editFormData, name: e.target.value })} required className="bg-secondary border-border" /></div>
               <div className="space-y-2"><Label>Empresa</Label><Input value={editFormData.company} onChange={(e) => setEditFormData({ ...editFormData, company: e.target.value })} className="bg-secondary border-border" /></div>
               <div className="space-y-2"><Label>Cargo</Label><Input value={editFormData.role} onChange={(e) => setEditFormData({ ...editFormData, role: e.target.value })} className="bg-secondary border-border" /></div>
+              <div className="space-y-2"><Label>E-mail</Label><Input type="email" value={editFormData.email} onChange={(e) => setEditFormData({ ...editFormData, email: e.target.value })} className="bg-secondary border-border" /></div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2"><Label>Telefone</Label><Input value={editFormData.phone} onChange={(e) => setEditFormData({ ...editFormData, phone: e.target.value })} className="bg-secondary border-border" /></div>
+                <div className="space-y-2"><Label>CPF</Label><Input value={editFormData.document} onChange={(e) => setEditFormData({ ...editFormData, document: e.target.value })} className="bg-secondary border-border" /></div>
+              </div>
+              <div className="space-y-2"><Label>Tipo de ingresso</Label><Input value={editFormData.ticket_type} onChange={(e) => setEditFormData({ ...editFormData, ticket_type: e.target.value })} className="bg-secondary border-border" /></div>
+              <CustomFieldInputs fields={customFields} values={editFormData.custom_data} onChange={(custom_data) => setEditFormData({ ...editFormData, custom_data })} />
+              {guestCategories.length > 0 && (
+                <div className="space-y-2"><Label>Categoria</Label>
+                  <Select value={editFormData.category || 'none'} onValueChange={(v) => setEditFormData({ ...editFormData, category: v === 'none' ? '' : v })}>
+                    <SelectTrigger className="bg-secondary border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent><SelectItem value="none">Sem categoria</SelectItem>{guestCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+              )}
               <Button type="submit" className="w-full bg-primary" disabled={adding}>Salvar Alterações</Button>
             </form>
+            {guestToEdit && (
+              <div className="border-t border-border pt-4">
+                <GuestWatchers eventId={id!} guestId={guestToEdit.id} watchers={watchers.filter(w => w.guest_id === guestToEdit.id)} onChanged={fetchWatchers} />
+              </div>
+            )}
+            {isAdmin && guestToEdit && (
+              <div className="border-t border-border pt-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <ShieldCheck className="h-4 w-4" />
+                  {guestToEdit.consent ? `Consentimento v${guestToEdit.consent.version} em ${new Date(guestToEdit.consent.accepted_at).toLocaleString('pt-BR')}` : 'Sem consentimento registrado'}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <Button type="button" variant="outline" className="border-border" onClick={() => handleExportGuestData(guestToEdit)}><Download className="h-4 w-4 mr-2" />Exportar dados</Button>
+                  <Button type="button" variant="outline" className="border-border hover:text-destructive" onClick={() => handleAnonymizeGuest(guestToEdit)} disabled={!!guestToEdit.anonymized_at}><UserX className="h-4 w-4 mr-2" />Excluir dados</Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {canImportExport && <InvitationDialog open={invitationOpen} onOpenChange={setInvitationOpen} eventId={id!} eventName={eventSettings.name} eventDate={event?.date || ''} template={resolveInvitationTemplate(event?.invitation_template)} guests={guests} selectedIds={selectedGuestIds} onSent={handleInvitationsSent} />}
+        {canImportExport && <ImportWizard open={importOpen} onOpenChange={setImportOpen} eventId={id!} guests={guests} categories={guestCategories} customFields={customFields} consent={eventSettings.consent} onImported={handleImported} />}
+
+        {/* MODAL IMPRESSORA TÉRMICA (PONTE LOCAL) */}
+        <Dialog open={printerOpen} onOpenChange={setPrinterOpen}>
+          <DialogContent className="bg-card border-border max-w-md">
+            <DialogHeader><DialogTitle className="flex items-center gap-2"><Printer className="h-5 w-5 text-primary" />Impressora desta Recepção</DialogTitle></DialogHeader>
+            <PrintBridgeSettings settings={printBridge} onChange={handlePrintBridgeChange} onTest={handleTestPrint} />
+          </DialogContent>
+        </Dialog>
+
+        {/* MODAL SCANNER DE QR PESSOAL */}
+        <Dialog open={scannerOpen} onOpenChange={setScannerOpen}>
+          <DialogContent className="bg-card border-border max-w-md">
+            <DialogHeader><DialogTitle className="flex items-center gap-2"><ScanLine className="h-5 w-5 text-primary" />Scanner de Check-in</DialogTitle></DialogHeader>
+            <div className="space-y-4">
+              {scannerOpen && <QrScanner onScan={handleScan} />}
+              {scanResult ? (
+                <div className={`rounded-lg p-4 text-center font-semibold ${scanResult.status === 'ok' ? 'bg-green-500/15 text-green-400' : scanResult.status === 'already' ? 'bg-yellow-500/15 text-yellow-400' : 'bg-destructive/15 text-destructive'}`}>
+                  {scanResult.status === 'ok' && <>Check-in: {scanResult.name}</>}
+                  {scanResult.status === 'already' && <>{scanResult.name} já está presente</>}
+                  {scanResult.status === 'invalid' && <>QR Code não pertence a este evento</>}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center">Aponte o QR Code do convite para a câmera.</p>
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* MODAL QR PESSOAL DO CONVIDADO */}
+        <Dialog open={!!qrGuest} onOpenChange={(open) => !open && setQrGuest(null)}>
+          <DialogContent className="bg-card border-border max-w-sm">
+            <DialogHeader><DialogTitle>QR Code Pessoal</DialogTitle></DialogHeader>
+            {qrGuest && (
+              <div className="flex flex-col items-center gap-4">
+                <QrCodeDisplay value={qrGuest.checkin_token} size={220} frameClassName="bg-white p-4 rounded-xl" downloadName={`qrcode_${qrGuest.name}`} />
+                <div className="text-center">
+                  <p className="font-semibold text-foreground">{qrGuest.name}</p>
+                  {qrGuest.company && <p className="text-sm text-muted-foreground">{qrGuest.company}</p>}
+                </div>
+                <p className="text-xs text-muted-foreground font-mono break-all text-center">{qrGuest.checkin_token}</p>
+              </div>
+            )}
           </DialogContent>
         </Dialog>
 
@@ -1042,7 +1506,7 @@ export default function EventManagement() {
           </DialogContent>
         </Dialog>
 
-        {/* MODAL PREVIEW DA ETIQUETA - ESTILO BARTENDER COM AJUSTES */}
+        {/* MODAL PREVIEW DA ETIQUETA - ESTILO BARTENDER */}
         <Dialog open={!!previewGuest} onOpenChange={(open) => !open && setPreviewGuest(null)}>
           <DialogContent className="bg-[#1e1e1e] border-[#333] max-w-xl">
             <DialogHeader>
@@ -1052,166 +1516,12 @@ export default function EventManagement() {
               </DialogTitle>
             </DialogHeader>
             <div className="space-y-4">
-              {/* PREVIEW DA ETIQUETA - Escala: 1mm = 3.78px (96dpi) */}
+              {/* PREVIEW DA ETIQUETA - mesmo HTML da impressão */}
               <div className="bg-[#0d0d0d] rounded-lg p-4">
-                {/* Régua superior */}
-                <div className="flex justify-between text-[9px] text-gray-600 mb-1 font-mono" style={{ width: '340px', margin: '0 auto' }}>
-                  <span>|0</span>
-                  <span>45|</span>
-                  <span>90mm|</span>
-                </div>
-
-                {/* Container da etiqueta */}
-                <div className="flex justify-center">
-                  <div className="relative" style={{ width: '340px', height: '132px' }}>
-                    {/* Sombra */}
-                    <div className="absolute inset-0 bg-black/40 rounded" style={{ transform: 'translate(3px, 3px)' }} />
-
-                    {/* ETIQUETA - 90mm x 35mm em escala */}
-                    <div
-                      className="relative bg-white rounded overflow-hidden border border-gray-300"
-                      style={{ width: '340px', height: '132px' }}
-                    >
-                      {/* Conteúdo centralizado */}
-                      <div
-                        className="w-full h-full flex flex-col justify-center items-center text-center"
-                        style={{ padding: '0 11px' }}
-                      >
-                        {/* NOME - Usa o valor ajustável */}
-                        <div
-                          style={{
-                            width: '100%',
-                            fontFamily: "'Inter', Arial, sans-serif",
-                            fontWeight: 800,
-                            fontSize: `${nameFontSize * 1.24}px`,
-                            lineHeight: 1.1,
-                            marginBottom: '6px',
-                            color: '#000000',
-                            overflow: 'hidden',
-                            textOverflow: 'ellipsis',
-                            whiteSpace: 'nowrap'
-                          }}
-                        >
-                          {previewGuest ? formatNameForBadge(previewGuest.name) : ''}
-                        </div>
-
-                        {/* EMPRESA - Usa o valor ajustável */}
-                        {previewGuest?.company && (
-                          <div
-                            style={{
-                              width: '100%',
-                              fontFamily: "'Inter', Arial, sans-serif",
-                              fontWeight: 500,
-                              fontSize: `${companyFontSize * 1.2}px`,
-                              lineHeight: 1.2,
-                              color: '#000000',
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              whiteSpace: 'nowrap'
-                            }}
-                          >
-                            {previewGuest.company}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Info */}
-                <div className="flex justify-center gap-3 mt-2 text-[10px] text-gray-500">
-                  <span>90mm × 35mm</span>
-                  <span>•</span>
-                  <span>Landscape</span>
-                </div>
-              </div>
-
-              {/* CONTROLES DE AJUSTE DE FONTE */}
-              <div className="bg-[#252525] rounded-lg p-4 space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-300 flex items-center gap-2">
-                    <Type className="h-4 w-4" />
-                    Ajustar Fontes
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-gray-400 hover:text-white h-7 px-2"
-                    onClick={() => { setNameFontSize(17); setCompanyFontSize(10); }}
-                  >
-                    <RotateCcw className="h-3 w-3 mr-1" />
-                    Reset
-                  </Button>
-                </div>
-
-                {/* Controle do Nome */}
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-xs text-gray-400">Nome</span>
-                    <span className="text-xs font-mono" style={{ color: eventColor }}>{nameFontSize}pt</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]"
-                      onClick={() => setNameFontSize(Math.max(10, nameFontSize - 1))}
-                    >
-                      <Minus className="h-3 w-3" />
-                    </Button>
-                    <Slider
-                      value={[nameFontSize]}
-                      onValueChange={(v) => setNameFontSize(v[0])}
-                      min={10}
-                      max={28}
-                      step={1}
-                      className="flex-1"
-                    />
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]"
-                      onClick={() => setNameFontSize(Math.min(28, nameFontSize + 1))}
-                    >
-                      <PlusIcon className="h-3 w-3" />
-                    </Button>
-                  </div>
-                </div>
-
-                {/* Controle da Empresa */}
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-xs text-gray-400">Empresa</span>
-                    <span className="text-xs font-mono" style={{ color: eventColor }}>{companyFontSize}pt</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]"
-                      onClick={() => setCompanyFontSize(Math.max(6, companyFontSize - 1))}
-                    >
-                      <Minus className="h-3 w-3" />
-                    </Button>
-                    <Slider
-                      value={[companyFontSize]}
-                      onValueChange={(v) => setCompanyFontSize(v[0])}
-                      min={6}
-                      max={18}
-                      step={1}
-                      className="flex-1"
-                    />
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]"
-                      onClick={() => setCompanyFontSize(Math.min(18, companyFontSize + 1))}
-                    >
-                      <PlusIcon className="h-3 w-3" />
-                    </Button>
-                  </div>
-                </div>
+                {previewGuest && <BadgePreview badge={guestBadge(previewGuest)} template={eventSettings.badge_template} logoUrl={eventSettings.event_logo_url || null} />}
               </div>
+              {previewGuest?.badge_printed_at && <p className="text-xs text-yellow-500 text-center">Reimpressão — {printedTitle(previewGuest.badge_printed_at).toLowerCase()}.</p>}
+              {canAccessSettings && <p className="text-xs text-gray-500 text-center">O layout é definido em Configurações → Modelo da Etiqueta.</p>}
 
               {/* Botões */}
               <div className="flex gap-3">
@@ -1246,82 +1556,7 @@ export default function EventManagement() {
             </DialogHeader>
             <div className="space-y-4">
               <div className="bg-[#0d0d0d] rounded-lg p-4">
-                <div className="flex justify-between text-[9px] text-gray-600 mb-1 font-mono" style={{ width: '340px', margin: '0 auto' }}>
-                  <span>|0</span>
-                  <span>45|</span>
-                  <span>90mm|</span>
-                </div>
-                <div className="flex justify-center">
-                  <div className="relative" style={{ width: '340px', height: '132px' }}>
-                    <div className="absolute inset-0 bg-black/40 rounded" style={{ transform: 'translate(3px, 3px)' }} />
-                    <div className="relative bg-white rounded overflow-hidden border border-gray-300" style={{ width: '340px', height: '132px' }}>
-                      <div className="w-full h-full flex flex-col justify-center items-center text-center" style={{ padding: '0 11px' }}>
-                        <div
-                          style={{
-                            width: '100%',
-                            fontFamily: "'Inter', Arial, sans-serif",
-                            fontWeight: 800,
-                            fontSize: `${nameFontSize * 1.24}px`,
-                            lineHeight: 1.1,
-                            marginBottom: '6px',
-                            color: '#000000',
-                            overflow: 'hidden',
-                            textOverflow: 'ellipsis',
-                            whiteSpace: 'nowrap'
-                          }}
-                        >
-                          {previewStaff ? formatNameForBadge(previewStaff.name) : ''}
-                        </div>
-                        <div
-                          style={{
-                            width: '100%',
-                            fontFamily: "'Inter', Arial, sans-serif",
-                            fontWeight: 500,
-                            fontSize: `${companyFontSize * 1.2}px`,
-                            lineHeight: 1.2,
-                            color: '#000000',
-                            overflow: 'hidden',
-                            textOverflow: 'ellipsis',
-                            whiteSpace: 'nowrap'
-                          }}
-                        >
-                          {previewStaff?.role || 'Equipe'}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-                <div className="flex justify-center gap-3 mt-2 text-[10px] text-gray-500">
-                  <span style={{ color: eventColor }}>Equipe</span>
-                  <span>•</span>
-                  <span>90mm × 35mm</span>
-                </div>
-              </div>
-
-              {/* CONTROLES DE AJUSTE DE FONTE */}
-              <div className="bg-[#252525] rounded-lg p-4 space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-300 flex items-center gap-2"><Type className="h-4 w-4" />Ajustar Fontes</span>
-                  <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white h-7 px-2" onClick={() => { setNameFontSize(17); setCompanyFontSize(10); }}>
-                    <RotateCcw className="h-3 w-3 mr-1" />Reset
-                  </Button>
-                </div>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between"><span className="text-xs text-gray-400">Nome</span><span className="text-xs font-mono" style={{ color: eventColor }}>{nameFontSize}pt</span></div>
-                  <div className="flex items-center gap-2">
-                    <Button variant="outline" size="icon" className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]" onClick={() => setNameFontSize(Math.max(10, nameFontSize - 1))}><Minus className="h-3 w-3" /></Button>
-                    <Slider value={[nameFontSize]} onValueChange={(v) => setNameFontSize(v[0])} min={10} max={28} step={1} className="flex-1" />
-                    <Button variant="outline" size="icon" className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]" onClick={() => setNameFontSize(Math.min(28, nameFontSize + 1))}><PlusIcon className="h-3 w-3" /></Button>
-                  </div>
-                </div>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between"><span className="text-xs text-gray-400">Função</span><span className="text-xs font-mono" style={{ color: eventColor }}>{companyFontSize}pt</span></div>
-                  <div className="flex items-center gap-2">
-                    <Button variant="outline" size="icon" className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]" onClick={() => setCompanyFontSize(Math.max(6, companyFontSize - 1))}><Minus className="h-3 w-3" /></Button>
-                    <Slider value={[companyFontSize]} onValueChange={(v) => setCompanyFontSize(v[0])} min={6} max={18} step={1} className="flex-1" />
-                    <Button variant="outline" size="icon" className="h-7 w-7 border-[#444] text-gray-400 hover:text-white hover:bg-[#333]" onClick={() => setCompanyFontSize(Math.min(18, companyFontSize + 1))}><PlusIcon className="h-3 w-3" /></Button>
-                  </div>
-                </div>
+                {previewStaff && <BadgePreview badge={staffBadge(previewStaff)} template={eventSettings.badge_template} logoUrl={eventSettings.event_logo_url || null} />}
               </div>
 
               <div className="flex gap-3">
@@ -1,62 +1,166 @@
 import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, CheckCircle2, Camera, Wifi } from 'lucide-react';
+import { normalizeText } from '@/lib/text';
+import { CheckinResult, selfCheckin, walkinCheckin } from '@/lib/checkin';
+import { WalkinAnswers, missingWalkinAnswers, resolveWalkinForm, walkinGuestData } from '@/lib/walkinForm';
+import WalkinFields from '@/components/event/WalkinFields';
+import { missingConsent, recordGuestConsent, resolveConsent } from '@/lib/consent';
+import { GuestSearchMatch, MIN_SEARCH_LENGTH, searchGuests } from '@/lib/guestSearch';
+import ConsentFields from '@/components/event/ConsentFields';
+import { Loader2, CheckCircle2, Camera, Wifi, Search, UserCheck, ArrowLeft, Hourglass } from 'lucide-react';
+
+// Busca no servidor só com 3 letras e poucos resultados (privacidade da lista)
+const MAX_RESULTS = 8;
+const SEARCH_DELAY_MS = 300;
 
 export default function GuestCheckin() {
   const { id } = useParams<{ id: string }>();
+  // QR da porta de uma sala: /guest/:id?session=<id>
+  const [searchParams] = useSearchParams();
+  const sessionId = searchParams.get('session');
   const { toast } = useToast();
   const [event, setEvent] = useState<any>(null);
+  const [session, setSession] = useState<{ name: string; room: string | null } | null>(null);
   const [loading, setLoading] = useState(true);
   const [checkinLoading, setCheckinLoading] = useState(false);
   const [confirmed, setConfirmed] = useState(false);
-  
+  // Evento lotado com lista de espera: posição de quem tentou entrar
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+
+  // Etapas: busca na lista -> confirmação da própria linha -> (opcional) cadastro walk-in
+  const [step, setStep] = useState<'search' | 'confirm' | 'walkin'>('search');
+  const [searchTerm, setSearchTerm] = useState('');
+  // null = busca em andamento
+  const [matches, setMatches] = useState<GuestSearchMatch[] | null>([]);
+  const [selectedGuest, setSelectedGuest] = useState<GuestSearchMatch | null>(null);
+
   const [name, setName] = useState('');
-  const [company, setCompany] = useState('');
+  const [answers, setAnswers] = useState<WalkinAnswers>({});
+  const [consentAnswers, setConsentAnswers] = useState<Record<string, boolean>>({});
+  // Walk-in recusado por lotação: não oferece o cadastro de novo
+  const [walkinsFull, setWalkinsFull] = useState(false);
 
   useEffect(() => {
     async function fetchEvent() {
       if (!id) return;
       const { data, error } = await supabase.from('events').select('*').eq('id', id).single();
-      if (data) setEvent(data);
+      if (data) {
+        setEvent(data);
+        if (sessionId) {
+          const { data: sessionData } = await supabase.from('event_sessions').select('name, room').eq('id', sessionId).eq('event_id', id).maybeSingle();
+          setSession(sessionData);
+        }
+      }
       setLoading(false);
     }
     fetchEvent();
-  }, [id]);
+  }, [id, sessionId]);
+
+  const normalizedSearch = normalizeText(searchTerm.trim());
+
+  // Consulta depois de uma pausa na digitação; respostas atrasadas são descartadas
+  useEffect(() => {
+    if (!id || normalizedSearch.length < MIN_SEARCH_LENGTH) { setMatches([]); return; }
+    let active = true;
+    setMatches(null);
+    const timer = setTimeout(async () => {
+      const { matches } = await searchGuests(id, normalizedSearch, MAX_RESULTS);
+      if (active) setMatches(matches);
+    }, SEARCH_DELAY_MS);
+    return () => { active = false; clearTimeout(timer); };
+  }, [id, normalizedSearch]);
+
+  const allowWalkins = event?.allow_walkins ?? true;
+  const walkinItems = resolveWalkinForm(event?.walkin_form, event?.custom_fields || []);
+  const consentSettings = resolveConsent(event?.consent);
+  const askConsent = step === 'walkin' ? consentSettings.enabled : consentSettings.enabled && !!selectedGuest?.needs_consent;
+
+  const checkConsent = () => {
+    if (!askConsent || !missingConsent(consentSettings, consentAnswers)) return true;
+    toast({ title: "Consentimento", description: "Marque as caixas obrigatórias para continuar.", variant: "destructive" });
+    return false;
+  };
+
+  const handleSelectGuest = (guest: GuestSearchMatch) => {
+    setSelectedGuest(guest);
+    setStep('confirm');
+  };
+
+  const handleStartWalkin = () => {
+    setName(searchTerm.trim());
+    setStep('walkin');
+  };
+
+  // Resposta do self_checkin/walkin_checkin: entrada, lista de espera ou lotação esgotada
+  const handleCheckinResult = (result: CheckinResult | null, error: unknown) => {
+    if (!error && (result?.status === 'ok' || result?.status === 'conflict')) {
+      setConfirmed(true);
+    } else if (!error && result?.status === 'waitlisted') {
+      setWaitlistPosition(result.position ?? 1);
+    } else if (!error && result?.status === 'full') {
+      toast({ title: "Lotação esgotada", description: result.scope === 'session' ? "Esta sala está lotada. Procure a recepção." : "O evento atingiu a lotação máxima. Procure a recepção.", variant: "destructive" });
+    } else {
+      toast({ title: "Erro", description: "Não foi possível realizar o check-in.", variant: "destructive" });
+    }
+  };
+
+  // Confirma a linha já existente na lista (sem criar duplicata)
+  const handleConfirmGuest = async () => {
+    if (!selectedGuest || !checkConsent()) return;
+    setName(selectedGuest.name);
+    setCheckinLoading(true);
+
+    // Aceite do termo (versão atual) antes do check-in; sem o registro, não entra
+    if (askConsent) {
+      const { error } = await recordGuestConsent(selectedGuest.id, consentAnswers, 'mobile');
+      if (error) {
+        setCheckinLoading(false);
+        toast({ title: "Erro", description: "Não foi possível registrar o consentimento. Tente novamente.", variant: "destructive" });
+        return;
+      }
+    }
+
+    // Na sala, o check-in no evento não basta: a presença da sessão é registrada à parte
+    if (selectedGuest.checked_in && !session) {
+      setCheckinLoading(false);
+      setConfirmed(true);
+      return;
+    }
+
+    // Registra no histórico e grava o log no servidor (check-in já feito conta como sucesso)
+    const { result, error } = await selfCheckin(selectedGuest.id, 'mobile', session ? sessionId : null);
+    setCheckinLoading(false);
+    handleCheckinResult(result, error);
+  };
 
   const handleCheckIn = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name.trim()) return;
+    if (!name.trim() || !allowWalkins || walkinsFull) return;
+
+    const missing = missingWalkinAnswers(walkinItems, answers);
+    if (missing.length > 0) {
+      toast({ title: "Campos obrigatórios", description: `Preencha: ${missing.join(', ')}.`, variant: "destructive" });
+      return;
+    }
+    if (!checkConsent()) return;
 
     setCheckinLoading(true);
-    
-    // 1. Cria o convidado na lista (Auto Check-in)
-    const { error } = await supabase.from('guests').insert({
-      event_id: id,
-      name: name,
-      company: company || null,
-      checked_in: true, // Já marca como presente
-      checkin_time: new Date().toISOString()
-    });
 
+    // Cadastro e presença no servidor, que confere a lotação antes de criar o convidado
+    const { result, error } = await walkinCheckin(id, name, walkinGuestData(walkinItems, answers), askConsent ? consentAnswers : null, session ? sessionId : null);
     setCheckinLoading(false);
 
-    if (error) {
-      toast({ title: "Erro", description: "Não foi possível realizar o check-in.", variant: "destructive" });
-    } else {
-      setConfirmed(true);
-      // Log de atividade (Opcional)
-      await supabase.from('activity_logs').insert({
-        event_id: id,
-        action: 'Auto Check-in',
-        details: `${name} (Via Mobile)`
-      });
+    if (!error && result?.status === 'full') {
+      setWalkinsFull(true);
+      setStep('search');
     }
+    handleCheckinResult(result, error);
   };
 
   if (loading) return <div className="min-h-screen bg-black flex items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-[#f37021]" /></div>;
@@ -66,8 +170,23 @@ export default function GuestCheckin() {
   return (
     <div className="min-h-screen bg-black p-6 flex flex-col items-center justify-center">
       
-      {/* TELA DE SUCESSO (PÓS CONFIRMAÇÃO) */}
-      {confirmed ? (
+      {/* LISTA DE ESPERA (EVENTO LOTADO) */}
+      {waitlistPosition !== null && !confirmed ? (
+        <div className="w-full max-w-md text-center space-y-6 animate-in fade-in zoom-in duration-500">
+          <div className="flex justify-center">
+            <div className="h-24 w-24 bg-yellow-500/10 rounded-full flex items-center justify-center">
+              <Hourglass className="h-12 w-12 text-yellow-500" />
+            </div>
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">Lista de espera</h1>
+            <p className="text-xl text-[#f37021] font-semibold">{name}</p>
+            <p className="text-gray-400 mt-2">O evento atingiu a lotação máxima. Você é o(a) {waitlistPosition}º da fila; a recepção vai liberar sua entrada assim que houver lugar.</p>
+          </div>
+          <p className="text-sm text-gray-600 mt-8">Floripa Square Eventos</p>
+        </div>
+      ) : confirmed ? (
+        /* TELA DE SUCESSO (PÓS CONFIRMAÇÃO) */
         <div className="w-full max-w-md text-center space-y-8 animate-in fade-in zoom-in duration-500">
           <div className="flex justify-center">
             <div className="h-24 w-24 bg-green-500/10 rounded-full flex items-center justify-center">
@@ -78,7 +197,7 @@ export default function GuestCheckin() {
           <div>
             <h1 className="text-3xl font-bold text-white mb-2">Bem-vindo(a)!</h1>
             <p className="text-xl text-[#f37021] font-semibold">{name}</p>
-            <p className="text-gray-400 mt-2">Seu check-in foi realizado com sucesso.</p>
+            <p className="text-gray-400 mt-2">{session ? `Presença registrada em ${session.name}.` : 'Seu check-in foi realizado com sucesso.'}</p>
           </div>
 
           <div className="space-y-4">
@@ -125,41 +244,127 @@ export default function GuestCheckin() {
           <p className="text-sm text-gray-600 mt-8">Floripa Square Eventos</p>
         </div>
       ) : (
-        /* TELA DE CHECK-IN (FORMULÁRIO) */
+        /* TELA DE CHECK-IN (BUSCA NA LISTA / WALK-IN) */
         <Card className="w-full max-w-md bg-[#1A1A1A] border-[#333]">
           <CardHeader className="text-center">
             <CardTitle className="text-2xl text-white">{event.name}</CardTitle>
-            <CardDescription>Confirme sua presença para acessar</CardDescription>
+            {session && <p className="text-[#f37021] font-semibold">{session.name}{session.room ? ` • ${session.room}` : ''}</p>}
+            <CardDescription>
+              {step === 'walkin' ? 'Preencha seus dados para entrar' : 'Encontre seu nome na lista de convidados'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleCheckIn} className="space-y-4">
-              <div className="space-y-2">
-                <Label className="text-gray-300">Seu Nome Completo</Label>
-                <Input 
-                  value={name} 
-                  onChange={e => setName(e.target.value)} 
-                  placeholder="Ex: João Silva" 
-                  className="bg-black border-[#333] text-white h-12 text-lg focus:border-[#f37021]"
-                  required 
-                />
+            {step === 'search' && (
+              <div className="space-y-4">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-500" />
+                  <Input
+                    value={searchTerm}
+                    onChange={e => setSearchTerm(e.target.value)}
+                    placeholder="Digite seu nome"
+                    className="bg-black border-[#333] text-white h-12 text-lg pl-11 focus:border-[#f37021]"
+                    autoFocus
+                  />
+                </div>
+
+                {normalizedSearch.length < MIN_SEARCH_LENGTH ? (
+                  <p className="text-sm text-gray-500 text-center">Digite ao menos {MIN_SEARCH_LENGTH} letras.</p>
+                ) : !matches ? (
+                  <div className="flex justify-center"><Loader2 className="h-5 w-5 animate-spin text-gray-500" /></div>
+                ) : matches.length === 0 ? (
+                  <p className="text-sm text-gray-400 text-center">Nenhum convidado encontrado com esse nome.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {matches.map(g => (
+                      <button
+                        key={g.id}
+                        type="button"
+                        onClick={() => handleSelectGuest(g)}
+                        className="w-full text-left bg-black border border-[#333] hover:border-[#f37021] rounded-lg p-4 transition-colors"
+                      >
+                        <p className="text-white font-semibold">{g.name}</p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {normalizedSearch.length >= MIN_SEARCH_LENGTH && (
+                  walkinsFull ? (
+                    <p className="text-xs text-gray-500 text-center">Não encontrou seu nome? A lotação está esgotada; procure a recepção.</p>
+                  ) : allowWalkins ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="w-full text-gray-400 hover:text-white"
+                      onClick={handleStartWalkin}
+                    >
+                      Não encontrei meu nome
+                    </Button>
+                  ) : (
+                    <p className="text-xs text-gray-500 text-center">Não encontrou seu nome? Procure a recepção do evento.</p>
+                  )
+                )}
               </div>
-              <div className="space-y-2">
-                <Label className="text-gray-300">Empresa (Opcional)</Label>
-                <Input 
-                  value={company} 
-                  onChange={e => setCompany(e.target.value)} 
-                  placeholder="Ex: Floripa Square" 
-                  className="bg-black border-[#333] text-white focus:border-[#f37021]"
-                />
+            )}
+
+            {step === 'confirm' && selectedGuest && (
+              <div className="space-y-6 text-center">
+                <div className="bg-black border border-[#333] rounded-lg p-6">
+                  <UserCheck className="h-8 w-8 text-[#f37021] mx-auto mb-3" />
+                  <p className="text-xl text-white font-bold">{selectedGuest.name}</p>
+                </div>
+                <p className="text-gray-400">Este é você?</p>
+                {askConsent && <ConsentFields settings={consentSettings} answers={consentAnswers} onChange={setConsentAnswers} />}
+                <Button
+                  className="w-full h-12 text-lg font-bold bg-[#f37021] hover:bg-[#d95d10] text-white"
+                  onClick={handleConfirmGuest}
+                  disabled={checkinLoading}
+                >
+                  {checkinLoading ? <Loader2 className="animate-spin" /> : 'SIM, CONFIRMAR PRESENÇA'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  className="w-full text-gray-400 hover:text-white"
+                  onClick={() => { setSelectedGuest(null); setStep('search'); }}
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Não sou eu
+                </Button>
               </div>
-              <Button 
-                type="submit" 
-                className="w-full h-12 text-lg font-bold bg-[#f37021] hover:bg-[#d95d10] text-white"
-                disabled={checkinLoading}
-              >
-                {checkinLoading ? <Loader2 className="animate-spin" /> : 'CONFIRMAR PRESENÇA'}
-              </Button>
-            </form>
+            )}
+
+            {step === 'walkin' && (
+              <form onSubmit={handleCheckIn} className="space-y-4">
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Seu Nome Completo</Label>
+                  <Input 
+                    value={name} 
+                    onChange={e => setName(e.target.value)} 
+                    placeholder="Ex: João Silva" 
+                    className="bg-black border-[#333] text-white h-12 text-lg focus:border-[#f37021]"
+                    required 
+                  />
+                </div>
+                <WalkinFields items={walkinItems} answers={answers} onChange={setAnswers} />
+                {askConsent && <ConsentFields settings={consentSettings} answers={consentAnswers} onChange={setConsentAnswers} />}
+                <Button 
+                  type="submit" 
+                  className="w-full h-12 text-lg font-bold bg-[#f37021] hover:bg-[#d95d10] text-white"
+                  disabled={checkinLoading}
+                >
+                  {checkinLoading ? <Loader2 className="animate-spin" /> : 'CONFIRMAR PRESENÇA'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full text-gray-400 hover:text-white"
+                  onClick={() => setStep('search')}
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Voltar para a busca
+                </Button>
+              </form>
+            )}
           </CardContent>
         </Card>
       )}
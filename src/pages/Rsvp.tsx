@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { RsvpInvitation, fetchRsvpInvitation, respondRsvp } from '@/lib/invitations';
+import QrCodeDisplay from '@/components/QrCodeDisplay';
+import { Loader2, CalendarCheck, CalendarX } from 'lucide-react';
+
+// Link pessoal do convite: /rsvp/<checkin_token>
+export default function Rsvp() {
+  const { token } = useParams<{ token: string }>();
+  // ?r=confirm|decline vem do botão do e-mail: só destaca a opção, a resposta exige o clique
+  // (leitores de e-mail abrem os links sozinhos)
+  const [searchParams] = useSearchParams();
+  const suggested = searchParams.get('r');
+  const { toast } = useToast();
+  const [guest, setGuest] = useState<RsvpInvitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    async function fetchGuest() {
+      if (!token) return;
+      const { invitation } = await fetchRsvpInvitation(token);
+      setGuest(invitation);
+      setLoading(false);
+    }
+    fetchGuest();
+  }, [token]);
+
+  const handleRespond = async (status: 'confirmed' | 'declined') => {
+    if (!token || !guest) return;
+    setSaving(true);
+    const { result, error } = await respondRsvp(token, status);
+    setSaving(false);
+    if (error || result?.status !== 'ok') {
+      toast({ title: "Erro", description: "Não foi possível registrar sua resposta.", variant: "destructive" });
+    } else {
+      setGuest({ ...guest, rsvp_status: status });
+    }
+  };
+
+  if (loading) return <div className="min-h-screen bg-black flex items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-[#f37021]" /></div>;
+
+  if (!guest || !token) return <div className="min-h-screen bg-black flex items-center justify-center text-white">Convite não encontrado.</div>;
+
+  const event = guest.event;
+  const color = event.primary_color || '#f37021';
+
+  return (
+    <div className="min-h-screen bg-black p-6 flex flex-col items-center justify-center">
+      <Card className="w-full max-w-md bg-[#1A1A1A] border-[#333]">
+        <CardHeader className="text-center">
+          {event.event_logo_url && <img src={event.event_logo_url} alt="" className="max-h-16 mx-auto mb-2 object-contain" />}
+          <CardTitle className="text-2xl text-white">{event.name}</CardTitle>
+          <CardDescription>{new Date(event.date).toLocaleString('pt-BR', { dateStyle: 'long', timeStyle: 'short' })}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 text-center">
+          <p className="text-xl text-white font-semibold">{guest.name}</p>
+
+          {guest.rsvp_status === 'confirmed' ? (
+            <div className="space-y-4">
+              <p className="text-green-500 font-semibold flex items-center justify-center gap-2"><CalendarCheck className="h-5 w-5" />Presença confirmada</p>
+              <div className="bg-white p-4 rounded-xl inline-block"><QrCodeDisplay value={token} size={200} /></div>
+              <p className="text-sm text-gray-400">Apresente este QR Code na recepção do evento. Também enviamos uma cópia para o seu e-mail.</p>
+              <Button variant="ghost" className="w-full text-gray-400 hover:text-white" onClick={() => handleRespond('declined')} disabled={saving}>Não poderei mais ir</Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {guest.rsvp_status === 'declined' && <p className="text-gray-400 flex items-center justify-center gap-2"><CalendarX className="h-5 w-5" />Você informou que não poderá ir.</p>}
+              <Button
+                className="w-full h-12 text-lg font-bold text-white"
+                style={{ backgroundColor: color, boxShadow: suggested === 'confirm' ? `0 0 0 3px ${color}55` : undefined }}
+                onClick={() => handleRespond('confirmed')}
+                disabled={saving}
+              >
+                {saving ? <Loader2 className="animate-spin" /> : 'CONFIRMAR PRESENÇA'}
+              </Button>
+              {guest.rsvp_status !== 'declined' && (
+                <Button
+                  variant="outline"
+                  className={`w-full border-[#333] text-gray-300 ${suggested === 'decline' ? 'border-gray-400' : ''}`}
+                  onClick={() => handleRespond('declined')}
+                  disabled={saving}
+                >
+                  Não poderei ir
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <p className="text-sm text-gray-600 mt-8">Floripa Square Eventos</p>
+    </div>
+  );
+}
@@ -1,30 +1,79 @@
-import { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
+import { ReactNode, useCallback, useEffect, useRef, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { ChevronDown } from "lucide-react";
+import { CalendarDays, ChevronDown, Hand, Maximize, Wifi } from "lucide-react";
+import QrCodeDisplay from "@/components/QrCodeDisplay";
+import { QrStyle, resolveQrStyle } from "@/lib/qrcode";
+import { WifiSecurity, buildWifiPayload, eventWifiNetwork } from "@/lib/wifi";
+import { EventSession, formatSessionTime } from "@/lib/sessions";
+import { KioskSettings, KioskSlide, claimTotemBadge, fetchTotemWelcomes, renderWelcomeMessage, resolveKioskSettings } from "@/lib/kiosk";
+import TotemTouchCheckin, { TotemGuest } from "@/components/event/TotemTouchCheckin";
+import { ConsentSettings, resolveConsent } from "@/lib/consent";
+import { BadgeTemplate, resolveBadgeTemplate } from "@/lib/badge";
+import { GuestCategory, DEFAULT_GUEST_CATEGORIES, findCategory } from "@/lib/categories";
+import { printBadges } from "@/lib/badgePrint";
+import { loadPrintBridgeSettings } from "@/lib/printBridge";
 
 interface EventData {
   name: string;
   event_logo_url: string | null;
   primary_color: string | null;
   event_logo_size: number | null;
+  qr_style: QrStyle;
+  wifi_ssid: string | null;
+  wifi_pass: string | null;
+  wifi_security: WifiSecurity | null;
+  wifi_hidden: boolean | null;
+  kiosk: KioskSettings;
+  consent: ConsentSettings;
+  badge_template: BadgeTemplate;
+  guest_categories: GuestCategory[];
 }
 
+// Check-ins mais antigos que isso (ex: eventos que chegam atrasados pelo realtime) não geram boas-vindas
+const WELCOME_MAX_AGE_MS = 2 * 60 * 1000;
+const HEALTH_CHECK_MS = 60 * 1000;
+
 export default function Totem() {
   const { id } = useParams<{ id: string }>();
+  // Totem na porta de uma sala: /totem/:id?session=<id>
+  const [searchParams] = useSearchParams();
+  const sessionId = searchParams.get("session");
+  const [session, setSession] = useState<{ name: string; room: string | null } | null>(null);
   const [eventData, setEventData] = useState<EventData>({
     name: "",
     event_logo_url: null,
     primary_color: "#f37021",
-    event_logo_size: 200
+    event_logo_size: 200,
+    qr_style: resolveQrStyle(null),
+    wifi_ssid: null,
+    wifi_pass: null,
+    wifi_security: null,
+    wifi_hidden: null,
+    kiosk: resolveKioskSettings(null),
+    consent: resolveConsent(null),
+    badge_template: resolveBadgeTemplate(null),
+    guest_categories: DEFAULT_GUEST_CATEGORIES
   });
+  const [agenda, setAgenda] = useState<EventSession[]>([]);
+  const [slideIndex, setSlideIndex] = useState(0);
+  // Último toque na tela; enquanto não der o tempo de ociosidade, o loop fica parado no QR
+  const [lastTouch, setLastTouch] = useState<number | null>(null);
+  const [welcomeQueue, setWelcomeQueue] = useState<{ key: string; name: string }[]>([]);
+  const [needsFullscreen, setNeedsFullscreen] = useState(false);
+  const [healthy, setHealthy] = useState(true);
+  const [touchOpen, setTouchOpen] = useState(false);
+  // Recarga pendente: espera a tela ficar ociosa para não interromper quem está usando
+  const [reloadPending, setReloadPending] = useState(false);
+  const welcomedRef = useRef(new Set<string>());
+  const kiosk = eventData.kiosk;
 
   useEffect(() => {
     async function fetchEvent() {
       if (!id) return;
       const { data } = await supabase
         .from("events")
-        .select("name, event_logo_url, primary_color, event_logo_size")
+        .select("name, event_logo_url, primary_color, event_logo_size, qr_style, wifi_ssid, wifi_pass, wifi_security, wifi_hidden, kiosk_settings, consent, badge_template, guest_categories")
         .eq("id", id)
         .single();
       if (data) {
@@ -32,18 +81,169 @@ export default function Totem() {
           name: data.name,
           event_logo_url: data.event_logo_url,
           primary_color: data.primary_color || "#f37021",
-          event_logo_size: data.event_logo_size || 200
+          event_logo_size: data.event_logo_size || 200,
+          qr_style: resolveQrStyle(data.qr_style),
+          wifi_ssid: data.wifi_ssid,
+          wifi_pass: data.wifi_pass,
+          wifi_security: data.wifi_security,
+          wifi_hidden: data.wifi_hidden,
+          kiosk: resolveKioskSettings(data.kiosk_settings),
+          consent: resolveConsent(data.consent),
+          badge_template: resolveBadgeTemplate(data.badge_template),
+          guest_categories: data.guest_categories || DEFAULT_GUEST_CATEGORIES
         });
       }
     }
+    async function fetchSession() {
+      if (!id || !sessionId) return;
+      const { data } = await supabase
+        .from("event_sessions")
+        .select("name, room")
+        .eq("id", sessionId)
+        .eq("event_id", id)
+        .maybeSingle();
+      setSession(data);
+    }
     fetchEvent();
-  }, [id]);
+    fetchSession();
+  }, [id, sessionId]);
+
+  // --- PROGRAMAÇÃO (próximas sessões) ---
+  useEffect(() => {
+    if (!id || !kiosk.enabled || !kiosk.slides.includes("agenda")) return;
+    async function fetchAgenda() {
+      const { data } = await supabase.from("event_sessions").select("*").eq("event_id", id).order("starts_at");
+      const now = Date.now();
+      setAgenda((data || []).filter((s: EventSession) => new Date(s.ends_at || s.starts_at).getTime() >= now).slice(0, 6));
+    }
+    fetchAgenda();
+  }, [id, kiosk.enabled, kiosk.slides]);
+
+  const wifiNetwork = eventWifiNetwork(eventData);
+  const slides: KioskSlide[] = kiosk.enabled
+    ? kiosk.slides.filter(slide =>
+        slide === "checkin" ||
+        (slide === "sponsors" && kiosk.sponsor_images.length > 0) ||
+        (slide === "agenda" && agenda.length > 0) ||
+        (slide === "wifi" && !!wifiNetwork))
+    : [];
+  if (!slides.includes("checkin")) slides.unshift("checkin");
+  const currentSlide = slides[slideIndex % slides.length];
+
+  // --- LOOP DE SLIDES ---
+  useEffect(() => {
+    if (!kiosk.enabled || lastTouch || slides.length < 2) return;
+    const timer = setInterval(() => setSlideIndex(i => (i + 1) % slides.length), kiosk.slide_seconds * 1000);
+    return () => clearInterval(timer);
+  }, [kiosk.enabled, kiosk.slide_seconds, lastTouch, slides.length]);
+
+  // --- OCIOSIDADE: volta para o loop (e descarta a busca por toque pela metade) ---
+  useEffect(() => {
+    if (!lastTouch) return;
+    const timer = setTimeout(() => { setLastTouch(null); setTouchOpen(false); }, kiosk.idle_seconds * 1000);
+    return () => clearTimeout(timer);
+  }, [lastTouch, kiosk.idle_seconds]);
+
+  const handleTouch = () => {
+    if (!kiosk.enabled) return;
+    setSlideIndex(0);
+    setLastTouch(Date.now());
+  };
+
+  // --- BOAS-VINDAS (sinal de chegada sem dados; os nomes vêm do RPC do totem) ---
+  useEffect(() => {
+    if (!id || !kiosk.enabled || !kiosk.welcome_enabled) return;
+    const loadWelcomes = async () => {
+      const { welcomes } = await fetchTotemWelcomes(id);
+      const fresh = welcomes
+        .filter(w => Date.now() - new Date(w.checkin_time).getTime() <= WELCOME_MAX_AGE_MS)
+        .map(w => ({ key: `${w.id}:${w.checkin_time}`, name: w.name }))
+        .filter(w => !welcomedRef.current.has(w.key));
+      fresh.forEach(w => welcomedRef.current.add(w.key));
+      if (fresh.length > 0) setWelcomeQueue(prev => [...prev, ...fresh]);
+    };
+    const channel = supabase.channel(`totem-arrivals-${id}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "event_arrival_signals", filter: `event_id=eq.${id}` }, loadWelcomes)
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [id, kiosk.enabled, kiosk.welcome_enabled]);
+
+  const welcome = welcomeQueue[0];
+  useEffect(() => {
+    if (!welcome) return;
+    const timer = setTimeout(() => setWelcomeQueue(prev => prev.slice(1)), kiosk.welcome_seconds * 1000);
+    return () => clearTimeout(timer);
+  }, [welcome, kiosk.welcome_seconds]);
+
+  // --- SAÚDE E RECARGA PERIÓDICA ---
+  // Só recarrega com o servidor respondendo; fora do ar, mantém a tela que já está carregada
+  useEffect(() => {
+    if (!id || !kiosk.enabled) return;
+    const startedAt = Date.now();
+    let failing = false;
+    const timer = setInterval(async () => {
+      const { error } = await supabase.from("events").select("id").eq("id", id).maybeSingle();
+      setHealthy(!error);
+      const reloadDue = kiosk.reload_minutes > 0 && Date.now() - startedAt >= kiosk.reload_minutes * 60 * 1000;
+      // Voltando de uma queda, recarrega para reconectar o realtime
+      if (!error && (failing || reloadDue)) setReloadPending(true);
+      failing = !!error;
+    }, HEALTH_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [id, kiosk.enabled, kiosk.reload_minutes]);
+
+  useEffect(() => {
+    if (reloadPending && !touchOpen && !lastTouch) window.location.reload();
+  }, [reloadPending, touchOpen, lastTouch]);
+
+  // --- TELA CHEIA TRAVADA ---
+  useEffect(() => {
+    if (!kiosk.enabled || !kiosk.fullscreen) return;
+    const update = () => setNeedsFullscreen(!document.fullscreenElement);
+    const blockMenu = (e: MouseEvent) => e.preventDefault();
+    update();
+    document.addEventListener("fullscreenchange", update);
+    document.addEventListener("contextmenu", blockMenu);
+    return () => {
+      document.removeEventListener("fullscreenchange", update);
+      document.removeEventListener("contextmenu", blockMenu);
+    };
+  }, [kiosk.enabled, kiosk.fullscreen]);
+
+  // --- CHECK-IN POR TOQUE ---
+  // Mesmo caminho de impressão da recepção (ponte configurada neste navegador ou diálogo);
+  // o servidor só entrega a etiqueta de quem acabou de entrar e ainda não tem uma
+  const handlePrintBadge = async (guest: TotemGuest) => {
+    const { badge } = await claimTotemBadge(guest.id);
+    if (!badge) return;
+    await printBadges([{
+      name: badge.name,
+      company: badge.company,
+      role: badge.role,
+      category: findCategory(eventData.guest_categories, badge.category),
+      qrValue: badge.badge_code
+    }], { template: eventData.badge_template, logoUrl: eventData.event_logo_url, bridge: loadPrintBridgeSettings() });
+  };
+
+  // Estável: o check-in por toque agenda o fechamento com ela
+  const closeTouch = useCallback(() => {
+    setTouchOpen(false);
+    setLastTouch(null);
+  }, []);
+
+  const enterFullscreen = async () => {
+    await document.documentElement.requestFullscreen().catch(() => {});
+    // Mantém a tela acesa, quando o navegador suporta
+    await navigator.wakeLock?.request("screen").catch(() => {});
+  };
 
   const primaryColor = eventData.primary_color || "#f37021";
   const logoSize = eventData.event_logo_size || 200;
+  const checkinUrl = `${window.location.origin}/guest/${id}${session ? `?session=${sessionId}` : ""}`;
+  const qrLogo = eventData.qr_style.logo ? eventData.event_logo_url : null;
 
-  return (
-    <div className="h-screen bg-black flex flex-col items-center justify-center p-8 text-center animate-fade-in">
+  const renderCheckin = () => (
+    <>
       {/* Setinha com cor primária do evento */}
       <div
         className="mb-6 animate-bounce"
@@ -57,15 +257,23 @@ export default function Totem() {
         className="bg-white p-6 rounded-3xl mb-10 transform hover:scale-105 transition-transform duration-500"
         style={{ boxShadow: `0 0 120px ${primaryColor}50` }}
       >
-        <img
-          src={`https://api.qrserver.com/v1/create-qr-code/?size=280x280&data=${encodeURIComponent(window.location.origin + '/guest/' + id)}`}
-          className="w-[280px] h-[280px]"
-          alt="QR Check-in"
+        <QrCodeDisplay
+          value={checkinUrl}
+          size={280}
+          level={eventData.qr_style.level}
+          logoUrl={qrLogo}
         />
       </div>
 
       <h1 className="text-7xl font-black text-white mb-6 tracking-tighter">CHECK-IN</h1>
 
+      {/* Sessão/sala deste totem */}
+      {session && (
+        <p className="text-3xl font-bold mb-6" style={{ color: primaryColor }}>
+          {session.name}{session.room ? ` • ${session.room}` : ""}
+        </p>
+      )}
+
       {/* Barra colorida */}
       <div
         className="w-24 h-1.5 rounded-full mb-8"
@@ -95,6 +303,131 @@ export default function Totem() {
           Aponte a câmera do seu celular
         </span>
       </div>
+
+      {kiosk.enabled && kiosk.touch_enabled && (
+        <button
+          type="button"
+          className="mt-8 flex items-center gap-3 rounded-full border-2 px-10 py-5 text-2xl font-bold text-white active:scale-95 transition-transform"
+          style={{ borderColor: primaryColor }}
+          onClick={() => setTouchOpen(true)}
+        >
+          <Hand size={28} style={{ color: primaryColor }} />
+          Sem celular? Toque aqui
+        </button>
+      )}
+    </>
+  );
+
+  const renderSponsors = () => (
+    <>
+      <p className="text-gray-500 text-sm uppercase tracking-[0.3em] font-bold mb-12">Patrocínio</p>
+      <div className="flex flex-wrap items-center justify-center gap-16 max-w-5xl">
+        {kiosk.sponsor_images.map(url => (
+          <img key={url} src={url} alt="" className="max-h-40 max-w-xs object-contain" />
+        ))}
+      </div>
+    </>
+  );
+
+  const renderAgenda = () => (
+    <>
+      <div className="flex items-center gap-3 mb-10" style={{ color: primaryColor }}>
+        <CalendarDays size={40} />
+        <h1 className="text-5xl font-black text-white tracking-tight uppercase">Programação</h1>
+      </div>
+      <div className="w-full max-w-3xl space-y-4 text-left">
+        {agenda.map(s => (
+          <div key={s.id} className="bg-[#1A1A1A] border border-gray-800 rounded-2xl px-8 py-5 flex items-center gap-8">
+            <span className="text-2xl font-mono font-bold shrink-0" style={{ color: primaryColor }}>{formatSessionTime(s)}</span>
+            <div className="min-w-0">
+              <p className="text-3xl font-bold text-white truncate">{s.name}</p>
+              {s.room && <p className="text-xl text-gray-500">{s.room}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+
+  const renderWifi = () => wifiNetwork && (
+    <>
+      <div className="bg-white p-6 rounded-3xl mb-10" style={{ boxShadow: `0 0 120px ${primaryColor}50` }}>
+        <QrCodeDisplay value={buildWifiPayload(wifiNetwork)} size={280} level={eventData.qr_style.level} logoUrl={qrLogo} />
+      </div>
+      <div className="flex items-center gap-3 mb-8" style={{ color: primaryColor }}>
+        <Wifi size={40} />
+        <h1 className="text-6xl font-black text-white tracking-tighter">WI-FI</h1>
+      </div>
+      <p className="text-gray-500 text-xs uppercase tracking-[0.2em] font-bold">Rede</p>
+      <p className="text-4xl font-bold text-white mb-6">{wifiNetwork.ssid}</p>
+      {wifiNetwork.security !== "nopass" && (
+        <>
+          <p className="text-gray-500 text-xs uppercase tracking-[0.2em] font-bold">Senha</p>
+          <p className="text-4xl font-mono font-bold tracking-widest" style={{ color: primaryColor }}>{wifiNetwork.password}</p>
+        </>
+      )}
+    </>
+  );
+
+  const SLIDES: Record<KioskSlide, () => ReactNode> = {
+    checkin: renderCheckin,
+    sponsors: renderSponsors,
+    agenda: renderAgenda,
+    wifi: renderWifi
+  };
+
+  return (
+    <div
+      className={`h-screen bg-black flex flex-col items-center justify-center p-8 text-center overflow-hidden relative ${kiosk.enabled ? "select-none cursor-none" : ""}`}
+      onPointerDown={handleTouch}
+    >
+      <div key={currentSlide} className="flex flex-col items-center animate-fade-in">
+        {SLIDES[currentSlide]()}
+      </div>
+
+      {kiosk.enabled && currentSlide !== "checkin" && (
+        <p className="absolute bottom-8 text-sm uppercase tracking-widest font-bold text-gray-600">Toque na tela para fazer check-in</p>
+      )}
+
+      {touchOpen && id && (
+        <TotemTouchCheckin
+          eventId={id}
+          sessionId={session ? sessionId : null}
+          primaryColor={primaryColor}
+          consent={eventData.consent}
+          onPrint={kiosk.touch_print ? handlePrintBadge : null}
+          onClose={closeTouch}
+        />
+      )}
+
+      {/* Servidor sem resposta: a tela continua, com um aviso discreto */}
+      {kiosk.enabled && !healthy && <span className="absolute top-4 right-4 h-3 w-3 rounded-full bg-red-600" title="Sem conexão" />}
+
+      {/* Boas-vindas a quem acabou de fazer check-in (não atrapalha quem está digitando) */}
+      {welcome && !touchOpen && (
+        <div
+          key={welcome.key}
+          className="absolute inset-0 flex flex-col items-center justify-center p-12 animate-in fade-in zoom-in-75 duration-500"
+          style={{ backgroundColor: primaryColor }}
+        >
+          {eventData.event_logo_url && <img src={eventData.event_logo_url} alt="" className="max-h-32 object-contain mb-12 brightness-0 invert" />}
+          <h1 className="text-7xl font-black text-white tracking-tight leading-tight">
+            {renderWelcomeMessage(kiosk.welcome_message, { nome: welcome.name, evento: eventData.name })}
+          </h1>
+        </div>
+      )}
+
+      {/* Tela cheia exige um toque (regra do navegador) */}
+      {needsFullscreen && (
+        <button
+          type="button"
+          className="absolute inset-0 bg-black/90 flex flex-col items-center justify-center gap-6 text-white cursor-pointer"
+          onClick={enterFullscreen}
+        >
+          <Maximize size={64} style={{ color: primaryColor }} />
+          <span className="text-3xl font-bold">Toque para iniciar o totem</span>
+        </button>
+      )}
     </div>
   );
 }
@@ -2,16 +2,22 @@ import { useEffect, useState } from "react";
 import { useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Wifi, ExternalLink } from "lucide-react";
+import QrCodeDisplay from "@/components/QrCodeDisplay";
+import { QrStyle, resolveQrStyle } from "@/lib/qrcode";
+import { WifiSecurity, buildWifiPayload, eventWifiNetwork } from "@/lib/wifi";
 
 interface EventData {
   name: string;
   wifi_ssid: string | null;
   wifi_pass: string | null;
+  wifi_security: WifiSecurity | null;
+  wifi_hidden: boolean | null;
   wifi_img_url: string | null;
   photo_url: string | null;
   photo_img_url: string | null;
   event_logo_url: string | null;
   primary_color: string | null;
+  qr_style: Partial<QrStyle> | null;
 }
 
 export default function WifiDisplay() {
@@ -32,6 +38,10 @@ export default function WifiDisplay() {
   if (!event) return <div className="h-screen bg-black flex items-center justify-center text-white">Carregando...</div>;
 
   const primaryColor = event.primary_color || "#f37021";
+  const qrStyle = resolveQrStyle(event.qr_style);
+  const qrLogo = qrStyle.logo ? event.event_logo_url : null;
+  const wifiNetwork = eventWifiNetwork(event);
+  const wifiPayload = wifiNetwork ? buildWifiPayload(wifiNetwork) : "#";
 
   // 1. CELULAR (Visualiza Arte Vertical OU QR Codes se não tiver arte)
   if (isMobileView) {
@@ -42,8 +52,8 @@ export default function WifiDisplay() {
      return (
        <div className="h-screen bg-black flex flex-col items-center justify-center gap-8 p-8">
          <h1 className="text-2xl text-white font-bold mb-4">QRs do Evento</h1>
-         {event.wifi_ssid && <div className="bg-white p-4 rounded-xl text-center"><img src={`https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=WIFI:S:${event.wifi_ssid};T:WPA;P:${event.wifi_pass};;`} /><p className="mt-2 font-bold">Wi-Fi</p></div>}
-         {event.photo_url && <div className="bg-white p-4 rounded-xl text-center"><img src={`https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(event.photo_url)}`} /><p className="mt-2 font-bold">Fotos</p></div>}
+         {event.wifi_ssid && <div className="bg-white p-4 rounded-xl text-center"><QrCodeDisplay value={wifiPayload} size={200} level={qrStyle.level} logoUrl={qrLogo} /><p className="mt-2 font-bold">Wi-Fi</p></div>}
+         {event.photo_url && <div className="bg-white p-4 rounded-xl text-center"><QrCodeDisplay value={event.photo_url} size={200} level={qrStyle.level} logoUrl={qrLogo} /><p className="mt-2 font-bold">Fotos</p></div>}
        </div>
      );
   }
@@ -68,7 +78,7 @@ export default function WifiDisplay() {
       <div className="flex flex-row items-center justify-center gap-32">
         <div className="flex flex-col items-center">
           <div className="bg-white p-4 rounded-3xl mb-8 transform scale-110" style={{ boxShadow: `0 0 20px ${primaryColor}50` }}>
-            <img src={`https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=WIFI:S:${event.wifi_ssid};T:WPA;P:${event.wifi_pass};;`} className="w-64 h-64 object-contain" />
+            <QrCodeDisplay value={wifiPayload} size={256} level={qrStyle.level} logoUrl={qrLogo} />
           </div>
           <div className="flex gap-3" style={{ color: primaryColor }}>
             <Wifi size={32} />
@@ -78,7 +88,7 @@ export default function WifiDisplay() {
         <div className="h-64 w-px bg-gradient-to-b from-transparent via-gray-700 to-transparent"></div>
         <div className="flex flex-col items-center">
           <div className="bg-white p-4 rounded-3xl mb-8 transform scale-110" style={{ boxShadow: `0 0 20px ${primaryColor}50` }}>
-            <img src={`https://api.qrserver.com/v1/create-qr-code/?size=256x256&data=${encodeURIComponent(event.photo_url || '#')}`} className="w-64 h-64" />
+            <QrCodeDisplay value={event.photo_url || '#'} size={256} level={qrStyle.level} logoUrl={qrLogo} />
           </div>
           <div className="flex gap-3 text-white">
             <ExternalLink size={32} />
@@ -94,7 +104,7 @@ export default function WifiDisplay() {
         </div>
         <div className="text-center w-1/2">
           <p className="text-gray-500 text-xs uppercase tracking-[0.2em] mb-2 font-bold">SENHA / PASSWORD</p>
-          <p className="text-5xl font-mono font-bold tracking-widest" style={{ color: primaryColor }}>{event.wifi_pass || '---'}</p>
+          <p className="text-5xl font-mono font-bold tracking-widest" style={{ color: primaryColor }}>{wifiNetwork?.security === "nopass" ? "SEM SENHA" : event.wifi_pass || '---'}</p>
         </div>
       </div>
     </div>
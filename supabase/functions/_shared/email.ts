@@ -0,0 +1,100 @@
+// E-mail provider interface used by the edge functions.
+//
+// EMAIL_PROVIDER selects the implementation:
+//   smtp   – any SMTP server. For local testing point it at a mail catcher
+//            (e.g. Mailpit/MailHog: SMTP_HOST=host.docker.internal, SMTP_PORT=1025,
+//            SMTP_TLS=false, no user/password).
+//   resend – Resend HTTP API (RESEND_API_KEY).
+// EMAIL_FROM is the sender for every provider.
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailProvider {
+  send(message: EmailMessage): Promise<void>;
+  close?(): Promise<void>;
+}
+
+const env = (name: string, fallback = "") => Deno.env.get(name) ?? fallback;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(""));
+
+export class SmtpProvider implements EmailProvider {
+  private client: SMTPClient;
+
+  constructor(private from: string) {
+    const tls = env("SMTP_TLS", "true") === "true";
+    const username = env("SMTP_USER");
+    this.client = new SMTPClient({
+      connection: {
+        hostname: env("SMTP_HOST", "localhost"),
+        port: Number(env("SMTP_PORT", tls ? "465" : "1025")),
+        tls,
+        auth: username ? { username, password: env("SMTP_PASSWORD") } : undefined,
+      },
+      // Mail catchers speak plain SMTP
+      debug: { allowUnsecure: !tls, noStartTLS: !tls },
+    });
+  }
+
+  async send(message: EmailMessage) {
+    await this.client.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      content: message.text,
+      html: message.html,
+      attachments: (message.attachments ?? []).map((a) => ({
+        filename: a.filename,
+        contentType: a.contentType,
+        encoding: "binary" as const,
+        content: a.content,
+      })),
+    });
+  }
+
+  async close() {
+    await this.client.close();
+  }
+}
+
+export class ResendProvider implements EmailProvider {
+  constructor(private from: string, private apiKey: string) {}
+
+  async send(message: EmailMessage) {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.apiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: (message.attachments ?? []).map((a) => ({ filename: a.filename, content: toBase64(a.content) })),
+      }),
+    });
+    if (!response.ok) throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+  }
+}
+
+export function createEmailProvider(): EmailProvider {
+  const from = env("EMAIL_FROM", "Floripa Square Eventos <eventos@localhost>");
+  const provider = env("EMAIL_PROVIDER", "smtp");
+  if (provider === "resend") return new ResendProvider(from, env("RESEND_API_KEY"));
+  if (provider === "smtp") return new SmtpProvider(from);
+  throw new Error(`Unknown EMAIL_PROVIDER: ${provider}`);
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { normalizePhone } from "./messaging.ts";
+
+describe("normalizePhone", () => {
+  it("adiciona +55 a celulares e fixos com DDD", () => {
+    expect(normalizePhone("(48) 99999-1234")).toBe("+5548999991234");
+    expect(normalizePhone("48 3222-1234")).toBe("+554832221234");
+  });
+
+  it("remove o 0 do prefixo de operadora", () => {
+    expect(normalizePhone("048 99999-1234")).toBe("+5548999991234");
+  });
+
+  it("mantém o código do país de números digitados com +", () => {
+    expect(normalizePhone("+1 (415) 555-0100")).toBe("+14155550100");
+    expect(normalizePhone(" +55 48 99999-1234")).toBe("+5548999991234");
+  });
+
+  it("não inventa DDI para números que não são locais brasileiros", () => {
+    expect(normalizePhone("5548999991234")).toBe("+5548999991234");
+    expect(normalizePhone("99991234")).toBe("+99991234");
+  });
+
+  it("devolve vazio sem dígitos", () => {
+    expect(normalizePhone("")).toBe("");
+    expect(normalizePhone("sem telefone")).toBe("");
+  });
+});
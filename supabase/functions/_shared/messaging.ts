@@ -0,0 +1,113 @@
+// WhatsApp/SMS provider interface used by the edge functions.
+//
+// MESSAGE_PROVIDER selects the implementation:
+//   mock     – default. Nothing leaves the server; messages are printed to the
+//              function log and reported as delivered. Numbers ending in 0000
+//              fail, to exercise the error path.
+//   twilio   – Twilio Messaging API, SMS and WhatsApp (TWILIO_ACCOUNT_SID,
+//              TWILIO_AUTH_TOKEN, TWILIO_SMS_FROM, TWILIO_WHATSAPP_FROM).
+//   whatsapp – WhatsApp Business Cloud API (WHATSAPP_TOKEN,
+//              WHATSAPP_PHONE_NUMBER_ID). WhatsApp only; SMS is rejected.
+
+export type MessageChannel = "whatsapp" | "sms";
+
+export interface OutgoingMessage {
+  to: string;
+  channel: MessageChannel;
+  text: string;
+}
+
+export interface DeliveryReceipt {
+  provider: string;
+  id: string | null;
+}
+
+export interface MessageProvider {
+  name: string;
+  send(message: OutgoingMessage): Promise<DeliveryReceipt>;
+}
+
+const env = (name: string, fallback = "") => Deno.env.get(name) ?? fallback;
+
+// Numbers typed with "+" already carry their country code and are kept as is.
+// Brazilian local numbers (DDD + number, optionally with the 0 trunk prefix) get +55.
+export function normalizePhone(value: string) {
+  const digits = value.replace(/\D/g, "");
+  if (!digits) return "";
+  if (value.trim().startsWith("+")) return `+${digits}`;
+  const local = digits.replace(/^0/, "");
+  return `+${local.length === 10 || local.length === 11 ? `55${local}` : digits}`;
+}
+
+export class MockProvider implements MessageProvider {
+  name = "mock";
+
+  send(message: OutgoingMessage) {
+    if (message.to.endsWith("0000")) return Promise.reject(new Error("Mock provider: number rejected"));
+    console.log(`[mock ${message.channel}] to ${message.to}: ${message.text}`);
+    return Promise.resolve({ provider: this.name, id: `mock-${crypto.randomUUID()}` });
+  }
+}
+
+export class TwilioProvider implements MessageProvider {
+  name = "twilio";
+
+  constructor(private accountSid: string, private authToken: string, private smsFrom: string, private whatsappFrom: string) {}
+
+  async send(message: OutgoingMessage) {
+    const whatsapp = message.channel === "whatsapp";
+    const from = whatsapp ? this.whatsappFrom : this.smsFrom;
+    if (!from) throw new Error(`Twilio sender for ${message.channel} is not configured`);
+    const params = new URLSearchParams({
+      From: whatsapp ? `whatsapp:${from}` : from,
+      To: whatsapp ? `whatsapp:${message.to}` : message.to,
+      Body: message.text,
+    });
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params,
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(`Twilio responded ${response.status}: ${body.message || "unknown error"}`);
+    return { provider: this.name, id: body.sid ?? null };
+  }
+}
+
+// Free-form text is only delivered inside WhatsApp's 24h customer service
+// window; outside it the business account needs an approved template.
+export class WhatsAppCloudProvider implements MessageProvider {
+  name = "whatsapp";
+
+  constructor(private token: string, private phoneNumberId: string) {}
+
+  async send(message: OutgoingMessage) {
+    if (message.channel !== "whatsapp") throw new Error("WhatsApp Cloud API cannot send SMS");
+    const response = await fetch(`https://graph.facebook.com/v19.0/${this.phoneNumberId}/messages`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        to: message.to.replace("+", ""),
+        type: "text",
+        text: { body: message.text },
+      }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(`WhatsApp responded ${response.status}: ${body.error?.message || "unknown error"}`);
+    return { provider: this.name, id: body.messages?.[0]?.id ?? null };
+  }
+}
+
+export function createMessageProvider(): MessageProvider {
+  const provider = env("MESSAGE_PROVIDER", "mock");
+  if (provider === "mock") return new MockProvider();
+  if (provider === "twilio") {
+    return new TwilioProvider(env("TWILIO_ACCOUNT_SID"), env("TWILIO_AUTH_TOKEN"), env("TWILIO_SMS_FROM"), env("TWILIO_WHATSAPP_FROM"));
+  }
+  if (provider === "whatsapp") return new WhatsAppCloudProvider(env("WHATSAPP_TOKEN"), env("WHATSAPP_PHONE_NUMBER_ID"));
+  throw new Error(`Unknown MESSAGE_PROVIDER: ${provider}`);
+}
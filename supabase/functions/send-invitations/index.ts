@@ -0,0 +1,188 @@
+// Edge function: send-invitations
+//
+// POST { kind: "invitation", event_id, guest_ids }
+//   Staff (admin/equipe) only. E-mails each guest that has an address using the
+//   event's invitation template and marks them as invited (rsvp_status pending).
+//
+// POST { kind: "confirmation", token }
+//   Public, called by the RSVP page after the guest confirms. E-mails the
+//   personal check-in QR to that guest only, once (guests.confirmation_sent_at).
+//
+// Links in the e-mails always point to the APP_URL secret, never to a URL sent
+// by the caller.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.86.0";
+import QRCode from "npm:qrcode@1.5.3";
+import { createEmailProvider, EmailProvider } from "../_shared/email.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface InvitationTemplate {
+  subject: string;
+  body: string;
+}
+
+// Same default as src/lib/invitations.ts
+const DEFAULT_TEMPLATE: InvitationTemplate = {
+  subject: "Convite: {{evento}}",
+  body: "Olá, {{nome}}!\n\nVocê está convidado(a) para {{evento}}, em {{data}}.\n\nConfirme sua presença pelo link abaixo:\n{{link}}",
+};
+
+interface Guest {
+  id: string;
+  name: string;
+  email: string | null;
+  checkin_token: string;
+  rsvp_status: string | null;
+}
+
+interface EventRow {
+  id: string;
+  name: string;
+  date: string;
+  primary_color: string | null;
+  event_logo_url: string | null;
+  invitation_template: Partial<InvitationTemplate> | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const fill = (text: string, vars: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => vars[key] ?? match);
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString("pt-BR", { dateStyle: "long", timeStyle: "short", timeZone: "America/Sao_Paulo" });
+
+function layout(event: EventRow, content: string) {
+  const color = event.primary_color || "#f37021";
+  const logo = event.event_logo_url ? `<img src="${escapeHtml(event.event_logo_url)}" alt="" style="max-height:60px;margin-bottom:16px">` : "";
+  return `<div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;padding:24px;color:#1f2937">
+    ${logo}
+    <div style="border-top:4px solid ${escapeHtml(color)};padding-top:16px">${content}</div>
+  </div>`;
+}
+
+const button = (href: string, label: string, color: string) =>
+  `<a href="${escapeHtml(href)}" style="display:inline-block;background:${escapeHtml(color)};color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:bold;margin-right:8px">${escapeHtml(label)}</a>`;
+
+async function sendInvitation(provider: EmailProvider, event: EventRow, guest: Guest, appUrl: string) {
+  const template = { ...DEFAULT_TEMPLATE, ...(event.invitation_template || {}) };
+  const link = `${appUrl}/rsvp/${guest.checkin_token}`;
+  const vars = { nome: guest.name, evento: event.name, data: formatDate(event.date), link };
+  const text = fill(template.body, vars);
+  const color = event.primary_color || "#f37021";
+  const html = layout(event, `
+    <p style="white-space:pre-line;line-height:1.5">${escapeHtml(fill(template.body, { ...vars, link: "" })).trim()}</p>
+    <p style="margin-top:24px">${button(`${link}?r=confirm`, "Confirmar presença", color)}${button(`${link}?r=decline`, "Não poderei ir", "#6b7280")}</p>`);
+  await provider.send({ to: guest.email!, subject: fill(template.subject, vars), text, html });
+}
+
+async function sendConfirmation(provider: EmailProvider, event: EventRow, guest: Guest, appUrl: string) {
+  const dataUrl: string = await QRCode.toDataURL(guest.checkin_token, { width: 400, margin: 1 });
+  const png = Uint8Array.from(atob(dataUrl.split(",")[1]), (c) => c.charCodeAt(0));
+  const link = `${appUrl}/rsvp/${guest.checkin_token}`;
+  const text = `Olá, ${guest.name}!\n\nSua presença em ${event.name} (${formatDate(event.date)}) está confirmada.\nApresente o QR Code em anexo na recepção ou abra: ${link}`;
+  const html = layout(event, `
+    <p>Olá, ${escapeHtml(guest.name)}!</p>
+    <p>Sua presença em <strong>${escapeHtml(event.name)}</strong> (${escapeHtml(formatDate(event.date))}) está confirmada.</p>
+    <p>Apresente o QR Code em anexo na recepção para fazer o check-in.</p>
+    <p style="margin-top:24px">${button(link, "Ver meu QR Code", event.primary_color || "#f37021")}</p>`);
+  await provider.send({
+    to: guest.email!,
+    subject: `Presença confirmada: ${event.name}`,
+    text,
+    html,
+    attachments: [{ filename: "qrcode-checkin.png", contentType: "image/png", content: png }],
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const body = await req.json().catch(() => ({}));
+  const appUrl = (Deno.env.get("APP_URL") || "").replace(/\/$/, "");
+  const eventColumns = "id, name, date, primary_color, event_logo_url, invitation_template";
+  const guestColumns = "id, name, email, checkin_token, rsvp_status";
+
+  if (!appUrl) return json({ error: "APP_URL is not configured" }, 500);
+
+  let provider: EmailProvider;
+  try {
+    provider = createEmailProvider();
+  } catch (err) {
+    return json({ error: (err as Error).message }, 500);
+  }
+
+  try {
+    if (body.kind === "confirmation") {
+      // Claims the send: only the first call for a confirmed guest gets the row back
+      const { data: guest } = await supabase.from("guests")
+        .update({ confirmation_sent_at: new Date().toISOString() })
+        .eq("checkin_token", String(body.token))
+        .eq("rsvp_status", "confirmed")
+        .is("confirmation_sent_at", null)
+        .not("email", "is", null)
+        .select(`${guestColumns}, event_id`)
+        .maybeSingle();
+      if (!guest) return json({ sent: false });
+      try {
+        const { data: event } = await supabase.from("events").select(eventColumns).eq("id", guest.event_id).single();
+        await sendConfirmation(provider, event as EventRow, guest as Guest, appUrl);
+      } catch (err) {
+        // Failed sends can be retried
+        await supabase.from("guests").update({ confirmation_sent_at: null }).eq("id", guest.id);
+        throw err;
+      }
+      return json({ sent: true });
+    }
+
+    if (body.kind !== "invitation") return json({ error: "Invalid kind" }, 400);
+
+    // Only staff accounts can send invitations
+    const jwt = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user) return json({ error: "Not authenticated" }, 401);
+    const { data: roles } = await supabase.from("user_roles").select("role").eq("user_id", user.id).in("role", ["admin", "equipe"]);
+    if (!roles?.length) return json({ error: "Not allowed" }, 403);
+
+    const { data: event } = await supabase.from("events").select(eventColumns).eq("id", body.event_id).single();
+    if (!event) return json({ error: "Event not found" }, 404);
+
+    const ids: string[] = Array.isArray(body.guest_ids) ? body.guest_ids : [];
+    const { data: guests } = await supabase.from("guests").select(guestColumns).eq("event_id", event.id).in("id", ids).not("email", "is", null);
+
+    const results: { guest_id: string; ok: boolean; error?: string }[] = [];
+    for (const guest of (guests || []) as Guest[]) {
+      try {
+        await sendInvitation(provider, event as EventRow, guest, appUrl);
+        // Guests who already answered keep their answer when invited again
+        await supabase.from("guests").update({ invited_at: new Date().toISOString(), rsvp_status: guest.rsvp_status || "pending" }).eq("id", guest.id);
+        results.push({ guest_id: guest.id, ok: true });
+      } catch (err) {
+        results.push({ guest_id: guest.id, ok: false, error: (err as Error).message });
+      }
+    }
+
+    const sent = results.filter((r) => r.ok).length;
+    await supabase.from("activity_logs").insert({
+      event_id: event.id,
+      user_id: user.id,
+      user_email: user.email,
+      action: "Enviou Convites",
+      details: `${sent} de ${ids.length} e-mail(s)`,
+    });
+    return json({ sent, results });
+  } catch (err) {
+    return json({ error: (err as Error).message }, 500);
+  } finally {
+    await provider.close?.();
+  }
+});
@@ -0,0 +1,203 @@
+// Edge function: send-notifications
+//
+// POST { guest_id, checkin_id? }
+//   Called by the client after a successful check-in. Staff send their session;
+//   the public pages, which have none, send the checkin_id that self_checkin /
+//   walkin_checkin returned, and only that arrival is announced. Claims the
+//   guest's latest arrival (checkins.notified_at) so each arrival is handled
+//   once, then sends the WhatsApp/SMS confirmation to the guest and the alerts
+//   to the hosts watching them, according to events.notification_settings.
+//   Every delivery (or failure) is written to activity_logs.
+//
+//   Watching app users get their in-app notification from a database trigger;
+//   the ones on the 'email' channel are e-mailed here as well.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.86.0";
+import { createMessageProvider, MessageChannel, MessageProvider, normalizePhone } from "../_shared/messaging.ts";
+import { createEmailProvider } from "../_shared/email.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface NotificationSettings {
+  guest_enabled: boolean;
+  hosts_enabled: boolean;
+  channel: MessageChannel;
+  guest_template: string;
+  host_template: string;
+}
+
+// Same default as src/lib/notifications.ts
+const DEFAULT_SETTINGS: NotificationSettings = {
+  guest_enabled: false,
+  hosts_enabled: true,
+  channel: "whatsapp",
+  guest_template: "Olá, {{nome}}! Seu check-in em {{evento}} foi confirmado às {{hora}}. Bom evento!",
+  host_template: "Olá, {{anfitriao}}! {{nome}} acabou de chegar em {{evento}} ({{hora}}).",
+};
+
+// Arrivals replayed later than this (offline desks) are claimed but not announced
+const MAX_DELAY_MINUTES = 60;
+
+type WatcherChannel = MessageChannel | "app" | "email";
+
+const CHANNEL_LABELS: Record<MessageChannel, string> = { whatsapp: "WhatsApp", sms: "SMS" };
+
+interface Watcher {
+  name: string;
+  phone: string | null;
+  channel: WatcherChannel;
+  user_id: string | null;
+}
+
+interface Recipient {
+  name: string;
+  phone: string;
+  channel: MessageChannel;
+  text: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const fill = (text: string, vars: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => vars[key] ?? match);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit", timeZone: "America/Sao_Paulo" });
+
+async function deliver(provider: MessageProvider, recipient: Recipient) {
+  const to = normalizePhone(recipient.phone);
+  if (!to) return { ok: false, detail: "número inválido" };
+  try {
+    const receipt = await provider.send({ to, channel: recipient.channel, text: recipient.text });
+    return { ok: true, detail: `${receipt.provider}${receipt.id ? ` ${receipt.id}` : ""}` };
+  } catch (err) {
+    return { ok: false, detail: (err as Error).message };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const body = await req.json().catch(() => ({}));
+  if (!body.guest_id) return json({ error: "guest_id is required" }, 400);
+
+  try {
+    // Latest event-level entry: only an arrival nobody has announced yet
+    const { data: last } = await supabase
+      .from("checkins")
+      .select("id, event_id, direction, occurred_at, notified_at")
+      .eq("guest_id", body.guest_id)
+      .is("session_id", null)
+      .order("occurred_at", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (!last || last.direction !== "in" || last.notified_at) return json({ sent: 0, failed: 0 });
+
+    // Without a receipt for this very arrival, only staff or the event's owner may trigger it
+    if (!body.checkin_id || body.checkin_id !== last.id) {
+      const jwt = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+      const { data: { user } } = await supabase.auth.getUser(jwt);
+      if (!user) return json({ error: "Not authenticated" }, 401);
+      const [{ data: roles }, { data: owned }] = await Promise.all([
+        supabase.from("user_roles").select("role").eq("user_id", user.id).in("role", ["admin", "equipe", "recepcao"]),
+        supabase.from("events").select("id").eq("id", last.event_id).eq("user_id", user.id).maybeSingle(),
+      ]);
+      if (!roles?.length && !owned) return json({ error: "Not allowed" }, 403);
+    }
+
+    const { data: claimed } = await supabase
+      .from("checkins")
+      .update({ notified_at: new Date().toISOString() })
+      .eq("id", last.id)
+      .is("notified_at", null)
+      .select("id");
+    if (!claimed?.length) return json({ sent: 0, failed: 0 });
+    if (Date.now() - new Date(last.occurred_at).getTime() > MAX_DELAY_MINUTES * 60_000) return json({ sent: 0, failed: 0 });
+
+    const [{ data: event }, { data: guest }, { data: watchers }] = await Promise.all([
+      supabase.from("events").select("id, name, notification_settings").eq("id", last.event_id).single(),
+      supabase.from("guests").select("id, name, phone").eq("id", body.guest_id).single(),
+      supabase.from("guest_watchers").select("name, phone, channel, user_id").eq("guest_id", body.guest_id),
+    ]);
+    if (!event || !guest) return json({ sent: 0, failed: 0 });
+
+    const settings: NotificationSettings = { ...DEFAULT_SETTINGS, ...(event.notification_settings || {}) };
+    const vars = { nome: guest.name, evento: event.name, hora: formatTime(last.occurred_at), anfitriao: "" };
+
+    const hostWatchers = settings.hosts_enabled ? ((watchers || []) as Watcher[]) : [];
+    const recipients: Recipient[] = [];
+    if (settings.guest_enabled && guest.phone) {
+      recipients.push({ name: guest.name, phone: guest.phone, channel: settings.channel, text: fill(settings.guest_template, vars) });
+    }
+    for (const w of hostWatchers) {
+      if (w.channel !== "whatsapp" && w.channel !== "sms") continue;
+      recipients.push({ name: w.name, phone: w.phone || "", channel: w.channel, text: fill(settings.host_template, { ...vars, anfitriao: w.name }) });
+    }
+    const emailWatchers = hostWatchers.filter((w) => w.channel === "email" && w.user_id);
+    if (recipients.length === 0 && emailWatchers.length === 0) return json({ sent: 0, failed: 0 });
+
+    let sent = 0;
+    const logs = [];
+    if (recipients.length > 0) {
+      const provider = createMessageProvider();
+      for (const recipient of recipients) {
+        const result = await deliver(provider, recipient);
+        if (result.ok) sent++;
+        logs.push({
+          event_id: event.id,
+          guest_id: guest.id,
+          action: result.ok ? "Notificação Enviada" : "Falha na Notificação",
+          details: `${CHANNEL_LABELS[recipient.channel]} para ${recipient.name} — chegada de ${guest.name} (${result.detail})`,
+        });
+      }
+    }
+
+    if (emailWatchers.length > 0) {
+      const { data: profiles } = await supabase.from("profiles").select("user_id, email").in("user_id", emailWatchers.map((w) => w.user_id));
+      const emailProvider = createEmailProvider();
+      try {
+        for (const w of emailWatchers) {
+          const to = profiles?.find((p) => p.user_id === w.user_id)?.email;
+          let detail = to || "sem e-mail no perfil";
+          let ok = false;
+          if (to) {
+            try {
+              await emailProvider.send({
+                to,
+                subject: `${guest.name} chegou em ${event.name}`,
+                text: fill(settings.host_template, { ...vars, anfitriao: w.name }),
+                html: `<p style="font-family:Arial,sans-serif">${escapeHtml(fill(settings.host_template, { ...vars, anfitriao: w.name }))}</p>`,
+              });
+              ok = true;
+            } catch (err) {
+              detail = (err as Error).message;
+            }
+          }
+          if (ok) sent++;
+          logs.push({
+            event_id: event.id,
+            guest_id: guest.id,
+            action: ok ? "Notificação Enviada" : "Falha na Notificação",
+            details: `E-mail para ${w.name} — chegada de ${guest.name} (${detail})`,
+          });
+        }
+      } finally {
+        await emailProvider.close?.();
+      }
+    }
+    await supabase.from("activity_logs").insert(logs);
+
+    return json({ sent, failed: logs.length - sent });
+  } catch (err) {
+    return json({ error: (err as Error).message }, 500);
+  }
+});
@@ -0,0 +1,6 @@
+-- Migration: Self check-in against the pre-registered guest list
+-- Organisers decide per event whether unknown attendees may register
+-- themselves on the mobile check-in page (/guest/:id).
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS allow_walkins BOOLEAN NOT NULL DEFAULT true;
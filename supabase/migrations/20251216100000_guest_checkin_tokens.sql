@@ -0,0 +1,10 @@
+-- Migration: Personal check-in tokens for guests
+-- Each guest gets a random, non-guessable token that is rendered as a QR code
+-- (invitations, exported sheets) and read by the reception scanner.
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS checkin_token TEXT NOT NULL
+  DEFAULT replace(gen_random_uuid()::text, '-', '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS guests_checkin_token_key
+  ON public.guests (checkin_token);
@@ -0,0 +1,114 @@
+-- Migration: Atomic check-in with conflict detection
+-- Two reception desks toggling the same person used to race on a plain UPDATE
+-- (last write wins). Check-ins now go through perform_checkin(), which locks
+-- the row, refuses to repeat a state change someone else already made and
+-- writes the activity log in the same transaction.
+
+-- =============================================================================
+-- 1. Track who made the last check-in/check-out
+-- =============================================================================
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS checked_in_by_email TEXT;
+
+ALTER TABLE public.staff
+  ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS checked_in_by_email TEXT;
+
+-- =============================================================================
+-- 2. perform_checkin
+-- =============================================================================
+
+-- Returns a JSON object:
+--   status        'ok' | 'conflict' | 'not_found'
+--   checked_in    current state after the call
+--   checkin_time  current check-in time
+--   checked_in_by e-mail of the operator who made the current state
+CREATE OR REPLACE FUNCTION public.perform_checkin(
+  _table TEXT,
+  _record_id UUID,
+  _checked_in BOOLEAN,
+  _checkin_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _current_by TEXT;
+  _operator_email TEXT;
+  _new_time TIMESTAMP WITH TIME ZONE;
+  _action TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+
+  -- Lock the row so concurrent desks are serialised
+  IF _table = 'guests' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id FOR UPDATE;
+  ELSIF _table = 'staff' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid table: %', _table;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Someone else already made this change: report it instead of overwriting
+  IF _current = _checked_in THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict',
+      'checked_in', _current,
+      'checkin_time', _current_time,
+      'checked_in_by', _current_by
+    );
+  END IF;
+
+  _new_time := CASE WHEN _checked_in THEN COALESCE(_checkin_time, now()) ELSE NULL END;
+
+  IF _table = 'guests' THEN
+    UPDATE public.guests
+      SET checked_in = _checked_in, checkin_time = _new_time,
+          checked_in_by = auth.uid(), checked_in_by_email = _operator_email
+      WHERE id = _record_id;
+  ELSE
+    UPDATE public.staff
+      SET checked_in = _checked_in, checkin_time = _new_time,
+          checked_in_by = auth.uid(), checked_in_by_email = _operator_email
+      WHERE id = _record_id;
+  END IF;
+
+  _action := CASE WHEN _checked_in THEN 'Check-in' ELSE 'Check-out' END
+    || CASE WHEN _table = 'staff' THEN ' Equipe' ELSE '' END;
+
+  INSERT INTO public.activity_logs (event_id, user_id, user_email, action, details)
+  VALUES (_event_id, auth.uid(), _operator_email, _action,
+          _name || COALESCE(' (' || _note || ')', ''));
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'checked_in', _checked_in,
+    'checkin_time', _new_time,
+    'checked_in_by', _operator_email
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
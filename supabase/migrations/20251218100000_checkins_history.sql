@@ -0,0 +1,241 @@
+-- Migration: Check-in history
+-- Every check-in and check-out is recorded as a row in public.checkins (who,
+-- from which source/device and when). guests/staff.checked_in is derived from
+-- the latest entry, so a check-out no longer erases when the person arrived
+-- and re-entries after a break are kept.
+
+-- =============================================================================
+-- 1. checkins table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.checkins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  guest_id UUID REFERENCES public.guests(id) ON DELETE CASCADE,
+  staff_id UUID REFERENCES public.staff(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('in', 'out')),
+  source TEXT NOT NULL DEFAULT 'desk' CHECK (source IN ('desk', 'scanner', 'mobile', 'totem')),
+  device TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((guest_id IS NULL) <> (staff_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS checkins_event_id_idx ON public.checkins (event_id, occurred_at);
+CREATE INDEX IF NOT EXISTS checkins_guest_id_idx ON public.checkins (guest_id, occurred_at);
+CREATE INDEX IF NOT EXISTS checkins_staff_id_idx ON public.checkins (staff_id, occurred_at);
+
+ALTER TABLE public.checkins ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by perform_checkin/self_checkin (SECURITY DEFINER)
+CREATE POLICY "Authenticated users can view checkins"
+ON public.checkins FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.checkins;
+
+-- Keep the arrivals already recorded on the lists
+INSERT INTO public.checkins (event_id, guest_id, direction, source, occurred_at)
+SELECT event_id, id, 'in', 'desk', checkin_time
+FROM public.guests
+WHERE checked_in AND checkin_time IS NOT NULL;
+
+INSERT INTO public.checkins (event_id, staff_id, direction, source, occurred_at)
+SELECT event_id, id, 'in', 'desk', checkin_time
+FROM public.staff
+WHERE checked_in AND checkin_time IS NOT NULL;
+
+-- =============================================================================
+-- 2. Derive checked_in / checkin_time from the latest entry
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_checkin_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last public.checkins%ROWTYPE;
+BEGIN
+  -- Latest by occurred_at: an offline entry replayed late does not override
+  -- something that happened after it
+  SELECT * INTO _last FROM public.checkins
+  WHERE (NEW.guest_id IS NOT NULL AND guest_id = NEW.guest_id)
+     OR (NEW.staff_id IS NOT NULL AND staff_id = NEW.staff_id)
+  ORDER BY occurred_at DESC, created_at DESC
+  LIMIT 1;
+
+  IF NEW.guest_id IS NOT NULL THEN
+    UPDATE public.guests
+      SET checked_in = (_last.direction = 'in'),
+          checkin_time = CASE WHEN _last.direction = 'in' THEN _last.occurred_at END,
+          checked_in_by = _last.user_id,
+          checked_in_by_email = _last.user_email
+      WHERE id = NEW.guest_id;
+  ELSE
+    UPDATE public.staff
+      SET checked_in = (_last.direction = 'in'),
+          checkin_time = CASE WHEN _last.direction = 'in' THEN _last.occurred_at END,
+          checked_in_by = _last.user_id,
+          checked_in_by_email = _last.user_email
+      WHERE id = NEW.staff_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_checkin_recorded ON public.checkins;
+
+CREATE TRIGGER on_checkin_recorded
+  AFTER INSERT ON public.checkins
+  FOR EACH ROW EXECUTE FUNCTION public.apply_checkin_state();
+
+-- =============================================================================
+-- 3. perform_checkin records history (adds source and device)
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.perform_checkin(
+  _table TEXT,
+  _record_id UUID,
+  _checked_in BOOLEAN,
+  _checkin_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _note TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'desk',
+  _device TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _current_by TEXT;
+  _operator_email TEXT;
+  _occurred_at TIMESTAMP WITH TIME ZONE;
+  _action TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+
+  -- Lock the row so concurrent desks are serialised
+  IF _table = 'guests' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id FOR UPDATE;
+  ELSIF _table = 'staff' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid table: %', _table;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Someone else already made this change: report it instead of overwriting
+  IF _current = _checked_in THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict',
+      'checked_in', _current,
+      'checkin_time', _current_time,
+      'checked_in_by', _current_by
+    );
+  END IF;
+
+  _occurred_at := COALESCE(_checkin_time, now());
+
+  INSERT INTO public.checkins (event_id, guest_id, staff_id, direction, source, device, user_id, user_email, occurred_at)
+  VALUES (
+    _event_id,
+    CASE WHEN _table = 'guests' THEN _record_id END,
+    CASE WHEN _table = 'staff' THEN _record_id END,
+    CASE WHEN _checked_in THEN 'in' ELSE 'out' END,
+    COALESCE(_source, 'desk'),
+    _device,
+    auth.uid(),
+    _operator_email,
+    _occurred_at
+  );
+
+  _action := CASE WHEN _checked_in THEN 'Check-in' ELSE 'Check-out' END
+    || CASE WHEN _table = 'staff' THEN ' Equipe' ELSE '' END;
+
+  INSERT INTO public.activity_logs (event_id, user_id, user_email, action, details)
+  VALUES (_event_id, auth.uid(), _operator_email, _action,
+          _name || COALESCE(' (' || _note || ')', ''));
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'checked_in', _checked_in,
+    'checkin_time', CASE WHEN _checked_in THEN _occurred_at END,
+    'checked_in_by', _operator_email
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) TO authenticated;
+
+-- =============================================================================
+-- 4. self_checkin: public check-in for the mobile page (/guest/:id)
+-- =============================================================================
+
+-- Attendees are anonymous, so this only ever checks in (never out)
+CREATE OR REPLACE FUNCTION public.self_checkin(
+  _guest_id UUID,
+  _source TEXT DEFAULT 'mobile'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF _source NOT IN ('mobile', 'totem') THEN
+    RAISE EXCEPTION 'Invalid source: %', _source;
+  END IF;
+
+  SELECT event_id, name, COALESCE(checked_in, false), checkin_time
+    INTO _event_id, _name, _current, _current_time
+    FROM public.guests WHERE id = _guest_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _current THEN
+    RETURN jsonb_build_object('status', 'conflict', 'checked_in', true, 'checkin_time', _current_time);
+  END IF;
+
+  INSERT INTO public.checkins (event_id, guest_id, direction, source)
+  VALUES (_event_id, _guest_id, 'in', _source);
+
+  INSERT INTO public.activity_logs (event_id, action, details)
+  VALUES (_event_id, 'Auto Check-in',
+          _name || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+
+  RETURN jsonb_build_object('status', 'ok', 'checked_in', true, 'checkin_time', now());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.self_checkin(UUID, TEXT) TO anon, authenticated;
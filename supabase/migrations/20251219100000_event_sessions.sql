@@ -0,0 +1,284 @@
+-- Migration: Sessions (days, rooms, parallel tracks) under an event
+-- Attendance per session is recorded in public.checkins with session_id set.
+-- Event-level presence (guests.checked_in) only follows entries without a
+-- session, so leaving a room does not check someone out of the event.
+
+-- =============================================================================
+-- 1. event_sessions table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.event_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  room TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS event_sessions_event_id_idx ON public.event_sessions (event_id, starts_at);
+
+ALTER TABLE public.event_sessions ENABLE ROW LEVEL SECURITY;
+
+-- The Totem and the mobile page show the session name to anonymous attendees
+CREATE POLICY "Public can view sessions"
+ON public.event_sessions FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins and equipe can manage sessions"
+ON public.event_sessions FOR ALL
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe'))
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe'));
+
+ALTER TABLE public.checkins
+  ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES public.event_sessions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS checkins_session_id_idx ON public.checkins (session_id, occurred_at);
+
+-- =============================================================================
+-- 2. Only event-level entries drive guests/staff.checked_in
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_checkin_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last public.checkins%ROWTYPE;
+BEGIN
+  IF NEW.session_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Latest by occurred_at: an offline entry replayed late does not override
+  -- something that happened after it
+  SELECT * INTO _last FROM public.checkins
+  WHERE session_id IS NULL
+    AND ((NEW.guest_id IS NOT NULL AND guest_id = NEW.guest_id)
+      OR (NEW.staff_id IS NOT NULL AND staff_id = NEW.staff_id))
+  ORDER BY occurred_at DESC, created_at DESC
+  LIMIT 1;
+
+  IF NEW.guest_id IS NOT NULL THEN
+    UPDATE public.guests
+      SET checked_in = (_last.direction = 'in'),
+          checkin_time = CASE WHEN _last.direction = 'in' THEN _last.occurred_at END,
+          checked_in_by = _last.user_id,
+          checked_in_by_email = _last.user_email
+      WHERE id = NEW.guest_id;
+  ELSE
+    UPDATE public.staff
+      SET checked_in = (_last.direction = 'in'),
+          checkin_time = CASE WHEN _last.direction = 'in' THEN _last.occurred_at END,
+          checked_in_by = _last.user_id,
+          checked_in_by_email = _last.user_email
+      WHERE id = NEW.staff_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- 3. perform_checkin with an optional session
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.perform_checkin(
+  _table TEXT,
+  _record_id UUID,
+  _checked_in BOOLEAN,
+  _checkin_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _note TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'desk',
+  _device TEXT DEFAULT NULL,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _current_by TEXT;
+  _operator_email TEXT;
+  _occurred_at TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _last public.checkins%ROWTYPE;
+  _action TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+
+  -- Lock the row so concurrent desks are serialised
+  IF _table = 'guests' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id FOR UPDATE;
+  ELSIF _table = 'staff' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid table: %', _table;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Session attendance: current state is the latest entry for that session
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT * INTO _last FROM public.checkins
+    WHERE session_id = _session_id
+      AND (guest_id = _record_id OR staff_id = _record_id)
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    _current := COALESCE(_last.direction = 'in', false);
+    _current_time := CASE WHEN _current THEN _last.occurred_at END;
+    _current_by := _last.user_email;
+  END IF;
+
+  -- Someone else already made this change: report it instead of overwriting
+  IF _current = _checked_in THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict',
+      'checked_in', _current,
+      'checkin_time', _current_time,
+      'checked_in_by', _current_by
+    );
+  END IF;
+
+  _occurred_at := COALESCE(_checkin_time, now());
+
+  INSERT INTO public.checkins (event_id, guest_id, staff_id, session_id, direction, source, device, user_id, user_email, occurred_at)
+  VALUES (
+    _event_id,
+    CASE WHEN _table = 'guests' THEN _record_id END,
+    CASE WHEN _table = 'staff' THEN _record_id END,
+    _session_id,
+    CASE WHEN _checked_in THEN 'in' ELSE 'out' END,
+    COALESCE(_source, 'desk'),
+    _device,
+    auth.uid(),
+    _operator_email,
+    _occurred_at
+  );
+
+  _action := CASE WHEN _checked_in THEN 'Check-in' ELSE 'Check-out' END
+    || CASE WHEN _table = 'staff' THEN ' Equipe' ELSE '' END;
+
+  INSERT INTO public.activity_logs (event_id, user_id, user_email, action, details)
+  VALUES (_event_id, auth.uid(), _operator_email, _action,
+          _name || COALESCE(' — ' || _session_name, '') || COALESCE(' (' || _note || ')', ''));
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'checked_in', _checked_in,
+    'checkin_time', CASE WHEN _checked_in THEN _occurred_at END,
+    'checked_in_by', _operator_email
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID) TO authenticated;
+
+-- =============================================================================
+-- 4. self_checkin for a specific session (one QR per room door)
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.self_checkin(UUID, TEXT);
+
+-- Entering a session also checks the attendee into the event if needed
+CREATE OR REPLACE FUNCTION public.self_checkin(
+  _guest_id UUID,
+  _source TEXT DEFAULT 'mobile',
+  _session_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _in_session BOOLEAN;
+BEGIN
+  IF _source NOT IN ('mobile', 'totem') THEN
+    RAISE EXCEPTION 'Invalid source: %', _source;
+  END IF;
+
+  SELECT event_id, name, COALESCE(checked_in, false), checkin_time
+    INTO _event_id, _name, _current, _current_time
+    FROM public.guests WHERE id = _guest_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT direction = 'in' INTO _in_session FROM public.checkins
+    WHERE session_id = _session_id AND guest_id = _guest_id
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    IF COALESCE(_in_session, false) THEN
+      RETURN jsonb_build_object('status', 'conflict', 'checked_in', true);
+    END IF;
+
+    IF NOT _current THEN
+      INSERT INTO public.checkins (event_id, guest_id, direction, source)
+      VALUES (_event_id, _guest_id, 'in', _source);
+    END IF;
+
+    INSERT INTO public.checkins (event_id, guest_id, session_id, direction, source)
+    VALUES (_event_id, _guest_id, _session_id, 'in', _source);
+  ELSE
+    IF _current THEN
+      RETURN jsonb_build_object('status', 'conflict', 'checked_in', true, 'checkin_time', _current_time);
+    END IF;
+
+    INSERT INTO public.checkins (event_id, guest_id, direction, source)
+    VALUES (_event_id, _guest_id, 'in', _source);
+  END IF;
+
+  INSERT INTO public.activity_logs (event_id, action, details)
+  VALUES (_event_id, 'Auto Check-in',
+          _name || COALESCE(' — ' || _session_name, '')
+            || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+
+  RETURN jsonb_build_object('status', 'ok', 'checked_in', true, 'checkin_time', now());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.self_checkin(UUID, TEXT, UUID) TO anon, authenticated;
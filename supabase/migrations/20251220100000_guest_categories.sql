@@ -0,0 +1,18 @@
+-- Migration: Guest categories (VIP, speaker, press, sponsor...)
+-- Each event keeps its own list of categories as JSON:
+--   [{ "id": "vip", "name": "VIP", "color": "#eab308", "highlight": true }, ...]
+-- guests.category stores the category id. "highlight" marks the categories
+-- that stand out on the Live feed when they arrive.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS guest_categories JSONB NOT NULL DEFAULT '[
+    {"id": "vip", "name": "VIP", "color": "#eab308", "highlight": true},
+    {"id": "palestrante", "name": "Palestrante", "color": "#8b5cf6", "highlight": true},
+    {"id": "imprensa", "name": "Imprensa", "color": "#0ea5e9", "highlight": false},
+    {"id": "patrocinador", "name": "Patrocinador", "color": "#22c55e", "highlight": false}
+  ]'::jsonb;
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS category TEXT;
+
+CREATE INDEX IF NOT EXISTS guests_event_category_idx ON public.guests (event_id, category);
@@ -0,0 +1,6 @@
+-- Migration: Per-event badge template
+-- Label size (roll presets or A4 sheets), fonts, visible fields and logo
+-- placement, shared by every reception machine. NULL = default 90x35mm label.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS badge_template JSONB;
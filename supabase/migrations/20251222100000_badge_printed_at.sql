@@ -0,0 +1,9 @@
+-- Migration: Track badge printing
+-- Set when a badge is printed (single or batch) so reprints are visible and
+-- the lists can be filtered to "badge not printed".
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS badge_printed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.staff
+  ADD COLUMN IF NOT EXISTS badge_printed_at TIMESTAMP WITH TIME ZONE;
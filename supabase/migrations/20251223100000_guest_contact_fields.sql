@@ -0,0 +1,11 @@
+-- Migration: Guest contact and ticket fields
+-- Filled by the importer (spreadsheets, CSV and ticketing exports such as
+-- Sympla, Even3 and Eventbrite) instead of being dropped.
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS email TEXT,
+  ADD COLUMN IF NOT EXISTS phone TEXT,
+  ADD COLUMN IF NOT EXISTS document TEXT,
+  ADD COLUMN IF NOT EXISTS ticket_type TEXT;
+
+CREATE INDEX IF NOT EXISTS guests_event_email_idx ON public.guests (event_id, lower(email));
@@ -0,0 +1,6 @@
+-- Migration: Walk-in flag on guests
+-- Marks guests who registered themselves at the door (not on the original
+-- list), so the attendance report can count them apart from no-shows.
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS is_walkin BOOLEAN NOT NULL DEFAULT false;
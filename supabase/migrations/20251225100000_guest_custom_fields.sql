@@ -0,0 +1,10 @@
+-- Migration: Per-event custom guest fields
+-- events.custom_fields holds the field definitions edited in Settings
+-- ([{ id, label, type: text|select|checkbox, options }]); each guest keeps
+-- its values in guests.custom_data keyed by field id.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS custom_data JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,7 @@
+-- Migration: Configurable walk-in form
+-- events.walkin_form lists which fields the mobile walk-in form asks for, in
+-- order ([{ key, required }]); key is a guest column (company, role, email,
+-- phone, document) or 'custom:<custom field id>'. The name is always asked.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS walkin_form JSONB NOT NULL DEFAULT '[{"key": "company", "required": false}]'::jsonb;
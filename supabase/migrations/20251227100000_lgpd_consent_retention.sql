@@ -0,0 +1,157 @@
+-- Migration: LGPD consent capture and personal-data retention
+-- Each event configures a consent text (with optional extra checkboxes) shown
+-- on the self check-in page; the guest's acceptance is stored with the text
+-- and version it was given for. After retention_days past the event date the
+-- guests' personal data is anonymised (attendance numbers are kept).
+
+-- =============================================================================
+-- 1. Columns
+-- =============================================================================
+
+-- { enabled, text, version, checkboxes: [{ id, label, required }] }
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS consent JSONB,
+  ADD COLUMN IF NOT EXISTS retention_days INTEGER CHECK (retention_days IS NULL OR retention_days > 0),
+  ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMP WITH TIME ZONE;
+
+-- { accepted_at, version, text, checkboxes: { id: boolean }, source }
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS consent JSONB,
+  ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMP WITH TIME ZONE;
+
+-- =============================================================================
+-- 2. Anonymisation
+-- =============================================================================
+
+-- Internal: scrubs one guest row (no permission check)
+CREATE OR REPLACE FUNCTION public._anonymize_guest_row(_guest_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.guests SET
+    name = 'Participante anonimizado',
+    company = NULL,
+    role = NULL,
+    email = NULL,
+    phone = NULL,
+    document = NULL,
+    ticket_type = NULL,
+    custom_data = '{}'::jsonb,
+    -- Keep only when and which version was accepted, not the answers
+    consent = CASE WHEN consent IS NULL THEN NULL ELSE jsonb_build_object('accepted_at', consent->'accepted_at', 'version', consent->'version') END,
+    anonymized_at = now()
+  WHERE id = _guest_id AND anonymized_at IS NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public._anonymize_guest_row(UUID) FROM PUBLIC, anon, authenticated;
+
+-- "Delete my data" for a single person (admins only)
+CREATE OR REPLACE FUNCTION public.anonymize_guest(_guest_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _operator_email TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT event_id, name INTO _event_id, _name FROM public.guests WHERE id = _guest_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public._anonymize_guest_row(_guest_id);
+  -- The activity log writes the person's name into details
+  UPDATE public.activity_logs SET details = NULL
+  WHERE event_id = _event_id AND details ILIKE '%' || _name || '%';
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+  INSERT INTO public.activity_logs (event_id, user_id, user_email, action, details)
+  VALUES (_event_id, auth.uid(), _operator_email, 'Anonimizou', 'Dados pessoais de 1 convidado (LGPD)');
+END;
+$$;
+
+-- Whole event: guests plus the names written into the activity log details
+CREATE OR REPLACE FUNCTION public._anonymize_event_rows(_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _guest IN SELECT id FROM public.guests WHERE event_id = _event_id AND anonymized_at IS NULL LOOP
+    PERFORM public._anonymize_guest_row(_guest.id);
+    _count := _count + 1;
+  END LOOP;
+
+  UPDATE public.activity_logs SET details = NULL WHERE event_id = _event_id;
+  UPDATE public.events SET anonymized_at = now() WHERE id = _event_id;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public._anonymize_event_rows(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Manual trigger from Settings (admins only)
+CREATE OR REPLACE FUNCTION public.anonymize_event(_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+  RETURN public._anonymize_event_rows(_event_id);
+END;
+$$;
+
+-- Retention policy: every event past date + retention_days
+CREATE OR REPLACE FUNCTION public.anonymize_expired_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _event IN
+    SELECT id FROM public.events
+    WHERE retention_days IS NOT NULL
+      AND anonymized_at IS NULL
+      AND date + make_interval(days => retention_days) < now()
+  LOOP
+    PERFORM public._anonymize_event_rows(_event.id);
+    _count := _count + 1;
+  END LOOP;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.anonymize_expired_events() FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- 3. Daily schedule (only where pg_cron is enabled)
+-- =============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('anonymize-expired-events', '0 4 * * *', 'SELECT public.anonymize_expired_events()');
+  END IF;
+END;
+$$;
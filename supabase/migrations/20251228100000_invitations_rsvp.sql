@@ -0,0 +1,58 @@
+-- Migration: E-mail invitations with RSVP
+-- Invitations are sent by the send-invitations edge function. Each e-mail
+-- carries a personal link (/rsvp/<checkin_token>) where the guest confirms or
+-- declines; confirming e-mails the personal check-in QR.
+
+-- =============================================================================
+-- 1. Columns
+-- =============================================================================
+
+-- { subject, body } with {{nome}}, {{evento}}, {{data}}, {{link}} placeholders
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS invitation_template JSONB;
+
+-- rsvp_status is NULL until an invitation is sent
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS rsvp_status TEXT CHECK (rsvp_status IN ('pending', 'confirmed', 'declined')),
+  ADD COLUMN IF NOT EXISTS invited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS rsvp_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS guests_event_rsvp_idx ON public.guests (event_id, rsvp_status);
+
+-- =============================================================================
+-- 2. rsvp_respond (public, by token)
+-- =============================================================================
+
+-- Returns { status: 'ok' | 'not_found', rsvp_status }
+CREATE OR REPLACE FUNCTION public.rsvp_respond(_token TEXT, _status TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_id UUID;
+  _event_id UUID;
+  _name TEXT;
+BEGIN
+  IF _status NOT IN ('confirmed', 'declined') THEN
+    RAISE EXCEPTION 'Invalid RSVP status: %', _status;
+  END IF;
+
+  SELECT id, event_id, name INTO _guest_id, _event_id, _name
+    FROM public.guests WHERE checkin_token = _token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  UPDATE public.guests SET rsvp_status = _status, rsvp_at = now() WHERE id = _guest_id;
+
+  INSERT INTO public.activity_logs (event_id, action, details)
+  VALUES (_event_id, CASE WHEN _status = 'confirmed' THEN 'RSVP Confirmou' ELSE 'RSVP Recusou' END, _name);
+
+  RETURN jsonb_build_object('status', 'ok', 'rsvp_status', _status);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rsvp_respond(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,54 @@
+-- Migration: WhatsApp/SMS check-in notifications
+-- On check-in the client calls the send-notifications edge function, which
+-- messages the guest (confirmation) and any host watching that guest. The
+-- provider (mock, Twilio SMS/WhatsApp, WhatsApp Cloud API) is configured on
+-- the server; every delivery is logged in activity_logs.
+
+-- =============================================================================
+-- 1. Settings
+-- =============================================================================
+
+-- { guest_enabled, hosts_enabled, channel, guest_template, host_template }
+-- with {{nome}}, {{evento}}, {{hora}}, {{anfitriao}} placeholders
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS notification_settings JSONB;
+
+-- =============================================================================
+-- 2. guest_watchers (hosts alerted when a guest arrives)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.guest_watchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  guest_id UUID REFERENCES public.guests(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('whatsapp', 'sms')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS guest_watchers_guest_id_idx ON public.guest_watchers (guest_id);
+CREATE INDEX IF NOT EXISTS guest_watchers_event_id_idx ON public.guest_watchers (event_id);
+
+ALTER TABLE public.guest_watchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view guest watchers"
+ON public.guest_watchers FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins and equipe can manage guest watchers"
+ON public.guest_watchers FOR ALL
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe'))
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe'));
+
+-- =============================================================================
+-- 3. One notification per arrival
+-- =============================================================================
+
+-- Set by the edge function when it claims an entry, so repeated calls (retries,
+-- offline replays, two desks) never message twice
+ALTER TABLE public.checkins
+  ADD COLUMN IF NOT EXISTS notified_at TIMESTAMP WITH TIME ZONE;
+
+-- Arrivals recorded before this migration are not notified
+UPDATE public.checkins SET notified_at = occurred_at WHERE notified_at IS NULL;
@@ -0,0 +1,135 @@
+-- Migration: In-app host notifications
+-- A guest can now be watched by app users as well as by phone numbers. When a
+-- watched guest arrives (any check-in path: desk, scanner, mobile, Totem) the
+-- watching users get a row in public.notifications, delivered live through
+-- realtime; watchers on the 'email' channel are also e-mailed by the
+-- send-notifications edge function.
+
+-- =============================================================================
+-- 1. guest_watchers: app users
+-- =============================================================================
+
+ALTER TABLE public.guest_watchers
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  ALTER COLUMN phone DROP NOT NULL;
+
+-- 'app' = in-app/browser notification only, 'email' = in-app plus e-mail
+ALTER TABLE public.guest_watchers DROP CONSTRAINT IF EXISTS guest_watchers_channel_check;
+ALTER TABLE public.guest_watchers
+  ADD CONSTRAINT guest_watchers_channel_check CHECK (channel IN ('whatsapp', 'sms', 'app', 'email')),
+  ADD CONSTRAINT guest_watchers_target_check CHECK (
+    CASE WHEN channel IN ('app', 'email') THEN user_id IS NOT NULL ELSE phone IS NOT NULL END
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS guest_watchers_guest_user_idx
+  ON public.guest_watchers (guest_id, user_id) WHERE user_id IS NOT NULL;
+
+-- Any logged-in user (e.g. an executive hosting the event) can watch guests for themselves
+CREATE POLICY "Users can manage their own watches"
+ON public.guest_watchers FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Staff pick the host from the registered users
+CREATE OR REPLACE FUNCTION public.list_app_users()
+RETURNS TABLE (user_id UUID, email TEXT, display_name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe')) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN QUERY
+    SELECT p.user_id, p.email, p.display_name FROM public.profiles p ORDER BY p.email;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_app_users() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_app_users() TO authenticated;
+
+-- =============================================================================
+-- 2. notifications table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  guest_id UUID REFERENCES public.guests(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by notify_guest_watchers (SECURITY DEFINER)
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own notifications as read"
+ON public.notifications FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- =============================================================================
+-- 3. Notify watching users on arrival
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_guest_watchers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_name TEXT;
+  _event_name TEXT;
+  _hosts_enabled BOOLEAN;
+BEGIN
+  -- Event-level arrivals only (entering a session is not "arriving")
+  IF NEW.guest_id IS NULL OR NEW.direction <> 'in' OR NEW.session_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT e.name, COALESCE((e.notification_settings->>'hosts_enabled')::BOOLEAN, true)
+    INTO _event_name, _hosts_enabled
+    FROM public.events e WHERE e.id = NEW.event_id;
+
+  IF NOT COALESCE(_hosts_enabled, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _guest_name FROM public.guests WHERE id = NEW.guest_id;
+
+  INSERT INTO public.notifications (user_id, event_id, guest_id, title, body)
+  SELECT DISTINCT w.user_id, NEW.event_id, NEW.guest_id,
+         _guest_name || ' chegou',
+         _event_name || ' — check-in às '
+           || to_char(NEW.occurred_at AT TIME ZONE 'America/Sao_Paulo', 'HH24:MI')
+  FROM public.guest_watchers w
+  WHERE w.guest_id = NEW.guest_id AND w.user_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_checkin_notify_watchers ON public.checkins;
+
+CREATE TRIGGER on_checkin_notify_watchers
+  AFTER INSERT ON public.checkins
+  FOR EACH ROW EXECUTE FUNCTION public.notify_guest_watchers();
@@ -0,0 +1,336 @@
+-- Migration: Capacity limits and waitlist
+-- Events get a maximum attendance (sessions already have one). Check-ins that
+-- would go over the limit are refused by perform_checkin/self_checkin unless an
+-- admin overrides it; with capacity_mode = 'waitlist' the mobile check-in puts
+-- the guest on a waitlist instead. Occupancy is the number of guests currently
+-- inside, so check-outs free places. Staff do not count.
+
+-- =============================================================================
+-- 1. Columns
+-- =============================================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  ADD COLUMN IF NOT EXISTS capacity_mode TEXT NOT NULL DEFAULT 'block' CHECK (capacity_mode IN ('block', 'waitlist'));
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS waitlisted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS guests_event_waitlist_idx ON public.guests (event_id, waitlisted_at)
+  WHERE waitlisted_at IS NOT NULL;
+
+-- =============================================================================
+-- 2. _capacity_full
+-- =============================================================================
+
+-- Returns NULL when there is room, otherwise { scope, occupancy, capacity }.
+-- Locks the event row so concurrent desks cannot both take the last place.
+CREATE OR REPLACE FUNCTION public._capacity_full(_event_id UUID, _session_id UUID, _check_event BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _capacity INTEGER;
+  _session_capacity INTEGER;
+  _occupancy INTEGER;
+BEGIN
+  SELECT capacity INTO _capacity FROM public.events WHERE id = _event_id;
+  IF _session_id IS NOT NULL THEN
+    SELECT capacity INTO _session_capacity FROM public.event_sessions WHERE id = _session_id;
+  END IF;
+
+  IF _session_capacity IS NULL AND (_capacity IS NULL OR NOT _check_event) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = _event_id FOR UPDATE;
+
+  IF _session_capacity IS NOT NULL THEN
+    SELECT count(*) INTO _occupancy FROM (
+      SELECT DISTINCT ON (guest_id) direction FROM public.checkins
+      WHERE session_id = _session_id AND guest_id IS NOT NULL
+      ORDER BY guest_id, occurred_at DESC, created_at DESC
+    ) latest
+    WHERE direction = 'in';
+
+    IF _occupancy >= _session_capacity THEN
+      RETURN jsonb_build_object('scope', 'session', 'occupancy', _occupancy, 'capacity', _session_capacity);
+    END IF;
+  END IF;
+
+  IF _capacity IS NOT NULL AND _check_event THEN
+    SELECT count(*) INTO _occupancy FROM public.guests WHERE event_id = _event_id AND checked_in;
+
+    IF _occupancy >= _capacity THEN
+      RETURN jsonb_build_object('scope', 'event', 'occupancy', _occupancy, 'capacity', _capacity);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public._capacity_full(UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- 3. perform_checkin: refuse over capacity unless an admin overrides
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.perform_checkin(
+  _table TEXT,
+  _record_id UUID,
+  _checked_in BOOLEAN,
+  _checkin_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _note TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'desk',
+  _device TEXT DEFAULT NULL,
+  _session_id UUID DEFAULT NULL,
+  _override BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _current_by TEXT;
+  _operator_email TEXT;
+  _occurred_at TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _last public.checkins%ROWTYPE;
+  _full JSONB;
+  _action TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+
+  -- Lock the row so concurrent desks are serialised
+  IF _table = 'guests' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id FOR UPDATE;
+  ELSIF _table = 'staff' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid table: %', _table;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Session attendance: current state is the latest entry for that session
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT * INTO _last FROM public.checkins
+    WHERE session_id = _session_id
+      AND (guest_id = _record_id OR staff_id = _record_id)
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    _current := COALESCE(_last.direction = 'in', false);
+    _current_time := CASE WHEN _current THEN _last.occurred_at END;
+    _current_by := _last.user_email;
+  END IF;
+
+  -- Someone else already made this change: report it instead of overwriting
+  IF _current = _checked_in THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict',
+      'checked_in', _current,
+      'checkin_time', _current_time,
+      'checked_in_by', _current_by
+    );
+  END IF;
+
+  -- Capacity: only guest arrivals count
+  IF _table = 'guests' AND _checked_in THEN
+    _full := public._capacity_full(_event_id, _session_id, _session_id IS NULL);
+    IF _full IS NOT NULL THEN
+      IF NOT (_override AND public.has_role(auth.uid(), 'admin')) THEN
+        RETURN _full || jsonb_build_object('status', 'full');
+      END IF;
+      _note := concat_ws(', ', _note, 'acima da lotação');
+    END IF;
+  END IF;
+
+  _occurred_at := COALESCE(_checkin_time, now());
+
+  INSERT INTO public.checkins (event_id, guest_id, staff_id, session_id, direction, source, device, user_id, user_email, occurred_at)
+  VALUES (
+    _event_id,
+    CASE WHEN _table = 'guests' THEN _record_id END,
+    CASE WHEN _table = 'staff' THEN _record_id END,
+    _session_id,
+    CASE WHEN _checked_in THEN 'in' ELSE 'out' END,
+    COALESCE(_source, 'desk'),
+    _device,
+    auth.uid(),
+    _operator_email,
+    _occurred_at
+  );
+
+  _action := CASE WHEN _checked_in THEN 'Check-in' ELSE 'Check-out' END
+    || CASE WHEN _table = 'staff' THEN ' Equipe' ELSE '' END;
+
+  INSERT INTO public.activity_logs (event_id, user_id, user_email, action, details)
+  VALUES (_event_id, auth.uid(), _operator_email, _action,
+          _name || COALESCE(' — ' || _session_name, '') || COALESCE(' (' || _note || ')', ''));
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'checked_in', _checked_in,
+    'checkin_time', CASE WHEN _checked_in THEN _occurred_at END,
+    'checked_in_by', _operator_email
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, BOOLEAN) TO authenticated;
+
+-- =============================================================================
+-- 4. self_checkin: blocked or waitlisted when full
+-- =============================================================================
+
+-- Extra results: { status: 'full', scope, occupancy, capacity }
+--                { status: 'waitlisted', position }
+CREATE OR REPLACE FUNCTION public.self_checkin(
+  _guest_id UUID,
+  _source TEXT DEFAULT 'mobile',
+  _session_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _waitlisted_at TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _in_session BOOLEAN;
+  _full JSONB;
+  _position INTEGER;
+BEGIN
+  IF _source NOT IN ('mobile', 'totem') THEN
+    RAISE EXCEPTION 'Invalid source: %', _source;
+  END IF;
+
+  SELECT event_id, name, COALESCE(checked_in, false), checkin_time, waitlisted_at
+    INTO _event_id, _name, _current, _current_time, _waitlisted_at
+    FROM public.guests WHERE id = _guest_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT direction = 'in' INTO _in_session FROM public.checkins
+    WHERE session_id = _session_id AND guest_id = _guest_id
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    IF COALESCE(_in_session, false) THEN
+      RETURN jsonb_build_object('status', 'conflict', 'checked_in', true);
+    END IF;
+  ELSIF _current THEN
+    RETURN jsonb_build_object('status', 'conflict', 'checked_in', true, 'checkin_time', _current_time);
+  END IF;
+
+  _full := public._capacity_full(_event_id, _session_id, NOT _current);
+  IF _full IS NOT NULL THEN
+    IF _full->>'scope' = 'event'
+       AND (SELECT capacity_mode FROM public.events WHERE id = _event_id) = 'waitlist' THEN
+      IF _waitlisted_at IS NULL THEN
+        _waitlisted_at := now();
+        UPDATE public.guests SET waitlisted_at = _waitlisted_at WHERE id = _guest_id;
+        INSERT INTO public.activity_logs (event_id, action, details)
+        VALUES (_event_id, 'Lista de Espera',
+                _name || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+      END IF;
+
+      SELECT count(*) INTO _position FROM public.guests
+      WHERE event_id = _event_id AND NOT COALESCE(checked_in, false)
+        AND waitlisted_at IS NOT NULL AND waitlisted_at <= _waitlisted_at;
+
+      RETURN jsonb_build_object('status', 'waitlisted', 'position', _position);
+    END IF;
+    RETURN _full || jsonb_build_object('status', 'full');
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    IF NOT _current THEN
+      INSERT INTO public.checkins (event_id, guest_id, direction, source)
+      VALUES (_event_id, _guest_id, 'in', _source);
+    END IF;
+
+    INSERT INTO public.checkins (event_id, guest_id, session_id, direction, source)
+    VALUES (_event_id, _guest_id, _session_id, 'in', _source);
+  ELSE
+    INSERT INTO public.checkins (event_id, guest_id, direction, source)
+    VALUES (_event_id, _guest_id, 'in', _source);
+  END IF;
+
+  INSERT INTO public.activity_logs (event_id, action, details)
+  VALUES (_event_id, 'Auto Check-in',
+          _name || COALESCE(' — ' || _session_name, '')
+            || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+
+  RETURN jsonb_build_object('status', 'ok', 'checked_in', true, 'checkin_time', now());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.self_checkin(UUID, TEXT, UUID) TO anon, authenticated;
+
+-- =============================================================================
+-- 5. Leave the waitlist on arrival
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.clear_guest_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.guest_id IS NOT NULL AND NEW.direction = 'in' AND NEW.session_id IS NULL THEN
+    UPDATE public.guests SET waitlisted_at = NULL
+      WHERE id = NEW.guest_id AND waitlisted_at IS NOT NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_checkin_clear_waitlist ON public.checkins;
+
+CREATE TRIGGER on_checkin_clear_waitlist
+  AFTER INSERT ON public.checkins
+  FOR EACH ROW EXECUTE FUNCTION public.clear_guest_waitlist();
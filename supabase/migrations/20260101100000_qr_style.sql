@@ -0,0 +1,8 @@
+-- Migration: QR code style
+-- QR codes are now rendered in the browser (no api.qrserver.com). Events can
+-- choose the error-correction level and whether the event logo goes in the
+-- centre of the Totem, TV and mobile QR codes.
+
+-- { level: 'L' | 'M' | 'Q' | 'H', logo: boolean }
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS qr_style JSONB;
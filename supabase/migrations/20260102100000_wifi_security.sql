@@ -0,0 +1,14 @@
+-- Migration: Wi-Fi security type and hidden networks
+-- The Wi-Fi QR code used to assume WPA and left special characters in the
+-- SSID/password unescaped. Events now store the security type (as written in
+-- the WIFI: payload) and whether the network is hidden.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS wifi_security TEXT NOT NULL DEFAULT 'WPA'
+    CHECK (wifi_security IN ('WPA', 'SAE', 'WEP', 'nopass')),
+  ADD COLUMN IF NOT EXISTS wifi_hidden BOOLEAN NOT NULL DEFAULT false;
+
+-- Events with an SSID but no password were open networks
+UPDATE public.events
+SET wifi_security = 'nopass'
+WHERE wifi_ssid IS NOT NULL AND coalesce(wifi_pass, '') = '';
@@ -0,0 +1,10 @@
+-- Migration: Totem kiosk mode
+-- The Totem page can run as a kiosk: fullscreen lock, rotating slides
+-- (check-in QR, sponsors, agenda, Wi-Fi), a welcome animation on each
+-- check-in and a periodic health check/reload. Settings live on the event.
+
+-- { enabled, fullscreen, slides[], slide_seconds, sponsor_images[],
+--   welcome_enabled, welcome_message, welcome_seconds, idle_seconds,
+--   reload_minutes }
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS kiosk_settings JSONB;
@@ -0,0 +1,69 @@
+-- Migration: Public arrivals wall
+-- /arrivals/:id shows the latest arrivals, an attendance counter and progress
+-- towards the invited total on a venue TV. The page reads everything through
+-- get_arrivals_wall, which applies the event's privacy options server-side.
+
+-- =============================================================================
+-- 1. Settings
+-- =============================================================================
+
+-- { enabled, first_name_only, show_company } (disabled until turned on)
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS arrivals_wall JSONB;
+
+-- =============================================================================
+-- 2. get_arrivals_wall (public)
+-- =============================================================================
+
+-- Returns { enabled: false } or
+-- { enabled, present, invited, arrivals: [{ id, name, company, category, checkin_time }] }
+-- invited = pre-registered guests (walk-ins count as present, not as invited)
+CREATE OR REPLACE FUNCTION public.get_arrivals_wall(_event_id UUID, _limit INTEGER DEFAULT 30)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings JSONB;
+  _first_name_only BOOLEAN;
+  _show_company BOOLEAN;
+BEGIN
+  SELECT coalesce(arrivals_wall, '{}'::jsonb) INTO _settings
+    FROM public.events WHERE id = _event_id;
+
+  IF NOT FOUND OR NOT coalesce((_settings->>'enabled')::boolean, false) THEN
+    RETURN jsonb_build_object('enabled', false);
+  END IF;
+
+  _first_name_only := coalesce((_settings->>'first_name_only')::boolean, false);
+  _show_company := coalesce((_settings->>'show_company')::boolean, true);
+
+  RETURN jsonb_build_object(
+    'enabled', true,
+    'present', (SELECT count(*) FROM public.guests WHERE event_id = _event_id AND checked_in),
+    'invited', (SELECT count(*) FROM public.guests WHERE event_id = _event_id AND NOT is_walkin),
+    'arrivals', coalesce((
+      SELECT jsonb_agg(a ORDER BY a.checkin_time DESC)
+      FROM (
+        SELECT
+          g.id,
+          CASE WHEN _first_name_only THEN split_part(btrim(g.name), ' ', 1) ELSE g.name END AS name,
+          CASE WHEN _show_company THEN g.company END AS company,
+          g.category,
+          g.checkin_time
+        FROM public.guests g
+        WHERE g.event_id = _event_id
+          AND g.checked_in
+          AND g.checkin_time IS NOT NULL
+          AND g.anonymized_at IS NULL
+        ORDER BY g.checkin_time DESC
+        LIMIT least(greatest(_limit, 1), 100)
+      ) a
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_arrivals_wall(UUID, INTEGER) TO anon, authenticated;
@@ -0,0 +1,161 @@
+-- Migration: perform_checkin reports the state actually in effect
+-- apply_checkin_state derives checked_in from the latest entry by occurred_at,
+-- so an entry replayed late (offline queue) is kept in the history without
+-- changing the state. perform_checkin now re-reads the state after recording
+-- the entry and answers 'conflict' when the entry did not take effect.
+
+-- =============================================================================
+-- 1. perform_checkin
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.perform_checkin(
+  _table TEXT,
+  _record_id UUID,
+  _checked_in BOOLEAN,
+  _checkin_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _note TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'desk',
+  _device TEXT DEFAULT NULL,
+  _session_id UUID DEFAULT NULL,
+  _override BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _current_by TEXT;
+  _operator_email TEXT;
+  _occurred_at TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _last public.checkins%ROWTYPE;
+  _full JSONB;
+  _action TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+
+  -- Lock the row so concurrent desks are serialised
+  IF _table = 'guests' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id FOR UPDATE;
+  ELSIF _table = 'staff' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid table: %', _table;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Session attendance: current state is the latest entry for that session
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT * INTO _last FROM public.checkins
+    WHERE session_id = _session_id
+      AND (guest_id = _record_id OR staff_id = _record_id)
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    _current := COALESCE(_last.direction = 'in', false);
+    _current_time := CASE WHEN _current THEN _last.occurred_at END;
+    _current_by := _last.user_email;
+  END IF;
+
+  -- Someone else already made this change: report it instead of overwriting
+  IF _current = _checked_in THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict',
+      'checked_in', _current,
+      'checkin_time', _current_time,
+      'checked_in_by', _current_by
+    );
+  END IF;
+
+  -- Capacity: only guest arrivals count
+  IF _table = 'guests' AND _checked_in THEN
+    _full := public._capacity_full(_event_id, _session_id, _session_id IS NULL);
+    IF _full IS NOT NULL THEN
+      IF NOT (_override AND public.has_role(auth.uid(), 'admin')) THEN
+        RETURN _full || jsonb_build_object('status', 'full');
+      END IF;
+      _note := concat_ws(', ', _note, 'acima da lotação');
+    END IF;
+  END IF;
+
+  _occurred_at := COALESCE(_checkin_time, now());
+
+  INSERT INTO public.checkins (event_id, guest_id, staff_id, session_id, direction, source, device, user_id, user_email, occurred_at)
+  VALUES (
+    _event_id,
+    CASE WHEN _table = 'guests' THEN _record_id END,
+    CASE WHEN _table = 'staff' THEN _record_id END,
+    _session_id,
+    CASE WHEN _checked_in THEN 'in' ELSE 'out' END,
+    COALESCE(_source, 'desk'),
+    _device,
+    auth.uid(),
+    _operator_email,
+    _occurred_at
+  );
+
+  -- State after the entry: an entry older than the latest one does not change it
+  IF _session_id IS NOT NULL THEN
+    SELECT * INTO _last FROM public.checkins
+    WHERE session_id = _session_id
+      AND (guest_id = _record_id OR staff_id = _record_id)
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    _current := COALESCE(_last.direction = 'in', false);
+    _current_time := CASE WHEN _current THEN _last.occurred_at END;
+    _current_by := _last.user_email;
+  ELSIF _table = 'guests' THEN
+    SELECT COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id;
+  ELSE
+    SELECT COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id;
+  END IF;
+
+  _action := CASE WHEN _checked_in THEN 'Check-in' ELSE 'Check-out' END
+    || CASE WHEN _table = 'staff' THEN ' Equipe' ELSE '' END;
+
+  IF _current <> _checked_in THEN
+    _note := concat_ws(', ', _note, 'anterior ao último registro');
+  END IF;
+
+  INSERT INTO public.activity_logs (event_id, user_id, user_email, action, details)
+  VALUES (_event_id, auth.uid(), _operator_email, _action,
+          _name || COALESCE(' — ' || _session_name, '') || COALESCE(' (' || _note || ')', ''));
+
+  RETURN jsonb_build_object(
+    'status', CASE WHEN _current = _checked_in THEN 'ok' ELSE 'conflict' END,
+    'checked_in', _current,
+    'checkin_time', _current_time,
+    'checked_in_by', _current_by
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, BOOLEAN) TO authenticated;
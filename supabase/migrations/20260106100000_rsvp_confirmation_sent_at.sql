@@ -0,0 +1,7 @@
+-- Migration: Send the RSVP confirmation e-mail only once
+-- The confirmation (with the check-in QR) is requested by the public RSVP page,
+-- so send-invitations claims this column before sending and repeated calls for
+-- the same guest do nothing.
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS confirmation_sent_at TIMESTAMP WITH TIME ZONE;
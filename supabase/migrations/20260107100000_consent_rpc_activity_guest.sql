@@ -0,0 +1,474 @@
+-- Migration: Consent recorded on the server and activity logs linked to guests
+-- The public check-in pages (mobile and Totem) no longer write guests.consent
+-- directly: record_guest_consent copies the event's current text and version
+-- and stamps the acceptance with the server clock. Activity log rows about a
+-- guest now carry guest_id, so anonymising a guest clears exactly their rows
+-- instead of matching the name in the details text.
+
+-- =============================================================================
+-- 1. activity_logs.guest_id
+-- =============================================================================
+
+ALTER TABLE public.activity_logs
+  ADD COLUMN IF NOT EXISTS guest_id UUID REFERENCES public.guests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS activity_logs_guest_id_idx ON public.activity_logs (guest_id)
+  WHERE guest_id IS NOT NULL;
+
+-- =============================================================================
+-- 2. Consent
+-- =============================================================================
+
+-- Builds guests.consent from events.consent and the answers
+-- ({ accept, <checkbox id>: boolean }). NULL when a required answer is missing.
+CREATE OR REPLACE FUNCTION public._guest_consent(_settings JSONB, _answers JSONB, _source TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _checkboxes JSONB := COALESCE(_settings->'checkboxes', '[]'::jsonb);
+BEGIN
+  IF NOT COALESCE((_answers->>'accept')::BOOLEAN, false) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_checkboxes) c
+    WHERE COALESCE((c->>'required')::BOOLEAN, false)
+      AND NOT COALESCE((_answers->>(c->>'id'))::BOOLEAN, false)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'accepted_at', now(),
+    'version', COALESCE((_settings->>'version')::INTEGER, 1),
+    'text', COALESCE(_settings->>'text', ''),
+    'checkboxes', COALESCE((
+      SELECT jsonb_object_agg(c->>'id', COALESCE((_answers->>(c->>'id'))::BOOLEAN, false))
+      FROM jsonb_array_elements(_checkboxes) c
+    ), '{}'::jsonb),
+    'source', _source
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public._guest_consent(JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Returns { status: 'ok' | 'not_found' | 'missing' }
+CREATE OR REPLACE FUNCTION public.record_guest_consent(
+  _guest_id UUID,
+  _answers JSONB,
+  _source TEXT DEFAULT 'mobile'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings JSONB;
+  _consent JSONB;
+BEGIN
+  IF _source NOT IN ('mobile', 'totem') THEN
+    RAISE EXCEPTION 'Invalid source: %', _source;
+  END IF;
+
+  SELECT e.consent INTO _settings
+    FROM public.guests g JOIN public.events e ON e.id = g.event_id
+    WHERE g.id = _guest_id AND g.anonymized_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Nothing to record when the event does not ask for consent
+  IF NOT COALESCE((_settings->>'enabled')::BOOLEAN, false) THEN
+    RETURN jsonb_build_object('status', 'ok');
+  END IF;
+
+  _consent := public._guest_consent(_settings, _answers, _source);
+  IF _consent IS NULL THEN
+    RETURN jsonb_build_object('status', 'missing');
+  END IF;
+
+  UPDATE public.guests SET consent = _consent WHERE id = _guest_id;
+  RETURN jsonb_build_object('status', 'ok');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_guest_consent(UUID, JSONB, TEXT) TO anon, authenticated;
+
+-- =============================================================================
+-- 3. Check-in and RSVP functions log guest_id
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.perform_checkin(
+  _table TEXT,
+  _record_id UUID,
+  _checked_in BOOLEAN,
+  _checkin_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _note TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'desk',
+  _device TEXT DEFAULT NULL,
+  _session_id UUID DEFAULT NULL,
+  _override BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _current_by TEXT;
+  _operator_email TEXT;
+  _occurred_at TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _last public.checkins%ROWTYPE;
+  _full JSONB;
+  _action TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+
+  -- Lock the row so concurrent desks are serialised
+  IF _table = 'guests' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id FOR UPDATE;
+  ELSIF _table = 'staff' THEN
+    SELECT event_id, name, COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _event_id, _name, _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid table: %', _table;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Session attendance: current state is the latest entry for that session
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT * INTO _last FROM public.checkins
+    WHERE session_id = _session_id
+      AND (guest_id = _record_id OR staff_id = _record_id)
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    _current := COALESCE(_last.direction = 'in', false);
+    _current_time := CASE WHEN _current THEN _last.occurred_at END;
+    _current_by := _last.user_email;
+  END IF;
+
+  -- Someone else already made this change: report it instead of overwriting
+  IF _current = _checked_in THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict',
+      'checked_in', _current,
+      'checkin_time', _current_time,
+      'checked_in_by', _current_by
+    );
+  END IF;
+
+  -- Capacity: only guest arrivals count
+  IF _table = 'guests' AND _checked_in THEN
+    _full := public._capacity_full(_event_id, _session_id, _session_id IS NULL);
+    IF _full IS NOT NULL THEN
+      IF NOT (_override AND public.has_role(auth.uid(), 'admin')) THEN
+        RETURN _full || jsonb_build_object('status', 'full');
+      END IF;
+      _note := concat_ws(', ', _note, 'acima da lotação');
+    END IF;
+  END IF;
+
+  _occurred_at := COALESCE(_checkin_time, now());
+
+  INSERT INTO public.checkins (event_id, guest_id, staff_id, session_id, direction, source, device, user_id, user_email, occurred_at)
+  VALUES (
+    _event_id,
+    CASE WHEN _table = 'guests' THEN _record_id END,
+    CASE WHEN _table = 'staff' THEN _record_id END,
+    _session_id,
+    CASE WHEN _checked_in THEN 'in' ELSE 'out' END,
+    COALESCE(_source, 'desk'),
+    _device,
+    auth.uid(),
+    _operator_email,
+    _occurred_at
+  );
+
+  -- State after the entry: an entry older than the latest one does not change it
+  IF _session_id IS NOT NULL THEN
+    SELECT * INTO _last FROM public.checkins
+    WHERE session_id = _session_id
+      AND (guest_id = _record_id OR staff_id = _record_id)
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    _current := COALESCE(_last.direction = 'in', false);
+    _current_time := CASE WHEN _current THEN _last.occurred_at END;
+    _current_by := _last.user_email;
+  ELSIF _table = 'guests' THEN
+    SELECT COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _current, _current_time, _current_by
+      FROM public.guests WHERE id = _record_id;
+  ELSE
+    SELECT COALESCE(checked_in, false), checkin_time, checked_in_by_email
+      INTO _current, _current_time, _current_by
+      FROM public.staff WHERE id = _record_id;
+  END IF;
+
+  _action := CASE WHEN _checked_in THEN 'Check-in' ELSE 'Check-out' END
+    || CASE WHEN _table = 'staff' THEN ' Equipe' ELSE '' END;
+
+  IF _current <> _checked_in THEN
+    _note := concat_ws(', ', _note, 'anterior ao último registro');
+  END IF;
+
+  INSERT INTO public.activity_logs (event_id, guest_id, user_id, user_email, action, details)
+  VALUES (_event_id, CASE WHEN _table = 'guests' THEN _record_id END, auth.uid(), _operator_email, _action,
+          _name || COALESCE(' — ' || _session_name, '') || COALESCE(' (' || _note || ')', ''));
+
+  RETURN jsonb_build_object(
+    'status', CASE WHEN _current = _checked_in THEN 'ok' ELSE 'conflict' END,
+    'checked_in', _current,
+    'checkin_time', _current_time,
+    'checked_in_by', _current_by
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.perform_checkin(TEXT, UUID, BOOLEAN, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT, UUID, BOOLEAN) TO authenticated;
+
+-- Extra results: { status: 'full', scope, occupancy, capacity }
+--                { status: 'waitlisted', position }
+CREATE OR REPLACE FUNCTION public.self_checkin(
+  _guest_id UUID,
+  _source TEXT DEFAULT 'mobile',
+  _session_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _waitlisted_at TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _in_session BOOLEAN;
+  _full JSONB;
+  _position INTEGER;
+BEGIN
+  IF _source NOT IN ('mobile', 'totem') THEN
+    RAISE EXCEPTION 'Invalid source: %', _source;
+  END IF;
+
+  SELECT event_id, name, COALESCE(checked_in, false), checkin_time, waitlisted_at
+    INTO _event_id, _name, _current, _current_time, _waitlisted_at
+    FROM public.guests WHERE id = _guest_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT direction = 'in' INTO _in_session FROM public.checkins
+    WHERE session_id = _session_id AND guest_id = _guest_id
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    IF COALESCE(_in_session, false) THEN
+      RETURN jsonb_build_object('status', 'conflict', 'checked_in', true);
+    END IF;
+  ELSIF _current THEN
+    RETURN jsonb_build_object('status', 'conflict', 'checked_in', true, 'checkin_time', _current_time);
+  END IF;
+
+  _full := public._capacity_full(_event_id, _session_id, NOT _current);
+  IF _full IS NOT NULL THEN
+    IF _full->>'scope' = 'event'
+       AND (SELECT capacity_mode FROM public.events WHERE id = _event_id) = 'waitlist' THEN
+      IF _waitlisted_at IS NULL THEN
+        _waitlisted_at := now();
+        UPDATE public.guests SET waitlisted_at = _waitlisted_at WHERE id = _guest_id;
+        INSERT INTO public.activity_logs (event_id, guest_id, action, details)
+        VALUES (_event_id, _guest_id, 'Lista de Espera',
+                _name || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+      END IF;
+
+      SELECT count(*) INTO _position FROM public.guests
+      WHERE event_id = _event_id AND NOT COALESCE(checked_in, false)
+        AND waitlisted_at IS NOT NULL AND waitlisted_at <= _waitlisted_at;
+
+      RETURN jsonb_build_object('status', 'waitlisted', 'position', _position);
+    END IF;
+    RETURN _full || jsonb_build_object('status', 'full');
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    IF NOT _current THEN
+      INSERT INTO public.checkins (event_id, guest_id, direction, source)
+      VALUES (_event_id, _guest_id, 'in', _source);
+    END IF;
+
+    INSERT INTO public.checkins (event_id, guest_id, session_id, direction, source)
+    VALUES (_event_id, _guest_id, _session_id, 'in', _source);
+  ELSE
+    INSERT INTO public.checkins (event_id, guest_id, direction, source)
+    VALUES (_event_id, _guest_id, 'in', _source);
+  END IF;
+
+  INSERT INTO public.activity_logs (event_id, guest_id, action, details)
+  VALUES (_event_id, _guest_id, 'Auto Check-in',
+          _name || COALESCE(' — ' || _session_name, '')
+            || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+
+  RETURN jsonb_build_object('status', 'ok', 'checked_in', true, 'checkin_time', now());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.self_checkin(UUID, TEXT, UUID) TO anon, authenticated;
+
+
+CREATE OR REPLACE FUNCTION public.rsvp_respond(_token TEXT, _status TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_id UUID;
+  _event_id UUID;
+  _name TEXT;
+BEGIN
+  IF _status NOT IN ('confirmed', 'declined') THEN
+    RAISE EXCEPTION 'Invalid RSVP status: %', _status;
+  END IF;
+
+  SELECT id, event_id, name INTO _guest_id, _event_id, _name
+    FROM public.guests WHERE checkin_token = _token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  UPDATE public.guests SET rsvp_status = _status, rsvp_at = now() WHERE id = _guest_id;
+
+  INSERT INTO public.activity_logs (event_id, guest_id, action, details)
+  VALUES (_event_id, _guest_id, CASE WHEN _status = 'confirmed' THEN 'RSVP Confirmou' ELSE 'RSVP Recusou' END, _name);
+
+  RETURN jsonb_build_object('status', 'ok', 'rsvp_status', _status);
+END;
+$$;
+
+-- =============================================================================
+-- 4. Anonymisation clears the guest's own log rows
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public._anonymize_guest_row(_guest_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.guests SET
+    name = 'Participante anonimizado',
+    company = NULL,
+    role = NULL,
+    email = NULL,
+    phone = NULL,
+    document = NULL,
+    ticket_type = NULL,
+    custom_data = '{}'::jsonb,
+    -- Keep only when and which version was accepted, not the answers
+    consent = CASE WHEN consent IS NULL THEN NULL ELSE jsonb_build_object('accepted_at', consent->'accepted_at', 'version', consent->'version') END,
+    anonymized_at = now()
+  WHERE id = _guest_id AND anonymized_at IS NULL;
+
+  -- The log writes the person's name into details
+  UPDATE public.activity_logs SET details = NULL WHERE guest_id = _guest_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public._anonymize_guest_row(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.anonymize_guest(_guest_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _operator_email TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT event_id INTO _event_id FROM public.guests WHERE id = _guest_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public._anonymize_guest_row(_guest_id);
+
+  SELECT email INTO _operator_email FROM public.profiles WHERE user_id = auth.uid();
+  INSERT INTO public.activity_logs (event_id, user_id, user_email, action, details)
+  VALUES (_event_id, auth.uid(), _operator_email, 'Anonimizou', 'Dados pessoais de 1 convidado (LGPD)');
+END;
+$$;
+
+-- =============================================================================
+-- 5. Is the retention schedule running?
+-- =============================================================================
+
+-- The daily job is only created where pg_cron is enabled; Settings warns otherwise
+CREATE OR REPLACE FUNCTION public.retention_schedule_active()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active BOOLEAN;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    RETURN false;
+  END IF;
+
+  EXECUTE 'SELECT EXISTS (SELECT 1 FROM cron.job WHERE jobname = $1 AND active)'
+    INTO _active USING 'anonymize-expired-events';
+  RETURN _active;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retention_schedule_active() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retention_schedule_active() TO authenticated;
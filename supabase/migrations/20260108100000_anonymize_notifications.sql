@@ -0,0 +1,34 @@
+-- Migration: Anonymisation also removes arrival notifications and watches
+-- notify_guest_watchers copies the guest's name into notifications.title, and
+-- guest_watchers keeps who was following that person. Both are removed with
+-- the guest's personal data (single guest, whole event and retention job all
+-- go through _anonymize_guest_row).
+
+CREATE OR REPLACE FUNCTION public._anonymize_guest_row(_guest_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.guests SET
+    name = 'Participante anonimizado',
+    company = NULL,
+    role = NULL,
+    email = NULL,
+    phone = NULL,
+    document = NULL,
+    ticket_type = NULL,
+    custom_data = '{}'::jsonb,
+    -- Keep only when and which version was accepted, not the answers
+    consent = CASE WHEN consent IS NULL THEN NULL ELSE jsonb_build_object('accepted_at', consent->'accepted_at', 'version', consent->'version') END,
+    anonymized_at = now()
+  WHERE id = _guest_id AND anonymized_at IS NULL;
+
+  -- The log writes the person's name into details
+  UPDATE public.activity_logs SET details = NULL WHERE guest_id = _guest_id;
+
+  DELETE FROM public.notifications WHERE guest_id = _guest_id;
+  DELETE FROM public.guest_watchers WHERE guest_id = _guest_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public._anonymize_guest_row(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,85 @@
+-- Migration: Walk-in registration and check-in in one call
+-- The mobile page used to insert the walk-in guest (public INSERT policy) and
+-- only then call self_checkin, so a full event left guests that never got in.
+-- walkin_checkin checks the capacity before creating the row, builds the
+-- consent on the server and checks the new guest in within one transaction.
+
+-- _data: { company, role, email, phone, document, custom_data }
+-- Returns the self_checkin result plus guest_id, or
+-- { status: 'not_found' | 'closed' (walk-ins disabled) | 'missing' (consent) }
+-- { status: 'full', scope, occupancy, capacity } without creating the guest
+CREATE OR REPLACE FUNCTION public.walkin_checkin(
+  _event_id UUID,
+  _name TEXT,
+  _data JSONB DEFAULT '{}'::jsonb,
+  _consent_answers JSONB DEFAULT NULL,
+  _session_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allow_walkins BOOLEAN;
+  _capacity_mode TEXT;
+  _settings JSONB;
+  _consent JSONB;
+  _full JSONB;
+  _guest_id UUID;
+BEGIN
+  IF COALESCE(trim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Name is required';
+  END IF;
+
+  SELECT allow_walkins, capacity_mode, consent INTO _allow_walkins, _capacity_mode, _settings
+    FROM public.events WHERE id = _event_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF NOT _allow_walkins THEN
+    RETURN jsonb_build_object('status', 'closed');
+  END IF;
+
+  IF _session_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.event_sessions WHERE id = _session_id AND event_id = _event_id) THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF COALESCE((_settings->>'enabled')::BOOLEAN, false) THEN
+    _consent := public._guest_consent(_settings, COALESCE(_consent_answers, '{}'::jsonb), 'mobile');
+    IF _consent IS NULL THEN
+      RETURN jsonb_build_object('status', 'missing');
+    END IF;
+  END IF;
+
+  -- Capacity first (locks the event row until the check-in below). On the
+  -- waitlist the row is still created: it holds the guest's place in line.
+  _full := public._capacity_full(_event_id, _session_id, true);
+  IF _full IS NOT NULL AND NOT (_full->>'scope' = 'event' AND _capacity_mode = 'waitlist') THEN
+    RETURN _full || jsonb_build_object('status', 'full');
+  END IF;
+
+  INSERT INTO public.guests (event_id, name, company, role, email, phone, document, custom_data, consent, is_walkin)
+  VALUES (
+    _event_id,
+    trim(_name),
+    NULLIF(trim(_data->>'company'), ''),
+    NULLIF(trim(_data->>'role'), ''),
+    lower(NULLIF(trim(_data->>'email'), '')),
+    NULLIF(trim(_data->>'phone'), ''),
+    NULLIF(trim(_data->>'document'), ''),
+    CASE WHEN jsonb_typeof(_data->'custom_data') = 'object' THEN _data->'custom_data' ELSE '{}'::jsonb END,
+    _consent,
+    true
+  )
+  RETURNING id INTO _guest_id;
+
+  RETURN public.self_checkin(_guest_id, 'mobile', _session_id) || jsonb_build_object('guest_id', _guest_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.walkin_checkin(UUID, TEXT, JSONB, JSONB, UUID) TO anon, authenticated;
+
@@ -0,0 +1,71 @@
+-- Migration: Guest search RPC for the public check-in page
+-- /guest/:id used to download the whole guest list and filter it in the
+-- browser. search_guests returns only a handful of matches for a query of at
+-- least 3 letters, with just what the page needs to confirm the guest.
+
+-- =============================================================================
+-- 1. Search key
+-- =============================================================================
+
+-- Lower case without accents, same as normalizeText on the client
+CREATE OR REPLACE FUNCTION public._search_key(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(translate(
+    coalesce(_value, ''),
+    'ÁÀÂÃÄÉÈÊËÍÌÎÏÓÒÔÕÖÚÙÛÜÇÑáàâãäéèêëíìîïóòôõöúùûüçñ',
+    'AAAAAEEEEIIIIOOOOOUUUUCNaaaaaeeeeiiiiooooouuuucn'
+  ));
+$$;
+
+-- =============================================================================
+-- 2. search_guests (public)
+-- =============================================================================
+
+-- Returns [{ id, name, checked_in, needs_consent }], at most 10 rows and
+-- nothing for queries shorter than 3 letters. The query is matched as plain
+-- text (no LIKE wildcards).
+CREATE OR REPLACE FUNCTION public.search_guests(_event_id UUID, _query TEXT, _limit INTEGER DEFAULT 8)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key TEXT := public._search_key(btrim(coalesce(_query, '')));
+  _consent JSONB;
+BEGIN
+  IF length(_key) < 3 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  SELECT coalesce(consent, '{}'::jsonb) INTO _consent FROM public.events WHERE id = _event_id;
+  IF NOT FOUND THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(m ORDER BY m.name)
+    FROM (
+      SELECT
+        g.id,
+        g.name,
+        g.checked_in,
+        coalesce((_consent->>'enabled')::boolean, false)
+          AND (g.consent IS NULL OR coalesce((g.consent->>'version')::integer, 0) <> coalesce((_consent->>'version')::integer, 1)) AS needs_consent
+      FROM public.guests g
+      WHERE g.event_id = _event_id
+        AND g.anonymized_at IS NULL
+        AND strpos(public._search_key(g.name), _key) > 0
+      ORDER BY g.name
+      LIMIT least(greatest(_limit, 1), 10)
+    ) m
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_guests(UUID, TEXT, INTEGER) TO anon, authenticated;
@@ -0,0 +1,91 @@
+-- Migration: Partial names in search_guests for the totem
+-- The totem's touch check-in used to download the guest list and shorten the
+-- names on screen. It now uses search_guests with _partial, which shortens the
+-- names in the search results on the server ("Maria Aparecida da Souza" ->
+-- "Maria A. S."). (20260116100000 makes the short form the only one.)
+
+-- =============================================================================
+-- 1. Partial name
+-- =============================================================================
+
+-- First name plus the initials of the next two words that are not
+-- prepositions, as the totem used to do in the browser
+CREATE OR REPLACE FUNCTION public._partial_name(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(' ',
+    upper(left(w[1], 1)) || lower(substr(w[1], 2)),
+    (
+      SELECT string_agg(upper(left(p.word, 1)) || '.', ' ' ORDER BY p.n)
+      FROM (
+        SELECT u.word, u.n
+        FROM unnest(w[2:]) WITH ORDINALITY AS u(word, n)
+        WHERE lower(u.word) NOT IN ('da', 'de', 'do', 'das', 'dos', 'e')
+        ORDER BY u.n
+        LIMIT 2
+      ) p
+    )
+  )
+  FROM regexp_split_to_array(btrim(coalesce(_name, '')), '\s+') AS w;
+$$;
+
+-- =============================================================================
+-- 2. search_guests (public)
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.search_guests(UUID, TEXT, INTEGER);
+
+-- Returns [{ id, name, checked_in, needs_consent, badge_printed }], at most 10
+-- rows and nothing for queries shorter than 3 letters. With _partial the name
+-- is shortened; the match still uses the full name.
+CREATE OR REPLACE FUNCTION public.search_guests(
+  _event_id UUID,
+  _query TEXT,
+  _limit INTEGER DEFAULT 8,
+  _partial BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key TEXT := public._search_key(btrim(coalesce(_query, '')));
+  _consent JSONB;
+BEGIN
+  IF length(_key) < 3 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  SELECT coalesce(consent, '{}'::jsonb) INTO _consent FROM public.events WHERE id = _event_id;
+  IF NOT FOUND THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(to_jsonb(m) - 'sort_name' ORDER BY m.sort_name)
+    FROM (
+      SELECT
+        g.id,
+        CASE WHEN _partial THEN public._partial_name(g.name) ELSE g.name END AS name,
+        g.checked_in,
+        coalesce((_consent->>'enabled')::boolean, false)
+          AND (g.consent IS NULL OR coalesce((g.consent->>'version')::integer, 0) <> coalesce((_consent->>'version')::integer, 1)) AS needs_consent,
+        g.badge_printed_at IS NOT NULL AS badge_printed,
+        g.name AS sort_name
+      FROM public.guests g
+      WHERE g.event_id = _event_id
+        AND g.anonymized_at IS NULL
+        AND strpos(public._search_key(g.name), _key) > 0
+      ORDER BY g.name
+      LIMIT least(greatest(_limit, 1), 10)
+    ) m
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_guests(UUID, TEXT, INTEGER, BOOLEAN) TO anon, authenticated;
@@ -0,0 +1,51 @@
+-- Migration: Arrival signal for public screens
+-- The arrivals wall listened to postgres_changes on public.guests, which sends
+-- whole guest rows to an unauthenticated browser. Public screens now listen to
+-- event_arrival_signals instead: one row per event, bumped on every guest
+-- check-in or check-out, carrying no guest data. The screen then reloads what
+-- it shows through its own RPC.
+
+-- =============================================================================
+-- 1. event_arrival_signals table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.event_arrival_signals (
+  event_id UUID PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.event_arrival_signals ENABLE ROW LEVEL SECURITY;
+
+-- Only the event id and a timestamp; written by the trigger below
+CREATE POLICY "Public can view arrival signals"
+ON public.event_arrival_signals FOR SELECT
+USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.event_arrival_signals;
+
+-- =============================================================================
+-- 2. Bump on guest check-in / check-out
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.signal_event_arrival()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.event_arrival_signals (event_id, updated_at)
+  VALUES (NEW.event_id, now())
+  ON CONFLICT (event_id) DO UPDATE SET updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_checkin_signal_arrival ON public.checkins;
+
+CREATE TRIGGER on_checkin_signal_arrival
+  AFTER INSERT ON public.checkins
+  FOR EACH ROW
+  WHEN (NEW.guest_id IS NOT NULL)
+  EXECUTE FUNCTION public.signal_event_arrival();
@@ -0,0 +1,171 @@
+-- Migration: Close public access to public.guests
+-- The baseline let anyone read, create and update every guest row. The public
+-- pages no longer touch the table: /guest and the totem search through
+-- search_guests and check in through self_checkin / walkin_checkin, the
+-- arrivals wall uses get_arrivals_wall, /rsvp reads the invitation through
+-- get_rsvp_invitation, the totem prints through claim_totem_badge and greets
+-- arrivals through get_totem_welcomes. The public policies are replaced by
+-- staff policies based on the user's role.
+
+-- =============================================================================
+-- 1. Policies
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Public can view guests by event" ON public.guests;
+DROP POLICY IF EXISTS "Public can create guests (walk-in)" ON public.guests;
+DROP POLICY IF EXISTS "Public can update guest check-in" ON public.guests;
+
+-- Staff work on every event (the owner policies stay for the event's creator)
+CREATE POLICY "Staff can view guests"
+ON public.guests FOR SELECT
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe') OR public.has_role(auth.uid(), 'recepcao'));
+
+CREATE POLICY "Staff can create guests"
+ON public.guests FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe') OR public.has_role(auth.uid(), 'recepcao'));
+
+CREATE POLICY "Staff can update guests"
+ON public.guests FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe') OR public.has_role(auth.uid(), 'recepcao'));
+
+CREATE POLICY "Admins can delete guests"
+ON public.guests FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- =============================================================================
+-- 2. get_rsvp_invitation (public)
+-- =============================================================================
+
+-- Returns { status: 'not_found' } or
+-- { status: 'ok', name, rsvp_status, event: { name, date, event_logo_url, primary_color } }
+-- The caller already holds the token, which is also the check-in QR.
+CREATE OR REPLACE FUNCTION public.get_rsvp_invitation(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest public.guests%ROWTYPE;
+  _event public.events%ROWTYPE;
+BEGIN
+  SELECT * INTO _guest FROM public.guests
+    WHERE checkin_token = _token AND anonymized_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _guest.event_id;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'name', _guest.name,
+    'rsvp_status', _guest.rsvp_status,
+    'event', jsonb_build_object(
+      'name', _event.name,
+      'date', _event.date,
+      'event_logo_url', _event.event_logo_url,
+      'primary_color', _event.primary_color
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_rsvp_invitation(TEXT) TO anon, authenticated;
+
+-- =============================================================================
+-- 3. claim_totem_badge (public)
+-- =============================================================================
+
+-- Badge data for the totem's touch check-in. Only when the kiosk prints badges,
+-- for a guest who checked in during the last 10 minutes and has no badge yet;
+-- the badge is marked as printed in the same statement, so each guest gets
+-- one badge from the totem.
+-- Returns { status: 'ok', name, company, role, category, checkin_token } or
+-- { status: 'denied' }
+CREATE OR REPLACE FUNCTION public.claim_totem_badge(_guest_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest public.guests%ROWTYPE;
+BEGIN
+  UPDATE public.guests g SET badge_printed_at = now()
+  FROM public.events e
+  WHERE g.id = _guest_id
+    AND e.id = g.event_id
+    AND g.badge_printed_at IS NULL
+    AND g.anonymized_at IS NULL
+    AND coalesce((e.kiosk_settings->>'enabled')::boolean, false)
+    AND coalesce((e.kiosk_settings->>'touch_enabled')::boolean, false)
+    AND coalesce((e.kiosk_settings->>'touch_print')::boolean, false)
+    AND EXISTS (
+      SELECT 1 FROM public.checkins c
+      WHERE c.guest_id = g.id AND c.direction = 'in' AND c.created_at > now() - interval '10 minutes'
+    )
+  RETURNING g.* INTO _guest;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'denied');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'name', _guest.name,
+    'company', _guest.company,
+    'role', _guest.role,
+    'category', _guest.category,
+    'checkin_token', _guest.checkin_token
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_totem_badge(UUID) TO anon, authenticated;
+
+-- =============================================================================
+-- 4. get_totem_welcomes (public)
+-- =============================================================================
+
+-- Guests who checked in during the last 2 minutes, for the totem's welcome
+-- message. Empty unless the kiosk and its welcome are enabled.
+-- Returns [{ id, name, checkin_time }]
+CREATE OR REPLACE FUNCTION public.get_totem_welcomes(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings JSONB;
+BEGIN
+  SELECT coalesce(kiosk_settings, '{}'::jsonb) INTO _settings
+    FROM public.events WHERE id = _event_id;
+
+  IF NOT FOUND
+    OR NOT coalesce((_settings->>'enabled')::boolean, false)
+    OR NOT coalesce((_settings->>'welcome_enabled')::boolean, true) THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(w ORDER BY w.checkin_time)
+    FROM (
+      SELECT g.id, g.name, g.checkin_time
+      FROM public.guests g
+      WHERE g.event_id = _event_id
+        AND g.checked_in
+        AND g.checkin_time > now() - interval '2 minutes'
+        AND g.anonymized_at IS NULL
+      ORDER BY g.checkin_time DESC
+      LIMIT 20
+    ) w
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_totem_welcomes(UUID) TO anon, authenticated;
@@ -0,0 +1,8 @@
+-- Migration: No anonymous access to public.guests
+-- checkin_token is the guest's personal QR: whoever reads it can check the
+-- guest in and answer their RSVP. Closing the public policies is not enough
+-- on its own (a future permissive policy would expose the column again), so
+-- the anon role loses its table privileges too. Public pages go through the
+-- SECURITY DEFINER RPCs, which never return other guests' tokens.
+
+REVOKE ALL ON public.guests FROM anon;
@@ -0,0 +1,98 @@
+-- Migration: Short names only in the public search and totem welcome
+-- search_guests let the caller choose between full and shortened names, so
+-- any anonymous caller could list full names. It now always returns the short
+-- form (staff read the table itself), and the totem's welcome message gets the
+-- short name too.
+
+-- =============================================================================
+-- 1. search_guests (public): always shortened names
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.search_guests(UUID, TEXT, INTEGER, BOOLEAN);
+
+-- Returns [{ id, name, checked_in, needs_consent, badge_printed }], at most 10
+-- rows and nothing for queries shorter than 3 letters. name is the short form
+-- ("Maria A. S."); the match still uses the full name.
+CREATE OR REPLACE FUNCTION public.search_guests(_event_id UUID, _query TEXT, _limit INTEGER DEFAULT 8)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key TEXT := public._search_key(btrim(coalesce(_query, '')));
+  _consent JSONB;
+BEGIN
+  IF length(_key) < 3 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  SELECT coalesce(consent, '{}'::jsonb) INTO _consent FROM public.events WHERE id = _event_id;
+  IF NOT FOUND THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(to_jsonb(m) - 'sort_name' ORDER BY m.sort_name)
+    FROM (
+      SELECT
+        g.id,
+        public._partial_name(g.name) AS name,
+        g.checked_in,
+        coalesce((_consent->>'enabled')::boolean, false)
+          AND (g.consent IS NULL OR coalesce((g.consent->>'version')::integer, 0) <> coalesce((_consent->>'version')::integer, 1)) AS needs_consent,
+        g.badge_printed_at IS NOT NULL AS badge_printed,
+        g.name AS sort_name
+      FROM public.guests g
+      WHERE g.event_id = _event_id
+        AND g.anonymized_at IS NULL
+        AND strpos(public._search_key(g.name), _key) > 0
+      ORDER BY g.name
+      LIMIT least(greatest(_limit, 1), 10)
+    ) m
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_guests(UUID, TEXT, INTEGER) TO anon, authenticated;
+
+-- =============================================================================
+-- 2. get_totem_welcomes (public): short names
+-- =============================================================================
+
+-- Returns [{ id, name, checkin_time }], name in the short form
+CREATE OR REPLACE FUNCTION public.get_totem_welcomes(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings JSONB;
+BEGIN
+  SELECT coalesce(kiosk_settings, '{}'::jsonb) INTO _settings
+    FROM public.events WHERE id = _event_id;
+
+  IF NOT FOUND
+    OR NOT coalesce((_settings->>'enabled')::boolean, false)
+    OR NOT coalesce((_settings->>'welcome_enabled')::boolean, true) THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(w ORDER BY w.checkin_time)
+    FROM (
+      SELECT g.id, public._partial_name(g.name) AS name, g.checkin_time
+      FROM public.guests g
+      WHERE g.event_id = _event_id
+        AND g.checked_in
+        AND g.checkin_time > now() - interval '2 minutes'
+        AND g.anonymized_at IS NULL
+      ORDER BY g.checkin_time DESC
+      LIMIT 20
+    ) w
+  ), '[]'::jsonb);
+END;
+$$;
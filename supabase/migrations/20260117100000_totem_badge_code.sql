@@ -0,0 +1,99 @@
+-- Migration: Totem badges carry a one-time badge code
+-- claim_totem_badge returned the guest's checkin_token, which anyone calling
+-- it right after a check-in could use to answer the RSVP. It now returns only
+-- what is printed on the badge: the badge name, company, role, category and a
+-- badge code generated for that print. The reception scanner accepts the code
+-- like the personal QR; the public pages do not, so checkin_token never leaves
+-- the server through the totem.
+
+-- =============================================================================
+-- 1. Badge name
+-- =============================================================================
+
+-- Same rule as formatNameForBadge on the client: first name plus two surnames,
+-- prepositions in lower case ("maria aparecida da silva souza" -> "Maria Aparecida da Silva")
+CREATE OR REPLACE FUNCTION public._badge_name(_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[] := regexp_split_to_array(btrim(coalesce(_name, '')), '\s+');
+  _prepositions TEXT[] := ARRAY['da', 'de', 'do', 'das', 'dos', 'e'];
+  _word TEXT;
+  _words TEXT[] := '{}';
+  _surnames INTEGER := 0;
+BEGIN
+  FOR _i IN 1..coalesce(array_length(_parts, 1), 0) LOOP
+    _word := lower(_parts[_i]);
+    IF _i = 1 OR NOT _word = ANY(_prepositions) THEN
+      _word := upper(left(_word, 1)) || substr(_word, 2);
+      IF _i > 1 THEN
+        _surnames := _surnames + 1;
+      END IF;
+    END IF;
+    _words := _words || _word;
+    -- Short names are kept whole
+    EXIT WHEN array_length(_parts, 1) > 3 AND _surnames >= 2;
+  END LOOP;
+
+  RETURN array_to_string(_words, ' ');
+END;
+$$;
+
+-- =============================================================================
+-- 2. claim_totem_badge (public): badge fields and a one-time badge code
+-- =============================================================================
+
+ALTER TABLE public.guests
+  ADD COLUMN IF NOT EXISTS badge_code TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS guests_badge_code_key
+  ON public.guests (badge_code);
+
+-- Only when the kiosk prints badges, for a guest who checked in during the last
+-- 10 minutes and has no badge yet; the badge is marked as printed in the same
+-- statement, so each guest gets one badge from the totem.
+-- Returns { status: 'ok', name, company, role, category, badge_code } or
+-- { status: 'denied' }
+CREATE OR REPLACE FUNCTION public.claim_totem_badge(_guest_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest public.guests%ROWTYPE;
+BEGIN
+  UPDATE public.guests g SET
+    badge_printed_at = now(),
+    badge_code = replace(gen_random_uuid()::text, '-', '')
+  FROM public.events e
+  WHERE g.id = _guest_id
+    AND e.id = g.event_id
+    AND g.badge_printed_at IS NULL
+    AND g.anonymized_at IS NULL
+    AND coalesce((e.kiosk_settings->>'enabled')::boolean, false)
+    AND coalesce((e.kiosk_settings->>'touch_enabled')::boolean, false)
+    AND coalesce((e.kiosk_settings->>'touch_print')::boolean, false)
+    AND EXISTS (
+      SELECT 1 FROM public.checkins c
+      WHERE c.guest_id = g.id AND c.direction = 'in' AND c.created_at > now() - interval '10 minutes'
+    )
+  RETURNING g.* INTO _guest;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'denied');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'name', public._badge_name(_guest.name),
+    'company', _guest.company,
+    'role', _guest.role,
+    'category', _guest.category,
+    'badge_code', _guest.badge_code
+  );
+END;
+$$;
@@ -0,0 +1,65 @@
+-- Migration: Guest list with the CPF masked for reception
+-- Reception (recepcao) should only see the middle of a guest's CPF, but the
+-- panel downloaded every guest row with the full document and masked it on
+-- screen. The list now comes from get_event_guests, which masks the document
+-- on the server for reception; admins, equipe and the event owner get it in
+-- full.
+
+-- =============================================================================
+-- 1. Mask
+-- =============================================================================
+
+-- ***.456.789-** for a CPF, only the last 3 characters of anything else
+CREATE OR REPLACE FUNCTION public._mask_document(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _value IS NULL OR _value = '' THEN _value
+    WHEN length(regexp_replace(_value, '\D', '', 'g')) = 11 THEN
+      '***.' || substr(regexp_replace(_value, '\D', '', 'g'), 4, 3) || '.'
+        || substr(regexp_replace(_value, '\D', '', 'g'), 7, 3) || '-**'
+    WHEN length(_value) > 3 THEN repeat('*', length(_value) - 3) || right(_value, 3)
+    ELSE '***'
+  END;
+$$;
+
+-- =============================================================================
+-- 2. get_event_guests
+-- =============================================================================
+
+-- Returns the event's guest rows ordered by name
+CREATE OR REPLACE FUNCTION public.get_event_guests(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner BOOLEAN;
+  _full BOOLEAN;
+BEGIN
+  SELECT user_id = auth.uid() INTO _owner FROM public.events WHERE id = _event_id;
+  _owner := COALESCE(_owner, false);
+  _full := _owner OR public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'equipe');
+
+  IF NOT _full AND NOT public.has_role(auth.uid(), 'recepcao') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      CASE WHEN _full THEN to_jsonb(g)
+           ELSE to_jsonb(g) || jsonb_build_object('document', public._mask_document(g.document)) END
+      ORDER BY g.name
+    )
+    FROM public.guests g
+    WHERE g.event_id = _event_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_guests(UUID) TO authenticated;
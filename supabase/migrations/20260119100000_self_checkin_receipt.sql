@@ -0,0 +1,108 @@
+-- Migration: self_checkin returns the arrival it recorded
+-- send-notifications accepted any anonymous request with a guest_id. Public
+-- callers (/guest, the totem) now have to send the id of the event-level
+-- check-in they just recorded, which only self_checkin / walkin_checkin hand
+-- out (anon cannot read public.checkins); staff callers are checked by their
+-- session and role inside the function.
+
+-- Returns the same as before plus checkin_id (NULL when only the session
+-- entry was recorded)
+CREATE OR REPLACE FUNCTION public.self_checkin(
+  _guest_id UUID,
+  _source TEXT DEFAULT 'mobile',
+  _session_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID;
+  _name TEXT;
+  _current BOOLEAN;
+  _current_time TIMESTAMP WITH TIME ZONE;
+  _waitlisted_at TIMESTAMP WITH TIME ZONE;
+  _session_name TEXT;
+  _in_session BOOLEAN;
+  _full JSONB;
+  _position INTEGER;
+  _checkin_id UUID;
+BEGIN
+  IF _source NOT IN ('mobile', 'totem') THEN
+    RAISE EXCEPTION 'Invalid source: %', _source;
+  END IF;
+
+  SELECT event_id, name, COALESCE(checked_in, false), checkin_time, waitlisted_at
+    INTO _event_id, _name, _current, _current_time, _waitlisted_at
+    FROM public.guests WHERE id = _guest_id AND anonymized_at IS NULL FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    SELECT name INTO _session_name FROM public.event_sessions
+      WHERE id = _session_id AND event_id = _event_id;
+    IF _session_name IS NULL THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    SELECT direction = 'in' INTO _in_session FROM public.checkins
+    WHERE session_id = _session_id AND guest_id = _guest_id
+    ORDER BY occurred_at DESC, created_at DESC
+    LIMIT 1;
+
+    IF COALESCE(_in_session, false) THEN
+      RETURN jsonb_build_object('status', 'conflict', 'checked_in', true);
+    END IF;
+  ELSIF _current THEN
+    RETURN jsonb_build_object('status', 'conflict', 'checked_in', true, 'checkin_time', _current_time);
+  END IF;
+
+  _full := public._capacity_full(_event_id, _session_id, NOT _current);
+  IF _full IS NOT NULL THEN
+    IF _full->>'scope' = 'event'
+       AND (SELECT capacity_mode FROM public.events WHERE id = _event_id) = 'waitlist' THEN
+      IF _waitlisted_at IS NULL THEN
+        _waitlisted_at := now();
+        UPDATE public.guests SET waitlisted_at = _waitlisted_at WHERE id = _guest_id;
+        INSERT INTO public.activity_logs (event_id, guest_id, action, details)
+        VALUES (_event_id, _guest_id, 'Lista de Espera',
+                _name || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+      END IF;
+
+      SELECT count(*) INTO _position FROM public.guests
+      WHERE event_id = _event_id AND NOT COALESCE(checked_in, false)
+        AND waitlisted_at IS NOT NULL AND waitlisted_at <= _waitlisted_at;
+
+      RETURN jsonb_build_object('status', 'waitlisted', 'position', _position);
+    END IF;
+    RETURN _full || jsonb_build_object('status', 'full');
+  END IF;
+
+  IF _session_id IS NOT NULL THEN
+    IF NOT _current THEN
+      INSERT INTO public.checkins (event_id, guest_id, direction, source)
+      VALUES (_event_id, _guest_id, 'in', _source)
+      RETURNING id INTO _checkin_id;
+    END IF;
+
+    INSERT INTO public.checkins (event_id, guest_id, session_id, direction, source)
+    VALUES (_event_id, _guest_id, _session_id, 'in', _source);
+  ELSE
+    INSERT INTO public.checkins (event_id, guest_id, direction, source)
+    VALUES (_event_id, _guest_id, 'in', _source)
+    RETURNING id INTO _checkin_id;
+  END IF;
+
+  INSERT INTO public.activity_logs (event_id, guest_id, action, details)
+  VALUES (_event_id, _guest_id, 'Auto Check-in',
+          _name || COALESCE(' — ' || _session_name, '')
+            || CASE WHEN _source = 'totem' THEN ' (Via Totem)' ELSE ' (Via Mobile)' END);
+
+  RETURN jsonb_build_object('status', 'ok', 'checked_in', true, 'checkin_time', now(), 'checkin_id', _checkin_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.self_checkin(UUID, TEXT, UUID) TO anon, authenticated;